@@ -0,0 +1,194 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getCourseLabel } from '@/lib/courses'
+import { DIFFICULTY_STYLES } from '@/lib/study'
+import CourseActions from '@/components/CourseActions'
+import FlashcardExportButtons from '@/components/FlashcardExportButtons'
+import type { Course, LectureWithSummary } from '@/lib/types'
+
+function formatDuration(seconds: number | undefined): string {
+  if (!seconds) return '—'
+  const mins = Math.floor(seconds / 60)
+  if (mins < 60) return `${mins}m`
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+export default async function CoursePage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const supabase = await createServerSupabaseClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) return null
+
+  const { data: course } = await supabase
+    .from('courses')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle<Course>()
+
+  if (!course) notFound()
+
+  // In the order they were recorded
+  const { data } = await supabase
+    .from('lectures')
+    .select(`
+      id,
+      title,
+      status,
+      duration,
+      recording_date,
+      created_at,
+      lecture_summaries (
+        key_concepts,
+        definitions,
+        difficulty_level
+      )
+    `)
+    .eq('course_id', id)
+    .order('recording_date', { ascending: true })
+
+  const lectures = (data || []) as LectureWithSummary[]
+  const totalSeconds = lectures.reduce((acc, lecture) => acc + (lecture.duration || 0), 0)
+  const completedIds = lectures.filter(lecture => lecture.status === 'completed').map(lecture => lecture.id)
+  const hasCards = lectures.some(lecture => {
+    const summary = Array.isArray(lecture.lecture_summaries) ? lecture.lecture_summaries[0] : lecture.lecture_summaries
+    return lecture.status === 'completed' && (summary?.key_concepts?.length || summary?.definitions?.length)
+  })
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href="/courses"
+          className="text-sm text-gray-500 hover:text-gray-700 mb-4 inline-flex items-center gap-1"
+        >
+          ← All Courses
+        </Link>
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-start gap-4">
+            <div className="w-3 self-stretch rounded-full" style={{ backgroundColor: course.color }} />
+            <div>
+              {course.code && (
+                <p className="text-sm font-semibold mb-1" style={{ color: course.color }}>{course.code}</p>
+              )}
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">{course.name}</h1>
+              <div className="flex items-center gap-3 text-sm text-gray-500">
+                {course.term && <span>📅 {course.term}</span>}
+                {course.instructor && <span>👤 {course.instructor}</span>}
+                <span>🎙️ {lectures.length} lecture{lectures.length === 1 ? '' : 's'}</span>
+                {totalSeconds > 0 && <span>⏱️ {formatDuration(totalSeconds)}</span>}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <CourseActions course={course} />
+          </div>
+        </div>
+      </div>
+
+      {/* Lectures */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm mb-6">
+        {lectures.length === 0 ? (
+          <div className="p-12 text-center">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-3xl">📭</span>
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No lectures in this course yet</h3>
+            <p className="text-gray-500 mb-6">
+              Pick this course when you upload a lecture, or from a lecture&apos;s page
+            </p>
+            <Link
+              href="/record"
+              className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition"
+            >
+              <span>📤</span>
+              Upload Lecture
+            </Link>
+          </div>
+        ) : (
+          <ol className="divide-y divide-gray-100">
+            {lectures.map((lecture, index) => {
+              const summary = Array.isArray(lecture.lecture_summaries)
+                ? lecture.lecture_summaries[0]
+                : lecture.lecture_summaries
+              const conceptCount = summary?.key_concepts?.length || 0
+
+              return (
+                <li key={lecture.id}>
+                  <Link
+                    href={`/lecture/${lecture.id}`}
+                    className="flex items-center gap-4 p-4 hover:bg-gray-50 transition"
+                  >
+                    <span
+                      className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 text-sm font-semibold text-white"
+                      style={{ backgroundColor: course.color }}
+                    >
+                      {index + 1}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h3 className="font-medium text-gray-900 truncate">{lecture.title}</h3>
+                        {lecture.status !== 'completed' && (
+                          <span className={`text-xs font-medium px-2 py-1 rounded-full ${
+                            lecture.status === 'processing' ? 'text-yellow-600 bg-yellow-50' : 'text-red-600 bg-red-50'
+                          }`}>
+                            {lecture.status === 'processing' ? 'Processing' : 'Failed'}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-3 text-sm text-gray-500">
+                        <span>{formatDate(lecture.recording_date)}</span>
+                        <span>•</span>
+                        <span>{formatDuration(lecture.duration)}</span>
+                        {conceptCount > 0 && (
+                          <>
+                            <span>•</span>
+                            <span>{conceptCount} concepts</span>
+                          </>
+                        )}
+                        {summary?.difficulty_level && DIFFICULTY_STYLES[summary.difficulty_level] && (
+                          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${DIFFICULTY_STYLES[summary.difficulty_level].className}`}>
+                            {DIFFICULTY_STYLES[summary.difficulty_level].label}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <span className="text-gray-400">→</span>
+                  </Link>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+
+      {/* Course Flashcards */}
+      {hasCards && (
+        <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-1">
+            <span>🃏</span> Course Flashcards
+          </h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Every lecture&apos;s key concepts and definitions as one deck named &ldquo;{getCourseLabel(course)}&rdquo;
+          </p>
+          <FlashcardExportButtons lectureIds={completedIds} deckName={getCourseLabel(course)} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import Link from 'next/link'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { groupCoursesByTerm, loadCourses } from '@/lib/courses'
+import NewCourseButton from '@/components/NewCourseButton'
+import type { Course } from '@/lib/types'
+
+function formatTotalDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60)
+  if (mins < 60) return `${mins}m`
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`
+}
+
+export default async function CoursesPage() {
+  const supabase = await createServerSupabaseClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) return null
+
+  let courses: Course[] = []
+  let loadError: string | null = null
+  try {
+    courses = await loadCourses(supabase)
+  } catch (err) {
+    console.error('[LectureLink] Failed to load courses:', err)
+    loadError = 'Courses couldn\'t be loaded. Please try again.'
+  }
+
+  // Lecture count and length per course
+  const { data: lectures } = await supabase
+    .from('lectures')
+    .select('course_id, duration')
+
+  const totals = new Map<string | null, { count: number; seconds: number }>()
+  for (const lecture of lectures || []) {
+    const total = totals.get(lecture.course_id) || { count: 0, seconds: 0 }
+    total.count++
+    total.seconds += lecture.duration || 0
+    totals.set(lecture.course_id, total)
+  }
+  const unassigned = totals.get(null)?.count || 0
+
+  return (
+    <div className="p-8 max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-start justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Courses
+          </h1>
+          <p className="text-gray-600">
+            Your lectures grouped by class and term
+          </p>
+        </div>
+        <NewCourseButton />
+      </div>
+
+      {loadError ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+          {loadError}
+        </div>
+      ) : courses.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 shadow-sm text-center">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">🎓</span>
+          </div>
+          <h2 className="text-lg font-medium text-gray-900 mb-2">No courses yet</h2>
+          <p className="text-gray-500">
+            Create a course for each class you&apos;re taking, then pick it when you upload a lecture.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {groupCoursesByTerm(courses).map(group => (
+            <section key={group.term ?? ''}>
+              <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+                {group.term || 'No term'}
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {group.courses.map(course => {
+                  const total = totals.get(course.id)
+                  return (
+                    <Link
+                      key={course.id}
+                      href={`/courses/${course.id}`}
+                      style={{ borderLeftColor: course.color }}
+                      className="bg-white rounded-xl border border-gray-200 border-l-4 p-5 shadow-sm hover:shadow-md transition"
+                    >
+                      {course.code && (
+                        <p className="text-xs font-semibold mb-1" style={{ color: course.color }}>
+                          {course.code}
+                        </p>
+                      )}
+                      <h3 className="font-semibold text-gray-900 mb-1">{course.name}</h3>
+                      {course.instructor && (
+                        <p className="text-sm text-gray-500 mb-3">{course.instructor}</p>
+                      )}
+                      <p className="text-sm text-gray-500">
+                        {total?.count || 0} lecture{total?.count === 1 ? '' : 's'}
+                        {total?.seconds ? ` • ${formatTotalDuration(total.seconds)}` : ''}
+                      </p>
+                    </Link>
+                  )
+                })}
+              </div>
+            </section>
+          ))}
+
+          {unassigned > 0 && (
+            <p className="text-sm text-gray-500">
+              {unassigned} lecture{unassigned === 1 ? ' isn\'t' : 's aren\'t'} in a course yet. Choose a course from the lecture&apos;s page.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
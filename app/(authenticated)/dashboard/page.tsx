@@ -1,5 +1,10 @@
 import Link from 'next/link'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { DIFFICULTY_STYLES, formatStudyTime } from '@/lib/study'
+import { getDueCards, loadFlashcardDeck } from '@/lib/flashcards'
+import { getRemainingSeconds, loadRecordingUsage, TIER_LABELS, type RecordingUsage } from '@/lib/quota'
+import ReprocessButton from '@/components/ReprocessButton'
+import VaultExportButton from '@/components/VaultExportButton'
 import type { LectureWithSummary, DashboardStats } from '@/lib/types'
 
 async function getDashboardData(userId: string) {
@@ -14,8 +19,14 @@ async function getDashboardData(userId: string) {
       status,
       duration,
       created_at,
+      audio_path,
+      slides_path,
+      files_error,
+      processing_options,
       lecture_summaries (
-        key_concepts
+        key_concepts,
+        difficulty_level,
+        estimated_study_time_minutes
       )
     `)
     .eq('user_id', userId)
@@ -41,7 +52,19 @@ async function getDashboardData(userId: string) {
   // Get recent lectures (limit 5)
   const recentLectures = allLectures.slice(0, 5)
 
-  return { stats, recentLectures }
+  const usage = await loadRecordingUsage(supabase).catch(err => {
+    console.error('[LectureLink] Failed to load recording usage:', err)
+    return null
+  })
+
+  const dueCards = await loadFlashcardDeck(supabase)
+    .then(deck => getDueCards(deck).length)
+    .catch(err => {
+      console.error('[LectureLink] Failed to load flashcards:', err)
+      return null
+    })
+
+  return { stats, recentLectures, usage, dueCards }
 }
 
 function formatDuration(seconds: number | undefined): string {
@@ -90,13 +113,65 @@ function getStatusBadge(status: string) {
   }
 }
 
+function RecordingQuotaCard({ usage }: { usage: RecordingUsage }) {
+  const remainingSeconds = getRemainingSeconds(usage)
+  const remainingMinutes = remainingSeconds === null ? null : Math.floor(remainingSeconds / 60)
+  const usedPercent = usage.limit_minutes === null
+    ? 0
+    : usage.limit_minutes > 0
+      ? Math.min(100, Math.round((usage.used_seconds / 60 / usage.limit_minutes) * 100))
+      : 100
+  const exceeded = remainingMinutes !== null && remainingMinutes <= 0
+
+  // Usage is counted per calendar month in UTC
+  const now = new Date()
+  const resetDate = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+
+  return (
+    <div className={`rounded-xl border p-6 shadow-sm ${exceeded ? 'bg-red-50 border-red-200' : 'bg-white border-gray-200'}`}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <span>⏱️</span> Recording Minutes
+        </h3>
+        <span className="text-xs font-medium text-gray-600 bg-gray-100 px-2 py-1 rounded-full">
+          {TIER_LABELS[usage.subscription_tier]}
+        </span>
+      </div>
+      {remainingMinutes === null ? (
+        <>
+          <p className="text-2xl font-bold text-gray-900">Unlimited</p>
+          <p className="text-xs text-gray-500 mt-2">
+            {Math.floor(usage.used_seconds / 60)} min recorded this month
+          </p>
+        </>
+      ) : (
+        <>
+          <p className="text-2xl font-bold text-gray-900">
+            {remainingMinutes} <span className="text-sm font-normal text-gray-500">of {usage.limit_minutes} min left</span>
+          </p>
+          <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden mt-3 mb-2">
+            <div
+              className={`h-full rounded-full ${exceeded ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${usedPercent}%` }}
+            />
+          </div>
+          <p className={`text-xs ${exceeded ? 'text-red-700' : 'text-gray-500'}`}>
+            {exceeded ? 'Quota exceeded - new uploads are paused until ' : 'Resets '}
+            {resetDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
+
 export default async function DashboardPage() {
   const supabase = await createServerSupabaseClient()
   const { data: { user } } = await supabase.auth.getUser()
   
   if (!user) return null
 
-  const { stats, recentLectures } = await getDashboardData(user.id)
+  const { stats, recentLectures, usage, dueCards } = await getDashboardData(user.id)
   const displayName = user.user_metadata?.full_name || user.email?.split('@')[0] || 'there'
 
   return (
@@ -172,7 +247,7 @@ export default async function DashboardPage() {
                 <h2 className="text-lg font-semibold text-gray-900">Recent Lectures</h2>
                 {recentLectures.length > 0 && (
                   <Link 
-                    href="/dashboard" 
+                    href="/lectures" 
                     className="text-sm text-blue-600 hover:text-blue-700 font-medium"
                   >
                     View all →
@@ -207,35 +282,52 @@ export default async function DashboardPage() {
                   const conceptCount = summary?.key_concepts?.length || 0
                   
                   return (
-                    <Link
-                      key={lecture.id}
-                      href={`/lecture/${lecture.id}`}
-                      className="flex items-center gap-4 p-4 hover:bg-gray-50 transition"
-                    >
-                      <div className="w-12 h-12 bg-blue-50 rounded-lg flex items-center justify-center flex-shrink-0">
-                        <span className="text-xl">🎙️</span>
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <div className="flex items-center gap-2 mb-1">
-                          <h3 className="font-medium text-gray-900 truncate">
-                            {lecture.title}
-                          </h3>
-                          {getStatusBadge(lecture.status)}
+                    <div key={lecture.id} className="relative">
+                      <Link
+                        href={`/lecture/${lecture.id}`}
+                        className="flex items-center gap-4 p-4 hover:bg-gray-50 transition"
+                      >
+                        <div className="w-12 h-12 bg-blue-50 rounded-lg flex items-center justify-center flex-shrink-0">
+                          <span className="text-xl">🎙️</span>
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-medium text-gray-900 truncate">
+                              {lecture.title}
+                            </h3>
+                            {getStatusBadge(lecture.status)}
+                          </div>
+                          <div className="flex items-center gap-3 text-sm text-gray-500">
+                            <span>{formatDate(lecture.created_at)}</span>
+                            <span>•</span>
+                            <span>{formatDuration(lecture.duration)}</span>
+                            {conceptCount > 0 && (
+                              <>
+                                <span>•</span>
+                                <span>{conceptCount} concepts</span>
+                              </>
+                            )}
+                            {summary?.estimated_study_time_minutes && (
+                              <>
+                                <span>•</span>
+                                <span>{formatStudyTime(summary.estimated_study_time_minutes)}</span>
+                              </>
+                            )}
+                            {summary?.difficulty_level && DIFFICULTY_STYLES[summary.difficulty_level] && (
+                              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${DIFFICULTY_STYLES[summary.difficulty_level].className}`}>
+                                {DIFFICULTY_STYLES[summary.difficulty_level].label}
+                              </span>
+                            )}
+                          </div>
                         </div>
-                        <div className="flex items-center gap-3 text-sm text-gray-500">
-                          <span>{formatDate(lecture.created_at)}</span>
-                          <span>•</span>
-                          <span>{formatDuration(lecture.duration)}</span>
-                          {conceptCount > 0 && (
-                            <>
-                              <span>•</span>
-                              <span>{conceptCount} concepts</span>
-                            </>
-                          )}
+                        <span className="text-gray-400">→</span>
+                      </Link>
+                      {lecture.status === 'failed' && (
+                        <div className="absolute right-12 top-1/2 -translate-y-1/2">
+                          <ReprocessButton lecture={lecture} />
                         </div>
-                      </div>
-                      <span className="text-gray-400">→</span>
-                    </Link>
+                      )}
+                    </div>
                   )
                 })}
               </div>
@@ -245,6 +337,46 @@ export default async function DashboardPage() {
 
         {/* Quick Actions */}
         <div className="space-y-6">
+          {/* Recording Quota Card */}
+          {usage && <RecordingQuotaCard usage={usage} />}
+
+          {/* Flashcards Card */}
+          {dueCards !== null && (
+            <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                  <span>🃏</span> Flashcards
+                </h3>
+              </div>
+              <p className="text-2xl font-bold text-gray-900">
+                {dueCards} <span className="text-sm font-normal text-gray-500">card{dueCards === 1 ? '' : 's'} due today</span>
+              </p>
+              {dueCards > 0 ? (
+                <Link
+                  href="/flashcards"
+                  className="block w-full mt-4 py-2 bg-blue-600 text-white rounded-lg font-medium text-center text-sm hover:bg-blue-700 transition"
+                >
+                  Start Review
+                </Link>
+              ) : (
+                <p className="text-xs text-gray-500 mt-2">Nothing to review right now</p>
+              )}
+            </div>
+          )}
+
+          {/* Vault Export Card */}
+          {stats.completedLectures > 0 && (
+            <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+              <h3 className="font-semibold text-gray-900 flex items-center gap-2 mb-2">
+                <span>🗂️</span> Markdown Vault
+              </h3>
+              <p className="text-sm text-gray-500">
+                Every lecture, concept and definition as linked Markdown notes for Obsidian
+              </p>
+              <VaultExportButton />
+            </div>
+          )}
+
           {/* Upload Card */}
           <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-6 text-white shadow-lg">
             <div className="flex items-center gap-3 mb-4">
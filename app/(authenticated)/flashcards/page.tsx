@@ -0,0 +1,99 @@
+import Link from 'next/link'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getDueCards, getNextDueDate, loadFlashcardDeck, type FlashcardDeck } from '@/lib/flashcards'
+import FlashcardReview from '@/components/FlashcardReview'
+import FlashcardExportButtons from '@/components/FlashcardExportButtons'
+
+function formatDueDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export default async function FlashcardsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ lecture?: string }>
+}) {
+  const { lecture: lectureId } = await searchParams
+  const supabase = await createServerSupabaseClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) return null
+
+  let deck: FlashcardDeck = { cards: [], newCardsToday: 0 }
+  let loadError: string | null = null
+  try {
+    deck = await loadFlashcardDeck(supabase, lectureId)
+  } catch (err) {
+    console.error('[LectureLink] Failed to load flashcards:', err)
+    loadError = 'Flashcards couldn\'t be loaded. Please try again.'
+  }
+
+  const dueCards = getDueCards(deck)
+  const nextDue = getNextDueDate(deck)
+  const lectureTitle = lectureId ? deck.cards[0]?.lecture_title : null
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        {lectureId && (
+          <Link
+            href={`/lecture/${lectureId}`}
+            className="text-sm text-gray-500 hover:text-gray-700 mb-4 inline-flex items-center gap-1"
+          >
+            ← Back to Lecture
+          </Link>
+        )}
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          Flashcards
+        </h1>
+        <p className="text-gray-600">
+          {lectureTitle
+            ? <>Key concepts and definitions from <span className="font-medium">{lectureTitle}</span></>
+            : 'Key concepts and definitions from all your lectures, scheduled for review'}
+        </p>
+        {lectureId && (
+          <Link href="/flashcards" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+            Review all lectures →
+          </Link>
+        )}
+        {deck.cards.length > 0 && (
+          <div className="mt-4 flex items-center gap-3">
+            <span className="text-sm text-gray-500">
+              Export {lectureId ? 'this deck' : `all ${deck.cards.length} cards as one deck`}:
+            </span>
+            <FlashcardExportButtons lectureIds={lectureId ? [lectureId] : undefined} />
+          </div>
+        )}
+      </div>
+
+      {loadError ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+          {loadError}
+        </div>
+      ) : dueCards.length > 0 ? (
+        <FlashcardReview userId={user.id} cards={dueCards} />
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 p-12 shadow-sm text-center">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-3xl">{deck.cards.length > 0 ? '✅' : '🃏'}</span>
+          </div>
+          <h2 className="text-lg font-medium text-gray-900 mb-2">
+            {deck.cards.length > 0 ? 'All caught up' : 'No flashcards yet'}
+          </h2>
+          <p className="text-gray-500">
+            {deck.cards.length === 0
+              ? 'Cards are made from the key concepts and definitions of processed lectures.'
+              : nextDue
+              ? `Your next review is due ${formatDueDate(nextDue)}.`
+              : 'You\'ve reached today\'s limit of new cards. Come back tomorrow for more.'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
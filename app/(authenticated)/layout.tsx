@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { loadCourses } from '@/lib/courses'
 import Sidebar from '@/components/Sidebar'
+import UploadQueueProvider from '@/components/UploadQueueProvider'
 
 export default async function AuthenticatedLayout({
   children,
@@ -14,12 +16,19 @@ export default async function AuthenticatedLayout({
     redirect('/login')
   }
 
+  const courses = await loadCourses(supabase).catch(err => {
+    console.error('[LectureLink] Failed to load courses:', err)
+    return []
+  })
+
   return (
-    <div className="flex min-h-screen bg-gray-50">
-      <Sidebar user={user} />
-      <main className="flex-1 overflow-y-auto">
-        {children}
-      </main>
-    </div>
+    <UploadQueueProvider>
+      <div className="flex min-h-screen bg-gray-50">
+        <Sidebar user={user} courses={courses} />
+        <main className="flex-1 overflow-y-auto">
+          {children}
+        </main>
+      </div>
+    </UploadQueueProvider>
   )
 }
@@ -1,40 +1,136 @@
 'use client'
 
-import { useEffect, useState } from 'react'
-import { useParams } from 'next/navigation'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase'
-import type { Lecture, LectureSummary, KeyConcept, Definition, ActionItem } from '@/lib/types'
+import { api, getLanguageLabel, getStageDisplay } from '@/lib/api'
+import { recordJobProgress, requestFinalize } from '@/lib/lecture-jobs'
+import ReprocessDialog from '@/components/ReprocessDialog'
+import TranscriptView, { type TranscriptSelection } from '@/components/TranscriptView'
+import LectureAudioPlayer from '@/components/LectureAudioPlayer'
+import SlidesView from '@/components/SlidesView'
+import HighlightedText from '@/components/HighlightedText'
+import TranscriptSearchBar from '@/components/TranscriptSearchBar'
+import StudyQuestions from '@/components/StudyQuestions'
+import SummaryEditor from '@/components/SummaryEditor'
+import SummaryHistory from '@/components/SummaryHistory'
+import NoteComposer from '@/components/NoteComposer'
+import NotesPanel from '@/components/NotesPanel'
+import MasterDocumentView from '@/components/MasterDocumentView'
+import ExportDialog from '@/components/ExportDialog'
+import CaptionExportMenu from '@/components/CaptionExportMenu'
+import CourseSelect from '@/components/CourseSelect'
+import LectureTagEditor from '@/components/LectureTagEditor'
+import { buildSearchPattern, findMatches, type TextSearchOptions } from '@/lib/text-search'
+import { getConceptExplanation, getConceptName } from '@/lib/concepts'
+import { DIFFICULTY_STYLES, formatStudyTime } from '@/lib/study'
+import { getSummaryContent, saveSummaryRevision } from '@/lib/summary-revisions'
+import { buildTranscriptIndex, createTextAnchor } from '@/lib/anchoring'
+import {
+  createLectureNote,
+  deleteLectureNote,
+  loadLectureNotes,
+  resolveNotes,
+  updateLectureNote,
+  type NoteAnchor,
+  type ResolvedNote,
+} from '@/lib/notes'
+import { formatTimestamp } from '@/lib/transcript'
+import { getAvailableSections } from '@/lib/export/document'
+import { setLectureCourse } from '@/lib/courses'
+import type {
+  Lecture,
+  LectureSummary,
+  LectureSlide,
+  KeyConcept,
+  Definition,
+  ActionItem,
+  LectureNote,
+  LectureDocument,
+  SummaryContent,
+  TranscriptSegment,
+} from '@/lib/types'
 
-type TabType = 'summary' | 'keypoints' | 'transcript'
+type TabType = 'summary' | 'keypoints' | 'transcript' | 'slides' | 'document' | 'notes'
+
+const TABS: TabType[] = ['summary', 'keypoints', 'transcript', 'slides', 'document', 'notes']
 
 export default function LecturePage() {
   const params = useParams()
   const lectureId = params.id as string
+  const searchParams = useSearchParams()
   const supabase = createClient()
 
+  // ?t=754 links to a moment in the transcript; search results link with ?tab=&q=
+  const linkedTime = searchParams.get('t') !== null ? Number(searchParams.get('t')) || 0 : null
+  const linkedTab = TABS.find(tab => tab === searchParams.get('tab'))
+
   const [lecture, setLecture] = useState<Lecture | null>(null)
   const [summary, setSummary] = useState<LectureSummary | null>(null)
-  const [activeTab, setActiveTab] = useState<TabType>('summary')
+  const [segments, setSegments] = useState<TranscriptSegment[]>([])
+  const [slides, setSlides] = useState<LectureSlide[]>([])
+  const [selectedSlide, setSelectedSlide] = useState(1)
+  const [lectureDocument, setLectureDocument] = useState<LectureDocument | null>(null)
+  const [activeTab, setActiveTab] = useState<TabType>(linkedTab || (linkedTime !== null ? 'transcript' : 'summary'))
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [jobProgress, setJobProgress] = useState<{ stage: string | null; progress: number } | null>(null)
+  const [showReprocess, setShowReprocess] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  const [courseError, setCourseError] = useState<string | null>(null)
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const audioRef = useRef<HTMLAudioElement>(null)
 
-  useEffect(() => {
-    fetchLecture(true) // Initial load with loading state
-  }, [lectureId])
+  // Summary editing: the draft is non-null while editing
+  const [summaryDraft, setSummaryDraft] = useState<SummaryContent | null>(null)
+  const [savingSummary, setSavingSummary] = useState(false)
+  const [summaryError, setSummaryError] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
 
-  // Auto-refresh while processing
-  useEffect(() => {
-    if (lecture?.status === 'processing') {
-      const interval = setInterval(() => {
-        fetchLecture(false) // Background refresh without loading spinner
-      }, 5000) // Refresh every 5 seconds
+  // Personal notes, and the one being written or edited
+  const [userId, setUserId] = useState<string | null>(null)
+  const [notes, setNotes] = useState<LectureNote[]>([])
+  const [textSelection, setTextSelection] = useState<TranscriptSelection | null>(null)
+  const [noteComposer, setNoteComposer] = useState<{
+    label: string
+    quote: string
+    target?: NoteAnchor
+    note?: LectureNote
+  } | null>(null)
+  // Set when jumping from My Notes to a note's passage or concept
+  const [focusTime, setFocusTime] = useState<number | null>(null)
+  const [focusConcept, setFocusConcept] = useState<number | null>(null)
 
-      return () => clearInterval(interval)
-    }
-  }, [lecture?.status])
+  // Find in transcript
+  const [transcriptQuery, setTranscriptQuery] = useState(searchParams.get('q') || '')
+  const [searchOptions, setSearchOptions] = useState<TextSearchOptions>({ caseSensitive: false, wholeWord: false })
+  const [currentMatch, setCurrentMatch] = useState(0)
 
-  const fetchLecture = async (isInitialLoad = false) => {
+  const searchPattern = useMemo(
+    () => buildSearchPattern(transcriptQuery, searchOptions),
+    [transcriptQuery, searchOptions]
+  )
+  const segmentMatches = useMemo(
+    () => segments.map(segment => findMatches(segment.text, searchPattern)),
+    [segments, searchPattern]
+  )
+  const plainMatches = useMemo(
+    () => segments.length > 0 ? [] : findMatches(lecture?.transcript || '', searchPattern),
+    [segments, lecture?.transcript, searchPattern]
+  )
+  const matchCount = segments.length > 0
+    ? segmentMatches.reduce((total, matches) => total + matches.length, 0)
+    : plainMatches.length
+  const activeMatch = matchCount > 0 ? Math.min(currentMatch, matchCount - 1) : -1
+
+  // Keep the current match on screen
+  useEffect(() => {
+    if (activeMatch < 0) return
+    document.querySelector('[data-current-match="true"]')?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [activeMatch, searchPattern])
+
+  const fetchLecture = useCallback(async (isInitialLoad = false) => {
     try {
       if (isInitialLoad) {
         setLoading(true)
@@ -60,6 +156,35 @@ export default function LecturePage() {
       if (summaryData) {
         setSummary(summaryData)
       }
+
+      // Timed sentences only exist once processing has finished
+      if (lectureData.status === 'completed') {
+        const { data: segmentData } = await supabase
+          .from('transcript_segments')
+          .select('*')
+          .eq('lecture_id', lectureId)
+          .order('position', { ascending: true })
+
+        setSegments(segmentData || [])
+
+        if (lectureData.has_slides) {
+          const { data: slideData } = await supabase
+            .from('lecture_slides')
+            .select('*')
+            .eq('lecture_id', lectureId)
+            .order('slide_number', { ascending: true })
+
+          setSlides(slideData || [])
+        }
+
+        const { data: documentData } = await supabase
+          .from('lecture_documents')
+          .select('*')
+          .eq('lecture_id', lectureId)
+          .maybeSingle()
+
+        setLectureDocument(documentData)
+      }
     } catch (err) {
       console.error('Error fetching lecture:', err)
       if (isInitialLoad) {
@@ -70,6 +195,213 @@ export default function LecturePage() {
         setLoading(false)
       }
     }
+  }, [supabase, lectureId])
+
+  useEffect(() => {
+    fetchLecture(true) // Initial load with loading state
+  }, [fetchLecture])
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id || null))
+    loadLectureNotes(supabase, lectureId)
+      .then(setNotes)
+      .catch(err => console.error('[LectureLink] Failed to load notes:', err))
+  }, [supabase, lectureId])
+
+  // Find each note's passage or concept in the current transcript and summary
+  const transcriptIndex = useMemo(() => buildTranscriptIndex(segments), [segments])
+  const resolvedNotes = useMemo(
+    () => resolveNotes(notes, transcriptIndex, (summary?.key_concepts || []).map(getConceptName)),
+    [notes, transcriptIndex, summary?.key_concepts]
+  )
+  const notesBySegment = useMemo(() => {
+    const groups = new Map<number, LectureNote[]>()
+    for (const resolved of resolvedNotes) {
+      if (resolved.segmentIndex === undefined) continue
+      groups.set(resolved.segmentIndex, [...(groups.get(resolved.segmentIndex) || []), resolved.note])
+    }
+    return groups
+  }, [resolvedNotes])
+  const notesByConcept = useMemo(() => {
+    const groups = new Map<number, LectureNote[]>()
+    for (const resolved of resolvedNotes) {
+      if (resolved.conceptIndex === undefined) continue
+      groups.set(resolved.conceptIndex, [...(groups.get(resolved.conceptIndex) || []), resolved.note])
+    }
+    return groups
+  }, [resolvedNotes])
+
+  // Bring a concept jumped to from My Notes into view
+  useEffect(() => {
+    if (activeTab !== 'keypoints' || focusConcept === null) return
+    document.getElementById(`concept-${focusConcept}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [activeTab, focusConcept])
+
+  // Auto-refresh while processing
+  useEffect(() => {
+    if (lecture?.status === 'processing') {
+      const interval = setInterval(() => {
+        fetchLecture(false) // Background refresh without loading spinner
+      }, 5000) // Refresh every 5 seconds
+
+      return () => clearInterval(interval)
+    }
+  }, [lecture?.status, fetchLecture])
+
+  // Track the backend job directly, so progress survives a reload or a different device
+  useEffect(() => {
+    const jobId = lecture?.job_id
+    if (lecture?.status !== 'processing' || !jobId) return
+
+    let finalizeRequested = false
+    const finalize = async () => {
+      if (finalizeRequested) return
+      finalizeRequested = true
+      try {
+        await requestFinalize(jobId)
+      } catch (err) {
+        console.error('[LectureLink] Failed to finalize job:', err)
+      }
+      fetchLecture(false)
+    }
+
+    const pollJob = async () => {
+      try {
+        const status = await api.getJobStatus(jobId)
+        setJobProgress({ stage: status.stage || null, progress: status.progress })
+        recordJobProgress(supabase, lectureId, status)
+        if (status.status === 'completed' || status.status === 'failed') {
+          finalize()
+        }
+      } catch (err) {
+        // The job is gone if another tab already finalized it; otherwise
+        // the finalizer marks the lecture failed
+        if (err instanceof Error && err.message === 'Job not found') {
+          finalize()
+        }
+      }
+    }
+
+    pollJob()
+    const interval = setInterval(pollJob, 3000)
+    return () => clearInterval(interval)
+  }, [lecture?.status, lecture?.job_id, lectureId, supabase, fetchLecture])
+
+  const updateTranscriptSearch = (query: string, options: TextSearchOptions = searchOptions) => {
+    setTranscriptQuery(query)
+    setSearchOptions(options)
+    setCurrentMatch(0)
+  }
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matchCount === 0) return
+    setCurrentMatch((activeMatch + direction + matchCount) % matchCount)
+  }
+
+  const changeTab = (tab: TabType) => {
+    setActiveTab(tab)
+    setTextSelection(null)
+  }
+
+  // Slide chips on concepts and definitions jump to the Slides tab
+  const openSlide = (slideNumber: number) => {
+    if (!slides.some(slide => slide.slide_number === slideNumber)) return
+    setSelectedSlide(slideNumber)
+    changeTab('slides')
+  }
+
+  // Saves the summary and records a revision (edit or restore)
+  const saveSummary = async (content: SummaryContent, source: 'edit' | 'restore') => {
+    if (!summary) return
+    const updated = await saveSummaryRevision(supabase, summary, content, source)
+    setSummary(updated)
+  }
+
+  const saveSummaryDraft = async () => {
+    if (!summaryDraft) return
+    setSavingSummary(true)
+    setSummaryError(null)
+    try {
+      await saveSummary(summaryDraft, 'edit')
+      setSummaryDraft(null)
+    } catch (err) {
+      console.error('[LectureLink] Failed to save summary:', err)
+      setSummaryError('Your changes couldn\'t be saved. Please try again.')
+    } finally {
+      setSavingSummary(false)
+    }
+  }
+
+  // Start a note on the selected transcript text
+  const addTranscriptNote = () => {
+    if (!textSelection) return
+    const { text, starts } = transcriptIndex
+    let start = starts[textSelection.start.segmentIndex] + textSelection.start.offset
+    let end = starts[textSelection.end.segmentIndex] + textSelection.end.offset
+    while (start < end && /\s/.test(text[start])) start++
+    while (end > start && /\s/.test(text[end - 1])) end--
+
+    window.getSelection()?.removeAllRanges()
+    setTextSelection(null)
+    if (start >= end) return
+
+    const anchor = createTextAnchor(text, start, end)
+    setNoteComposer({
+      label: `Transcript at ${formatTimestamp(segments[textSelection.start.segmentIndex].start_time)}`,
+      quote: anchor.quote,
+      target: { anchor_type: 'transcript', anchor },
+    })
+  }
+
+  const saveNote = async (body: string) => {
+    if (!noteComposer) return
+    if (noteComposer.note) {
+      const updated = await updateLectureNote(supabase, noteComposer.note.id, body)
+      setNotes(prev => prev.map(note => note.id === updated.id ? updated : note))
+    } else if (noteComposer.target && userId) {
+      const created = await createLectureNote(supabase, userId, lectureId, noteComposer.target, body)
+      setNotes(prev => [...prev, created])
+    }
+  }
+
+  const removeNote = async ({ note }: ResolvedNote) => {
+    if (!window.confirm('Delete this note?')) return
+    try {
+      await deleteLectureNote(supabase, note.id)
+      setNotes(prev => prev.filter(item => item.id !== note.id))
+    } catch (err) {
+      console.error('[LectureLink] Failed to delete note:', err)
+    }
+  }
+
+  const jumpToNote = (resolved: ResolvedNote) => {
+    if (resolved.conceptIndex !== undefined) {
+      setFocusConcept(resolved.conceptIndex)
+      changeTab('keypoints')
+    } else if (resolved.segmentIndex !== undefined) {
+      setFocusTime(segments[resolved.segmentIndex].start_time)
+      changeTab('transcript')
+    }
+  }
+
+  // Play the lecture audio from a transcript position
+  const seekTo = (time: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = time
+    audio.play().catch(err => console.error('[LectureLink] Playback failed:', err))
+  }
+
+  const changeCourse = async (courseId: string | null) => {
+    if (!lecture) return
+    setCourseError(null)
+    try {
+      await setLectureCourse(supabase, lecture.id, courseId)
+      setLecture({ ...lecture, course_id: courseId })
+    } catch (err) {
+      console.error('[LectureLink] Failed to change course:', err)
+      setCourseError('The course couldn\'t be changed')
+    }
   }
 
   const formatDuration = (seconds: number | undefined): string => {
@@ -89,118 +421,10 @@ export default function LecturePage() {
     })
   }
 
-  // Normalize key concepts (handle both naming conventions)
-  const getConceptName = (concept: KeyConcept): string => {
-    return concept.name || concept.concept || concept.term || 'Untitled Concept'
-  }
-
-  const getConceptExplanation = (concept: KeyConcept): string => {
-    return concept.explanation || concept.definition || ''
-  }
-
-  // Generate PDF content and download
-  const downloadPDF = async () => {
-    if (!lecture || !summary) return
-
-    // Create HTML content for the PDF
-    const htmlContent = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <title>${lecture.title} - Lecture Summary</title>
-        <style>
-          body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 40px; line-height: 1.6; }
-          h1 { color: #1a1a1a; border-bottom: 2px solid #3b82f6; padding-bottom: 10px; }
-          h2 { color: #374151; margin-top: 30px; }
-          h3 { color: #4b5563; }
-          .meta { color: #6b7280; font-size: 14px; margin-bottom: 30px; }
-          .section { margin-bottom: 30px; padding: 20px; background: #f9fafb; border-radius: 8px; }
-          .concept { margin-bottom: 15px; padding-left: 15px; border-left: 3px solid #3b82f6; }
-          .definition { margin-bottom: 15px; padding-left: 15px; border-left: 3px solid #8b5cf6; }
-          .takeaway { margin-bottom: 10px; padding-left: 20px; position: relative; }
-          .takeaway::before { content: "\\2713"; position: absolute; left: 0; color: #22c55e; }
-          .importance { display: inline-block; padding: 2px 8px; border-radius: 12px; font-size: 12px; margin-left: 10px; }
-          .importance-high { background: #fee2e2; color: #dc2626; }
-          .importance-medium { background: #fef3c7; color: #d97706; }
-          .importance-low { background: #f3f4f6; color: #6b7280; }
-          .transcript { white-space: pre-wrap; background: #f9fafb; padding: 20px; border-radius: 8px; }
-          @media print { body { padding: 20px; } }
-        </style>
-      </head>
-      <body>
-        <h1>${lecture.title}</h1>
-        <div class="meta">
-          <p>Date: ${formatDate(lecture.created_at)}</p>
-          ${lecture.duration ? `<p>Duration: ${formatDuration(lecture.duration)}</p>` : ''}
-          ${lecture.has_slides ? '<p>Includes slide alignment</p>' : ''}
-        </div>
-
-        ${summary.summary ? `
-        <div class="section">
-          <h2>Overview</h2>
-          <p>${summary.summary}</p>
-        </div>
-        ` : ''}
-
-        ${summary.important_points && summary.important_points.length > 0 ? `
-        <div class="section">
-          <h2>Key Takeaways</h2>
-          ${summary.important_points.map(point => `<div class="takeaway">${point}</div>`).join('')}
-        </div>
-        ` : ''}
-
-        ${summary.key_concepts && summary.key_concepts.length > 0 ? `
-        <div class="section">
-          <h2>Key Concepts</h2>
-          ${summary.key_concepts.map(concept => `
-            <div class="concept">
-              <h3>${getConceptName(concept)}
-                ${concept.importance ? `<span class="importance importance-${concept.importance}">${concept.importance}</span>` : ''}
-              </h3>
-              <p>${getConceptExplanation(concept)}</p>
-            </div>
-          `).join('')}
-        </div>
-        ` : ''}
-
-        ${summary.definitions && summary.definitions.length > 0 ? `
-        <div class="section">
-          <h2>Definitions</h2>
-          ${summary.definitions.map(def => `
-            <div class="definition">
-              <h3>${def.term}</h3>
-              <p>${def.definition}</p>
-              ${def.context ? `<p><em>${def.context}</em></p>` : ''}
-            </div>
-          `).join('')}
-        </div>
-        ` : ''}
-
-        ${lecture.transcript ? `
-        <div class="section">
-          <h2>Full Transcript</h2>
-          <div class="transcript">${lecture.transcript}</div>
-        </div>
-        ` : ''}
-
-        <footer style="margin-top: 50px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #9ca3af; font-size: 12px;">
-          Generated by LectureLink on ${new Date().toLocaleDateString()}
-        </footer>
-      </body>
-      </html>
-    `
-
-    // Open in new window for printing/saving as PDF
-    const printWindow = window.open('', '_blank')
-    if (printWindow) {
-      printWindow.document.write(htmlContent)
-      printWindow.document.close()
-      // Slight delay to ensure content is loaded
-      setTimeout(() => {
-        printWindow.print()
-      }, 250)
-    }
+  // The main slide reference first, then any related slides
+  const getConceptSlides = (concept: KeyConcept): number[] => {
+    const numbers = [concept.slide_reference, ...(concept.related_slides || [])]
+    return numbers.filter((n, i): n is number => !!n && numbers.indexOf(n) === i)
   }
 
   if (loading) {
@@ -234,6 +458,12 @@ export default function LecturePage() {
   }
 
   const isProcessing = lecture.status === 'processing'
+  // Live status from the backend when available, otherwise the last saved one
+  const currentStage = jobProgress?.stage ?? lecture.job_stage ?? null
+  const currentProgress = jobProgress?.progress ?? lecture.job_progress ?? 0
+  const stageDisplay = lecture.job_id || currentStage
+    ? getStageDisplay(currentStage || undefined)
+    : { icon: '⬆️', label: 'Uploading audio...' }
 
   return (
     <div className="p-8 max-w-5xl mx-auto">
@@ -265,17 +495,73 @@ export default function LecturePage() {
                   <span className="text-green-600">📊 With Slides</span>
                 </>
               )}
+              {lecture.processing_options?.language && (
+                <>
+                  <span>•</span>
+                  <span title="Processing language">🌐 {getLanguageLabel(lecture.processing_options.language)}</span>
+                </>
+              )}
+              {summary?.estimated_study_time_minutes && (
+                <>
+                  <span>•</span>
+                  <span title="Estimated study time">📚 {formatStudyTime(summary.estimated_study_time_minutes)}</span>
+                </>
+              )}
+              {summary?.difficulty_level && DIFFICULTY_STYLES[summary.difficulty_level] && (
+                <span className={`text-xs font-medium px-2 py-1 rounded-full ${DIFFICULTY_STYLES[summary.difficulty_level].className}`}>
+                  {DIFFICULTY_STYLES[summary.difficulty_level].label}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-2 mt-3 text-sm text-gray-500">
+              <span>🎓</span>
+              <CourseSelect
+                value={lecture.course_id || null}
+                onChange={changeCourse}
+                className="px-2 py-1 border border-gray-200 rounded-lg text-sm text-gray-700 bg-white"
+              />
+              {lecture.course_id && (
+                <Link href={`/courses/${lecture.course_id}`} className="text-blue-600 hover:text-blue-700 font-medium">
+                  View course →
+                </Link>
+              )}
+              {courseError && <span className="text-red-600">{courseError}</span>}
+            </div>
+            <div className="mt-2 text-sm text-gray-500">
+              <LectureTagEditor
+                lectureId={lecture.id}
+                tags={lecture.tags || []}
+                onChange={(tags) => setLecture({ ...lecture, tags })}
+              />
             </div>
           </div>
 
           <div className="flex items-center gap-3">
-            {summary && (
+            {summary && (summary.key_concepts?.length > 0 || summary.definitions?.length > 0) && (
+              <Link
+                href={`/flashcards?lecture=${lecture.id}`}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition flex items-center gap-2 text-sm font-medium"
+              >
+                <span>🃏</span>
+                Flashcards
+              </Link>
+            )}
+            {lecture.status === 'completed' && (
+              <Link
+                href={`/lecture/${lecture.id}/quiz`}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition flex items-center gap-2 text-sm font-medium"
+              >
+                <span>📝</span>
+                Quiz
+              </Link>
+            )}
+            {(summary || lecture.transcript) && (
               <button
-                onClick={downloadPDF}
+                onClick={() => setShowExport(true)}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition flex items-center gap-2 text-sm font-medium"
               >
                 <span>📄</span>
-                Download PDF
+                Export
               </button>
             )}
             <span className={`px-3 py-1 rounded-full text-sm font-medium ${
@@ -306,6 +592,112 @@ export default function LecturePage() {
               </p>
             </div>
           </div>
+          <div className="mt-4">
+            <div className="flex items-center justify-between text-sm text-yellow-800 mb-2">
+              <span>{stageDisplay.icon} {stageDisplay.label}</span>
+              <span>{currentProgress}%</span>
+            </div>
+            <div className="w-full bg-yellow-100 rounded-full h-2 overflow-hidden">
+              <div
+                className="h-full rounded-full progress-bar transition-all duration-500"
+                style={{ width: `${currentProgress}%` }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Failed Banner */}
+      {lecture.status === 'failed' && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6 mb-8 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-semibold text-red-800">
+              Processing failed
+            </h3>
+            {lecture.failure_reason && (
+              <p className="text-sm text-red-700 mb-1">{lecture.failure_reason}</p>
+            )}
+            <p className="text-sm text-red-700">
+              {lecture.audio_path
+                ? 'You can process this lecture again from its original files, optionally with different settings.'
+                : `${lecture.files_error || 'The original audio wasn\'t saved'}, so it can't be processed again. Upload it as a new lecture instead.`}
+            </p>
+          </div>
+          <button
+            onClick={() => setShowReprocess(true)}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition text-sm font-medium flex-shrink-0"
+          >
+            🔄 Retry processing
+          </button>
+        </div>
+      )}
+
+      {showReprocess && (
+        <ReprocessDialog
+          lecture={lecture}
+          onClose={() => setShowReprocess(false)}
+          onStarted={() => {
+            setShowReprocess(false)
+            setJobProgress(null)
+            fetchLecture(false)
+          }}
+        />
+      )}
+
+      {showExport && (
+        <ExportDialog
+          lectureId={lecture.id}
+          available={getAvailableSections(lecture, summary, segments)}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {noteComposer && (
+        <NoteComposer
+          label={noteComposer.label}
+          quote={noteComposer.quote}
+          initialBody={noteComposer.note?.body}
+          onSave={saveNote}
+          onClose={() => setNoteComposer(null)}
+        />
+      )}
+
+      {/* Add Note button over a transcript selection */}
+      {textSelection && (
+        <button
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={addTranscriptNote}
+          style={{ top: textSelection.rect.top - 44, left: textSelection.rect.left + textSelection.rect.width / 2 }}
+          className="fixed z-40 -translate-x-1/2 px-3 py-1.5 bg-gray-900 text-white text-sm rounded-lg shadow-lg hover:bg-gray-800 transition"
+        >
+          🗒️ Add note
+        </button>
+      )}
+
+      {showHistory && summary && (
+        <SummaryHistory
+          lectureId={lecture.id}
+          current={getSummaryContent(summary)}
+          onRestore={(content) => saveSummary(content, 'restore')}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {/* Audio Player */}
+      {lecture.status === 'completed' && lecture.audio_path && (
+        <LectureAudioPlayer
+          audioPath={lecture.audio_path}
+          segments={segments}
+          audioRef={audioRef}
+          initialTime={linkedTime}
+          onTimeUpdate={setPlaybackTime}
+        />
+      )}
+      {lecture.status === 'completed' && !lecture.audio_path && lecture.files_error && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 mb-6">
+          <p className="text-sm text-yellow-800">
+            {lecture.files_error}, so the recording can&apos;t be played here and the lecture can&apos;t be reprocessed.
+          </p>
         </div>
       )}
 
@@ -313,7 +705,7 @@ export default function LecturePage() {
       <div className="border-b border-gray-200 mb-6">
         <nav className="flex gap-8">
           <button
-            onClick={() => setActiveTab('summary')}
+            onClick={() => changeTab('summary')}
             className={`pb-3 border-b-2 font-medium text-sm transition ${
               activeTab === 'summary'
                 ? 'border-blue-600 text-blue-600'
@@ -323,7 +715,7 @@ export default function LecturePage() {
             📋 Summary
           </button>
           <button
-            onClick={() => setActiveTab('keypoints')}
+            onClick={() => changeTab('keypoints')}
             className={`pb-3 border-b-2 font-medium text-sm transition ${
               activeTab === 'keypoints'
                 ? 'border-blue-600 text-blue-600'
@@ -333,7 +725,7 @@ export default function LecturePage() {
             💡 Key Points
           </button>
           <button
-            onClick={() => setActiveTab('transcript')}
+            onClick={() => changeTab('transcript')}
             className={`pb-3 border-b-2 font-medium text-sm transition ${
               activeTab === 'transcript'
                 ? 'border-blue-600 text-blue-600'
@@ -342,9 +734,90 @@ export default function LecturePage() {
           >
             📝 Transcript
           </button>
+          {slides.length > 0 && (
+            <button
+              onClick={() => changeTab('slides')}
+              className={`pb-3 border-b-2 font-medium text-sm transition ${
+                activeTab === 'slides'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              📊 Slides
+            </button>
+          )}
+          {lectureDocument && (
+            <button
+              onClick={() => changeTab('document')}
+              className={`pb-3 border-b-2 font-medium text-sm transition ${
+                activeTab === 'document'
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              📄 Document
+            </button>
+          )}
+          <button
+            onClick={() => changeTab('notes')}
+            className={`pb-3 border-b-2 font-medium text-sm transition ${
+              activeTab === 'notes'
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            🗒️ My Notes{notes.length > 0 && ` (${notes.length})`}
+          </button>
+          {summary && !summaryDraft && (activeTab === 'summary' || activeTab === 'keypoints') && (
+            <div className="ml-auto flex items-center gap-4 pb-3">
+              <button
+                onClick={() => setSummaryDraft(getSummaryContent(summary))}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                ✏️ Edit
+              </button>
+              <button
+                onClick={() => setShowHistory(true)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                🕘 History
+              </button>
+            </div>
+          )}
         </nav>
       </div>
 
+      {/* Summary Edit Bar */}
+      {summaryDraft && (activeTab === 'summary' || activeTab === 'keypoints') && (
+        <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 mb-6 flex items-center justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-blue-900">Editing summary</p>
+            <p className={`text-xs ${summaryError ? 'text-red-700' : 'text-blue-700'}`}>
+              {summaryError || 'Changes on both the Summary and Key Points tabs are saved together as a new version'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => {
+                setSummaryDraft(null)
+                setSummaryError(null)
+              }}
+              disabled={savingSummary}
+              className="px-4 py-2 text-sm bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={saveSummaryDraft}
+              disabled={savingSummary}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              {savingSummary ? 'Saving...' : 'Save changes'}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Summary Tab */}
       {activeTab === 'summary' && (
         <div className="space-y-8">
@@ -358,6 +831,8 @@ export default function LecturePage() {
                 The AI summary for this lecture hasn&apos;t been generated yet.
               </p>
             </div>
+          ) : summaryDraft ? (
+            <SummaryEditor section="summary" content={summaryDraft} onChange={setSummaryDraft} />
           ) : summary && (
             <>
               {/* Overview */}
@@ -441,6 +916,15 @@ export default function LecturePage() {
                 </section>
               )}
 
+              {/* Study Questions */}
+              {summary.study_questions && summary.study_questions.length > 0 && (
+                <StudyQuestions
+                  questions={summary.study_questions}
+                  concepts={summary.key_concepts || []}
+                  definitions={summary.definitions || []}
+                />
+              )}
+
               {/* Show placeholder if no content */}
               {!summary.summary && (!summary.important_points || summary.important_points.length === 0) && (
                 <div className="bg-gray-50 rounded-xl p-12 text-center">
@@ -471,6 +955,8 @@ export default function LecturePage() {
                 Key concepts and definitions haven&apos;t been extracted yet.
               </p>
             </div>
+          ) : summaryDraft ? (
+            <SummaryEditor section="keypoints" content={summaryDraft} onChange={setSummaryDraft} />
           ) : summary && (
             <>
               {/* Key Concepts */}
@@ -492,18 +978,38 @@ export default function LecturePage() {
                     {summary.key_concepts.map((concept: KeyConcept, index: number) => (
                       <div
                         key={index}
-                        className="border-l-4 border-blue-500 bg-blue-50 rounded-r-lg p-4"
+                        id={`concept-${index}`}
+                        className={`border-l-4 border-blue-500 bg-blue-50 rounded-r-lg p-4 ${
+                          focusConcept === index ? 'ring-2 ring-amber-300' : ''
+                        }`}
                       >
                         <div className="flex items-start justify-between">
                           <h3 className="font-semibold text-gray-900">
                             {getConceptName(concept)}
                           </h3>
                           <div className="flex items-center gap-2">
-                            {concept.slide_reference && (
-                              <span className="text-xs bg-blue-200 text-blue-800 px-2 py-1 rounded-full">
-                                Slide {concept.slide_reference}
-                              </span>
+                            {userId && (
+                              <button
+                                onClick={() => setNoteComposer({
+                                  label: 'Key concept',
+                                  quote: getConceptName(concept),
+                                  target: { anchor_type: 'concept', name: getConceptName(concept) },
+                                })}
+                                className="text-xs text-gray-500 hover:text-gray-700"
+                              >
+                                🗒️ Add note
+                              </button>
                             )}
+                            {getConceptSlides(concept).map(slideNumber => (
+                              <button
+                                key={slideNumber}
+                                onClick={() => openSlide(slideNumber)}
+                                disabled={slides.length === 0}
+                                className="text-xs bg-blue-200 text-blue-800 px-2 py-1 rounded-full hover:bg-blue-300 transition disabled:hover:bg-blue-200"
+                              >
+                                Slide {slideNumber}
+                              </button>
+                            ))}
                             {concept.importance && (
                               <span className={`text-xs px-2 py-1 rounded-full ${
                                 concept.importance === 'high'
@@ -530,6 +1036,12 @@ export default function LecturePage() {
                             </ul>
                           </div>
                         )}
+                        {notesByConcept.get(index)?.map(note => (
+                          <div key={note.id} className="mt-3 border-l-4 border-amber-300 bg-amber-50 rounded-r-lg px-3 py-2 text-sm">
+                            <p className="text-xs font-medium text-amber-700 mb-1">🗒️ My note</p>
+                            <p className="text-gray-800 whitespace-pre-wrap">{note.body}</p>
+                          </div>
+                        ))}
                       </div>
                     ))}
                   </div>
@@ -559,10 +1071,14 @@ export default function LecturePage() {
                       >
                         <div className="flex items-start justify-between">
                           <h3 className="font-semibold text-gray-900">{def.term}</h3>
-                          {def.slide_reference && (
-                            <span className="text-xs bg-purple-200 text-purple-800 px-2 py-1 rounded-full">
-                              Slide {def.slide_reference}
-                            </span>
+                          {(def.slide_reference || def.first_mentioned_slide) && (
+                            <button
+                              onClick={() => openSlide((def.slide_reference || def.first_mentioned_slide) as number)}
+                              disabled={slides.length === 0}
+                              className="text-xs bg-purple-200 text-purple-800 px-2 py-1 rounded-full hover:bg-purple-300 transition disabled:hover:bg-purple-200"
+                            >
+                              Slide {def.slide_reference || def.first_mentioned_slide}
+                            </button>
                           )}
                         </div>
                         <p className="text-gray-700 mt-1 text-sm">{def.definition}</p>
@@ -603,31 +1119,70 @@ export default function LecturePage() {
               </div>
               <div>
                 <h2 className="text-xl font-bold text-gray-900">Full Transcript</h2>
-                <p className="text-sm text-gray-500">Complete lecture transcription</p>
+                <p className="text-sm text-gray-500">
+                  {segments.length > 0
+                    ? 'Click a sentence to copy it, or a timestamp to copy a link to that moment'
+                    : 'Complete lecture transcription'}
+                </p>
               </div>
             </div>
-            {lecture.transcript && (
-              <button
-                onClick={() => {
-                  const blob = new Blob([lecture.transcript || ''], { type: 'text/plain' })
-                  const url = URL.createObjectURL(blob)
-                  const a = document.createElement('a')
-                  a.href = url
-                  a.download = `${lecture.title}-transcript.txt`
-                  a.click()
-                  URL.revokeObjectURL(url)
-                }}
-                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
-              >
-                Download TXT
-              </button>
-            )}
+            <div className="flex items-center gap-2">
+              {segments.length > 0 && (
+                <CaptionExportMenu title={lecture.title} segments={segments} />
+              )}
+              {lecture.transcript && (
+                <button
+                  onClick={() => {
+                    const blob = new Blob([lecture.transcript || ''], { type: 'text/plain' })
+                    const url = URL.createObjectURL(blob)
+                    const a = document.createElement('a')
+                    a.href = url
+                    a.download = `${lecture.title}-transcript.txt`
+                    a.click()
+                    URL.revokeObjectURL(url)
+                  }}
+                  className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+                >
+                  Download TXT
+                </button>
+              )}
+            </div>
           </div>
 
-          {lecture.transcript ? (
+          {(segments.length > 0 || lecture.transcript) && (
+            <TranscriptSearchBar
+              query={transcriptQuery}
+              onQueryChange={(query) => updateTranscriptSearch(query)}
+              options={searchOptions}
+              onOptionsChange={(options) => updateTranscriptSearch(transcriptQuery, options)}
+              matchCount={matchCount}
+              currentMatch={activeMatch}
+              onNext={() => stepMatch(1)}
+              onPrevious={() => stepMatch(-1)}
+            />
+          )}
+
+          {segments.length > 0 ? (
+            <TranscriptView
+              lectureId={lecture.id}
+              segments={segments}
+              initialTime={focusTime ?? linkedTime}
+              activeTime={playbackTime}
+              onSeek={lecture.audio_path ? seekTo : undefined}
+              onOpenSlide={slides.length > 0 ? openSlide : undefined}
+              matches={segmentMatches}
+              currentMatch={activeMatch}
+              notes={notesBySegment}
+              onSelectText={userId ? setTextSelection : undefined}
+            />
+          ) : lecture.transcript ? (
             <div className="bg-gray-50 rounded-lg p-6 max-h-[600px] overflow-y-auto">
               <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
-                {lecture.transcript}
+                <HighlightedText
+                  text={lecture.transcript}
+                  matches={plainMatches}
+                  currentMatch={activeMatch}
+                />
               </p>
             </div>
           ) : (
@@ -645,6 +1200,37 @@ export default function LecturePage() {
           )}
         </div>
       )}
+
+      {/* Document Tab */}
+      {activeTab === 'document' && lectureDocument && (
+        <MasterDocumentView lectureDocument={lectureDocument} title={lecture.title} />
+      )}
+
+      {/* My Notes Tab */}
+      {activeTab === 'notes' && (
+        <NotesPanel
+          notes={resolvedNotes}
+          segments={segments}
+          onJump={jumpToNote}
+          onEdit={({ note }) => setNoteComposer({
+            label: note.anchor_type === 'concept' ? 'Key concept' : 'Transcript',
+            quote: note.quote,
+            note,
+          })}
+          onDelete={removeNote}
+        />
+      )}
+
+      {/* Slides Tab */}
+      {activeTab === 'slides' && slides.length > 0 && (
+        <SlidesView
+          slides={slides}
+          segments={segments}
+          selectedSlide={selectedSlide}
+          onSelectSlide={setSelectedSlide}
+          onSeek={lecture.audio_path ? seekTo : undefined}
+        />
+      )}
     </div>
   )
 }
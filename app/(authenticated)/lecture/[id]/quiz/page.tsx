@@ -0,0 +1,316 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase'
+import type { QuizQuestionType } from '@/lib/api'
+import {
+  acceptQuizAnswer,
+  createQuiz,
+  DEFAULT_QUIZ_OPTIONS,
+  getScorePercent,
+  gradeQuiz,
+  QUIZ_LENGTHS,
+  saveQuizAttempt,
+} from '@/lib/quiz'
+import QuizRunner from '@/components/QuizRunner'
+import QuizResults from '@/components/QuizResults'
+import QuizScoreTrend from '@/components/QuizScoreTrend'
+import type { Lecture, Quiz, QuizAnswer, QuizAttempt } from '@/lib/types'
+
+const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  multiple_choice: 'Multiple choice',
+  short_answer: 'Short answer',
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export default function LectureQuizPage() {
+  const params = useParams()
+  const lectureId = params.id as string
+  const supabase = createClient()
+
+  const [userId, setUserId] = useState<string | null>(null)
+  const [lecture, setLecture] = useState<Pick<Lecture, 'id' | 'title' | 'status'> | null>(null)
+  const [hasDocument, setHasDocument] = useState(false)
+  const [quizzes, setQuizzes] = useState<Quiz[]>([])
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // New quiz options
+  const [numQuestions, setNumQuestions] = useState(DEFAULT_QUIZ_OPTIONS.num_questions)
+  const [questionTypes, setQuestionTypes] = useState<QuizQuestionType[]>(DEFAULT_QUIZ_OPTIONS.question_types)
+  const [generating, setGenerating] = useState(false)
+
+  // The quiz being taken, and the attempt once submitted
+  const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null)
+  const [result, setResult] = useState<QuizAttempt | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const { data: { user } } = await supabase.auth.getUser()
+        setUserId(user?.id || null)
+
+        const [lectureResult, documentResult, quizzesResult, attemptsResult] = await Promise.all([
+          supabase.from('lectures').select('id, title, status').eq('id', lectureId).single(),
+          supabase.from('lecture_documents').select('id').eq('lecture_id', lectureId).maybeSingle(),
+          supabase.from('quizzes').select('*').eq('lecture_id', lectureId).order('created_at', { ascending: false }),
+          supabase.from('quiz_attempts').select('*').eq('lecture_id', lectureId).order('created_at', { ascending: true }),
+        ])
+
+        if (lectureResult.error) throw lectureResult.error
+        setLecture(lectureResult.data)
+        setHasDocument(!!documentResult.data)
+        setQuizzes(quizzesResult.data || [])
+        setAttempts(attemptsResult.data || [])
+      } catch (err) {
+        console.error('[LectureLink] Failed to load quizzes:', err)
+        setError('Failed to load lecture')
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+  }, [supabase, lectureId])
+
+  const startNewQuiz = async () => {
+    if (!lecture || !userId) return
+    setGenerating(true)
+    setError(null)
+
+    try {
+      const quiz = await createQuiz(supabase, userId, lecture, {
+        num_questions: numQuestions,
+        question_types: questionTypes,
+      })
+      setQuizzes(prev => [quiz, ...prev])
+      setResult(null)
+      setActiveQuiz(quiz)
+    } catch (err) {
+      console.error('[LectureLink] Failed to generate quiz:', err)
+      setError('The quiz couldn\'t be generated. Please try again.')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const retake = (quiz: Quiz) => {
+    setResult(null)
+    setActiveQuiz(quiz)
+  }
+
+  const submit = async (responses: Array<QuizAnswer['answer']>) => {
+    if (!activeQuiz || !userId) return
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const attempt = await saveQuizAttempt(supabase, userId, activeQuiz, gradeQuiz(activeQuiz, responses))
+      setAttempts(prev => [...prev, attempt])
+      setResult(attempt)
+    } catch (err) {
+      console.error('[LectureLink] Failed to save quiz attempt:', err)
+      setError('Your answers couldn\'t be saved. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const accept = async (questionIndex: number) => {
+    if (!result) return
+    try {
+      const updated = await acceptQuizAnswer(supabase, result, questionIndex)
+      setResult(updated)
+      setAttempts(prev => prev.map(attempt => attempt.id === updated.id ? updated : attempt))
+    } catch (err) {
+      console.error('[LectureLink] Failed to update quiz attempt:', err)
+      setError('The answer couldn\'t be updated. Please try again.')
+    }
+  }
+
+  const toggleQuestionType = (type: QuizQuestionType) => {
+    setQuestionTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type])
+  }
+
+  if (loading) {
+    return (
+      <div className="p-8 max-w-4xl mx-auto">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-4"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/4 mb-8"></div>
+          <div className="h-64 bg-gray-200 rounded-xl"></div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!lecture) {
+    return (
+      <div className="p-8 max-w-4xl mx-auto">
+        <div className="bg-red-50 border border-red-200 rounded-xl p-6 text-center">
+          <p className="text-red-700">{error || 'Lecture not found'}</p>
+          <Link href="/dashboard" className="text-blue-600 hover:underline mt-4 inline-block">
+            Back to Dashboard
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href={`/lecture/${lecture.id}`}
+          className="text-sm text-gray-500 hover:text-gray-700 mb-4 inline-flex items-center gap-1"
+        >
+          ← Back to Lecture
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          📝 Quiz
+        </h1>
+        <p className="text-gray-600">{lecture.title}</p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+          {error}
+        </div>
+      )}
+
+      {activeQuiz ? (
+        <div className="space-y-6">
+          {result ? (
+            <>
+              <QuizResults quiz={activeQuiz} attempt={result} onAccept={accept} />
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => retake(activeQuiz)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition"
+                >
+                  Retake quiz
+                </button>
+                <button
+                  onClick={() => setActiveQuiz(null)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+                >
+                  Done
+                </button>
+              </div>
+            </>
+          ) : (
+            // Keyed so a retake starts with empty answers
+            <QuizRunner
+              key={`${activeQuiz.id}-${attempts.length}`}
+              quiz={activeQuiz}
+              submitting={submitting}
+              onSubmit={submit}
+              onCancel={() => setActiveQuiz(null)}
+            />
+          )}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* New Quiz */}
+          <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">New quiz</h2>
+            {lecture.status !== 'completed' || !hasDocument ? (
+              <p className="text-sm text-gray-500">
+                {lecture.status !== 'completed'
+                  ? 'Quizzes can be generated once the lecture has finished processing.'
+                  : 'This lecture was processed before quizzes were available. Reprocess it to generate quizzes.'}
+              </p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-500 mb-4">
+                  Questions are generated from the lecture&apos;s transcript and slides
+                </p>
+                <div className="flex flex-wrap items-center gap-6 mb-6">
+                  <label className="flex items-center gap-2 text-sm text-gray-700">
+                    Questions
+                    <select
+                      value={numQuestions}
+                      onChange={(e) => setNumQuestions(Number(e.target.value))}
+                      className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      {QUIZ_LENGTHS.map(length => (
+                        <option key={length} value={length}>{length}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[]).map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={questionTypes.includes(type)}
+                        onChange={() => toggleQuestionType(type)}
+                        className="w-4 h-4 rounded border-gray-300"
+                      />
+                      {QUESTION_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={startNewQuiz}
+                  disabled={generating || questionTypes.length === 0}
+                  className="px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition disabled:opacity-50"
+                >
+                  {generating ? 'Generating questions...' : 'Generate quiz'}
+                </button>
+              </>
+            )}
+          </section>
+
+          <QuizScoreTrend attempts={attempts} />
+
+          {/* Previous Quizzes */}
+          {quizzes.length > 0 && (
+            <section className="bg-white rounded-xl border border-gray-200 shadow-sm">
+              <h2 className="text-lg font-semibold text-gray-900 p-6 border-b border-gray-200">
+                Previous quizzes
+              </h2>
+              <div className="divide-y divide-gray-100">
+                {quizzes.map(quiz => {
+                  const quizAttempts = attempts.filter(attempt => attempt.quiz_id === quiz.id)
+                  const best = quizAttempts.length > 0 ? Math.max(...quizAttempts.map(getScorePercent)) : null
+
+                  return (
+                    <div key={quiz.id} className="flex items-center gap-4 p-4">
+                      <div className="flex-1">
+                        <p className="font-medium text-gray-900">
+                          {quiz.questions.length} questions
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {formatDate(quiz.created_at)} • {quizAttempts.length} attempt{quizAttempts.length === 1 ? '' : 's'}
+                          {best !== null && ` • best ${best}%`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => retake(quiz)}
+                        className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+                      >
+                        {quizAttempts.length > 0 ? 'Retake' : 'Start'}
+                      </button>
+                    </div>
+                  )
+                })}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
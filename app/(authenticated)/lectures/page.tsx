@@ -0,0 +1,231 @@
+import Link from 'next/link'
+import { redirect } from 'next/navigation'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getCourseLabel, loadCourses } from '@/lib/courses'
+import {
+  DURATION_FILTERS,
+  getLibraryHref,
+  hasLibraryFilters,
+  LIBRARY_PAGE_SIZE,
+  LIBRARY_SORTS,
+  LIBRARY_STATUSES,
+  loadLibraryPage,
+  parseLibraryQuery,
+  type LibraryPage,
+} from '@/lib/library'
+import { loadTags } from '@/lib/tags'
+import LectureLibraryList from '@/components/LectureLibraryList'
+import type { Course } from '@/lib/types'
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition'
+
+export default async function LecturesPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}) {
+  const query = parseLibraryQuery(await searchParams)
+  const supabase = await createServerSupabaseClient()
+
+  let library: LibraryPage = { lectures: [], total: 0, outOfRange: false }
+  let libraryError: string | null = null
+  try {
+    library = await loadLibraryPage(supabase, query)
+  } catch (err) {
+    console.error('[LectureLink] Failed to load lectures:', err)
+    libraryError = 'Lectures failed to load. Please try again.'
+  }
+  if (library.outOfRange) redirect(getLibraryHref(query, { page: 1 }))
+
+  const [courses, tags] = await Promise.all([
+    loadCourses(supabase).catch(err => {
+      console.error('[LectureLink] Failed to load courses:', err)
+      return [] as Course[]
+    }),
+    loadTags(supabase).catch(err => {
+      console.error('[LectureLink] Failed to load tags:', err)
+      return [] as string[]
+    }),
+  ])
+
+  const pageCount = Math.max(1, Math.ceil(library.total / LIBRARY_PAGE_SIZE))
+  const firstShown = (query.page - 1) * LIBRARY_PAGE_SIZE + 1
+  const lastShown = firstShown + library.lectures.length - 1
+  const filtered = hasLibraryFilters(query)
+
+  return (
+    <div className="p-8 max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="mb-8 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Lectures
+          </h1>
+          <p className="text-gray-600">
+            Every lecture you&apos;ve uploaded, with filters, tags and bulk actions
+          </p>
+        </div>
+        <Link
+          href="/record"
+          className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition text-sm flex-shrink-0"
+        >
+          <span>📤</span>
+          Upload Lecture
+        </Link>
+      </div>
+
+      {/* Filters */}
+      <form action="/lectures" className="bg-white rounded-xl border border-gray-200 p-4 shadow-sm mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="text-xs font-medium text-gray-500">
+            Status
+            <select name="status" defaultValue={query.status || ''} className={`mt-1 ${selectClassName}`}>
+              <option value="">Any status</option>
+              {LIBRARY_STATUSES.map(status => (
+                <option key={status.id} value={status.id}>{status.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Course
+            <select name="course" defaultValue={query.course || ''} className={`mt-1 ${selectClassName}`}>
+              <option value="">Any course</option>
+              <option value="none">No course</option>
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{getCourseLabel(course)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Tag
+            <select name="tag" defaultValue={query.tag || ''} className={`mt-1 ${selectClassName}`}>
+              <option value="">Any tag</option>
+              {/* Keep a tag from a link even if no lecture has it any more */}
+              {query.tag && !tags.includes(query.tag) && (
+                <option value={query.tag}>{query.tag}</option>
+              )}
+              {tags.map(tag => (
+                <option key={tag} value={tag}>{tag}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Slides
+            <select name="slides" defaultValue={query.slides || ''} className={`mt-1 ${selectClassName}`}>
+              <option value="">With or without</option>
+              <option value="yes">With slides</option>
+              <option value="no">Without slides</option>
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Duration
+            <select name="duration" defaultValue={query.duration || ''} className={`mt-1 ${selectClassName}`}>
+              <option value="">Any length</option>
+              {Object.entries(DURATION_FILTERS).map(([id, filter]) => (
+                <option key={id} value={id}>{filter.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Recorded from
+            <input type="date" name="from" defaultValue={query.from || ''} className={`mt-1 ${selectClassName}`} />
+          </label>
+          <label className="text-xs font-medium text-gray-500">
+            Recorded to
+            <input type="date" name="to" defaultValue={query.to || ''} className={`mt-1 ${selectClassName}`} />
+          </label>
+          <div className="flex gap-2">
+            <label className="flex-1 text-xs font-medium text-gray-500">
+              Sort by
+              <select name="sort" defaultValue={query.sort} className={`mt-1 ${selectClassName}`}>
+                {Object.entries(LIBRARY_SORTS).map(([id, sort]) => (
+                  <option key={id} value={id}>{sort.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-500">
+              Order
+              <select name="dir" defaultValue={query.dir} className={`mt-1 ${selectClassName}`}>
+                <option value="asc">↑</option>
+                <option value="desc">↓</option>
+              </select>
+            </label>
+          </div>
+        </div>
+        <div className="flex items-center justify-end gap-3 mt-4">
+          {filtered && (
+            <Link
+              href={getLibraryHref(query, { status: null, from: null, to: null, slides: null, duration: null, tag: null, course: null, page: 1 })}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Clear filters
+            </Link>
+          )}
+          <button
+            type="submit"
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition"
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+
+      {libraryError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+          <p className="text-sm text-red-700">{libraryError}</p>
+        </div>
+      )}
+
+      {/* Lectures */}
+      {!libraryError && (
+        library.total === 0 ? (
+          <div className="bg-gray-50 rounded-xl p-12 text-center">
+            <div className="text-4xl mb-4">{filtered ? '🔍' : '📭'}</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              {filtered ? 'No lectures match these filters' : 'No lectures yet'}
+            </h3>
+            <p className="text-gray-500">
+              {filtered ? 'Try removing a filter or widening the date range' : 'Upload your first lecture to get started'}
+            </p>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 mb-3">
+              Showing {firstShown}-{lastShown} of {library.total} lecture{library.total === 1 ? '' : 's'}
+            </p>
+            <LectureLibraryList
+              key={getLibraryHref(query)}
+              lectures={library.lectures}
+              courses={courses}
+            />
+
+            {/* Pagination */}
+            {pageCount > 1 && (
+              <nav className="flex items-center justify-between mt-6">
+                {query.page > 1 ? (
+                  <Link
+                    href={getLibraryHref(query, { page: query.page - 1 })}
+                    className="px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition"
+                  >
+                    ← Previous
+                  </Link>
+                ) : <span />}
+                <span className="text-sm text-gray-500">
+                  Page {query.page} of {pageCount}
+                </span>
+                {query.page < pageCount ? (
+                  <Link
+                    href={getLibraryHref(query, { page: query.page + 1 })}
+                    className="px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 hover:bg-gray-50 transition"
+                  >
+                    Next →
+                  </Link>
+                ) : <span />}
+              </nav>
+            )}
+          </>
+        )
+      )}
+    </div>
+  )
+}
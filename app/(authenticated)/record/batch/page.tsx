@@ -0,0 +1,328 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase'
+import { DEFAULT_PROCESSING_OPTIONS, type ProcessingOptions } from '@/lib/api'
+import {
+  formatFileSize,
+  formatMinutes,
+  getAudioDuration,
+  getBaseName,
+  isAudioFile,
+  isSlidesFile,
+  titleFromFileName,
+  validateAudioFile,
+  validateSlidesFile,
+} from '@/lib/files'
+import { loadProcessingDefaults, saveProcessingDefaults } from '@/lib/lecture-jobs'
+import { checkQuota, getRemainingSeconds, loadRecordingUsage, UNMEASURABLE_AUDIO_MESSAGE, type RecordingUsage } from '@/lib/quota'
+import ProcessingOptionsPanel from '@/components/ProcessingOptionsPanel'
+import UploadQueueList from '@/components/UploadQueueList'
+import { useUploadQueue } from '@/components/UploadQueueProvider'
+
+interface DraftLecture {
+  id: string
+  title: string
+  audioFile: File
+  slidesFile: File | null
+  // Undefined while measuring, null if the browser can't read it
+  durationSeconds?: number | null
+}
+
+export default function BatchRecordPage() {
+  const supabase = createClient()
+  const { items: queueItems, enqueue } = useUploadQueue()
+
+  const [drafts, setDrafts] = useState<DraftLecture[]>([])
+  const [unpairedSlides, setUnpairedSlides] = useState<File[]>([])
+  const [processingOptions, setProcessingOptions] = useState<Required<ProcessingOptions>>(DEFAULT_PROCESSING_OPTIONS)
+  const [isDragging, setIsDragging] = useState(false)
+  const [errors, setErrors] = useState<string[]>([])
+  const [usage, setUsage] = useState<RecordingUsage | null>(null)
+
+  // Load the user's saved processing defaults
+  useEffect(() => {
+    loadProcessingDefaults(supabase)
+      .then(setProcessingOptions)
+      .catch(err => console.error('[LectureLink] Failed to load processing defaults:', err))
+  }, [supabase])
+
+  // Reload usage whenever a queued lecture finishes or fails
+  const finishedCount = queueItems.filter(item => item.status === 'completed' || item.status === 'failed').length
+  useEffect(() => {
+    loadRecordingUsage(supabase)
+      .then(setUsage)
+      .catch(err => console.error('[LectureLink] Failed to load recording usage:', err))
+  }, [supabase, finishedCount])
+
+  // Sort dropped files into lectures, pairing slides by matching file name
+  const addFiles = (files: File[]) => {
+    const rejected: string[] = []
+    const audio: File[] = []
+    const slides: File[] = [...unpairedSlides]
+
+    for (const file of files) {
+      if (isAudioFile(file)) {
+        const validationError = validateAudioFile(file)
+        if (validationError) rejected.push(`${file.name}: ${validationError}`)
+        else audio.push(file)
+      } else if (isSlidesFile(file)) {
+        const validationError = validateSlidesFile(file)
+        if (validationError) rejected.push(`${file.name}: ${validationError}`)
+        else slides.push(file)
+      } else {
+        rejected.push(`${file.name}: not an audio or slides file`)
+      }
+    }
+
+    const takeMatchingSlides = (audioFile: File) => {
+      const baseName = getBaseName(audioFile.name).toLowerCase()
+      const index = slides.findIndex(s => getBaseName(s.name).toLowerCase() === baseName)
+      return index >= 0 ? slides.splice(index, 1)[0] : null
+    }
+
+    // Existing drafts without slides get first pick of new slide files
+    const updatedDrafts = drafts.map(draft =>
+      draft.slidesFile ? draft : { ...draft, slidesFile: takeMatchingSlides(draft.audioFile) }
+    )
+    const newDrafts = audio.map(audioFile => ({
+      id: crypto.randomUUID(),
+      title: titleFromFileName(audioFile.name),
+      audioFile,
+      slidesFile: takeMatchingSlides(audioFile),
+    }))
+
+    setDrafts([...updatedDrafts, ...newDrafts])
+    setUnpairedSlides(slides)
+    setErrors(rejected)
+
+    // Measure durations for the quota check
+    newDrafts.forEach(draft => {
+      getAudioDuration(draft.audioFile).then(durationSeconds => updateDraft(draft.id, { durationSeconds }))
+    })
+  }
+
+  const updateDraft = (id: string, patch: Partial<DraftLecture>) => {
+    setDrafts(prev => prev.map(draft => draft.id === id ? { ...draft, ...patch } : draft))
+  }
+
+  const removeDraft = (id: string) => {
+    const draft = drafts.find(d => d.id === id)
+    if (draft?.slidesFile) {
+      setUnpairedSlides(prev => [...prev, draft.slidesFile as File])
+    }
+    setDrafts(prev => prev.filter(d => d.id !== id))
+  }
+
+  // Move a slides file between a lecture and the unpaired pile
+  const assignSlides = (id: string, slidesName: string) => {
+    const draft = drafts.find(d => d.id === id)
+    if (!draft) return
+
+    const pool = draft.slidesFile ? [...unpairedSlides, draft.slidesFile] : [...unpairedSlides]
+    const selected = pool.find(file => file.name === slidesName) || null
+    setUnpairedSlides(pool.filter(file => file !== selected))
+    updateDraft(id, { slidesFile: selected })
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    addFiles(Array.from(e.dataTransfer.files))
+  }
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []))
+    e.target.value = ''
+  }
+
+  // Queued lectures aren't counted by the server until their row is created
+  const pendingSeconds = queueItems
+    .filter(item => item.status === 'queued')
+    .reduce((total, item) => total + (item.durationSeconds || 0), 0)
+  const batchSeconds = drafts.reduce((total, draft) => total + (draft.durationSeconds || 0), 0)
+  const quotaError = checkQuota(usage, pendingSeconds + batchSeconds)
+  const measuring = drafts.some(draft => draft.durationSeconds === undefined)
+  const unmeasurable = drafts.filter(draft => draft.durationSeconds === null)
+
+  const canQueue = drafts.length > 0 && drafts.every(draft => draft.title.trim()) && !measuring && unmeasurable.length === 0 && !quotaError
+
+  const handleQueue = () => {
+    if (!canQueue) return
+
+    enqueue(drafts.map(draft => ({
+      title: draft.title.trim(),
+      audioFile: draft.audioFile,
+      slidesFile: draft.slidesFile || undefined,
+      options: processingOptions,
+      durationSeconds: draft.durationSeconds as number,
+    })))
+    setDrafts([])
+    setUnpairedSlides([])
+    setErrors([])
+  }
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <Link
+          href="/record"
+          className="text-sm text-gray-500 hover:text-gray-700 mb-4 inline-flex items-center gap-1"
+        >
+          ← Single Lecture
+        </Link>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          Batch Upload
+        </h1>
+        <p className="text-gray-600">
+          Drop a week&apos;s worth of recordings at once. Slides are paired with audio by file name.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 mb-8">
+        {/* Drop Zone */}
+        <label
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true) }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center w-full h-40 border-2 border-dashed rounded-xl cursor-pointer transition mb-6 ${
+            isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300 hover:border-blue-400 hover:bg-blue-50/50'
+          }`}
+        >
+          <span className="text-3xl mb-2">📥</span>
+          <p className="text-sm font-medium text-gray-600">
+            Drop audio and slide files, or click to choose
+          </p>
+          <p className="text-xs text-gray-400 mt-1">
+            e.g. week3-lecture.m4a + week3-lecture.pdf
+          </p>
+          <input
+            type="file"
+            multiple
+            className="hidden"
+            accept=".mp3,.wav,.webm,.m4a,.mp4,.flac,audio/*,.pdf,.pptx"
+            onChange={handleSelect}
+          />
+        </label>
+
+        {errors.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6 space-y-1">
+            {errors.map((message, index) => (
+              <p key={index} className="text-sm text-red-700">{message}</p>
+            ))}
+          </div>
+        )}
+
+        {/* Draft Lectures */}
+        {drafts.length > 0 && (
+          <div className="space-y-3 mb-6">
+            {drafts.map(draft => {
+              const slideChoices = draft.slidesFile ? [draft.slidesFile, ...unpairedSlides] : unpairedSlides
+
+              return (
+                <div key={draft.id} className="border border-gray-200 rounded-xl p-4">
+                  <div className="flex items-center gap-3 mb-3">
+                    <input
+                      type="text"
+                      value={draft.title}
+                      onChange={(e) => updateDraft(draft.id, { title: e.target.value })}
+                      placeholder="Lecture name"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <button
+                      onClick={() => removeDraft(draft.id)}
+                      className="text-gray-400 hover:text-red-500 transition p-1"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  <div className="grid md:grid-cols-2 gap-3 text-sm">
+                    <div className="flex items-center gap-2 text-gray-600 min-w-0">
+                      <span>🎵</span>
+                      <span className="truncate">{draft.audioFile.name}</span>
+                      <span className="text-xs text-gray-400 flex-shrink-0">
+                        {formatFileSize(draft.audioFile.size)}
+                        {!!draft.durationSeconds && ` · ${formatMinutes(draft.durationSeconds)}`}
+                        {draft.durationSeconds === undefined && ' · measuring...'}
+                      </span>
+                      {draft.durationSeconds === null && (
+                        <span className="text-xs text-red-600 flex-shrink-0">Length unreadable</span>
+                      )}
+                    </div>
+                    <select
+                      value={draft.slidesFile?.name || ''}
+                      onChange={(e) => assignSlides(draft.id, e.target.value)}
+                      className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">No slides</option>
+                      {slideChoices.map(file => (
+                        <option key={file.name} value={file.name}>📊 {file.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        {unpairedSlides.length > 0 && (
+          <p className="text-xs text-gray-500 mb-6">
+            {unpairedSlides.length} slide file{unpairedSlides.length === 1 ? '' : 's'} not matched to any audio -
+            pick them from the slides menu of a lecture above.
+          </p>
+        )}
+
+        {/* Options shared by every lecture in the batch */}
+        <div className="mb-6">
+          <ProcessingOptionsPanel
+            value={processingOptions}
+            onChange={setProcessingOptions}
+            onSaveDefaults={() => saveProcessingDefaults(supabase, processingOptions)}
+            hasSlides={drafts.some(draft => draft.slidesFile)}
+          />
+        </div>
+
+        {/* Quota */}
+        {unmeasurable.length > 0 ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-red-700">
+              {unmeasurable.length > 1 ? `${unmeasurable.length} files: ` : ''}{UNMEASURABLE_AUDIO_MESSAGE} Remove {unmeasurable.length > 1 ? 'them' : 'it'} to queue the rest.
+            </p>
+          </div>
+        ) : quotaError ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-sm font-semibold text-red-800 mb-1">Monthly recording quota exceeded</p>
+            <p className="text-sm text-red-700">
+              {drafts.length > 1 ? 'Together these lectures are too long. ' : ''}{quotaError}
+            </p>
+          </div>
+        ) : usage && (
+          <p className="text-xs text-gray-500 mb-4">
+            {batchSeconds > 0 && `This batch: ${formatMinutes(batchSeconds)} · `}
+            {usage.limit_minutes === null
+              ? `${formatMinutes(usage.used_seconds)} recorded this month · no monthly limit`
+              : `${formatMinutes(getRemainingSeconds(usage) ?? 0)} of ${usage.limit_minutes} min left this month`}
+          </p>
+        )}
+
+        <button
+          onClick={handleQueue}
+          disabled={!canQueue}
+          className="w-full py-4 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          <span>🚀</span>
+          {drafts.length > 1 ? `Queue ${drafts.length} Lectures` : 'Queue Lecture'}
+        </button>
+      </div>
+
+      <UploadQueueList />
+
+      <p className="text-xs text-gray-400 mt-4">
+        The queue keeps running while you browse other pages, but reloading or closing the tab cancels uploads that haven&apos;t finished.
+      </p>
+    </div>
+  )
+}
@@ -1,10 +1,23 @@
 'use client'
 
-import { useState, useRef, useCallback } from 'react'
+import { useState, useRef, useCallback, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase'
-import { api, getStageDisplay, type JobStatus } from '@/lib/api'
+import { api, getStageDisplay, DEFAULT_PROCESSING_OPTIONS, type JobStatus, type ProcessingOptions } from '@/lib/api'
+import { formatFileSize, formatMinutes, getAudioDuration, validateAudioFile, validateSlidesFile } from '@/lib/files'
+import {
+  loadProcessingDefaults,
+  recordJobProgress,
+  requestFinalize,
+  saveProcessingDefaults,
+  startLectureProcessing,
+} from '@/lib/lecture-jobs'
+import { checkQuota, getRemainingSeconds, loadRecordingUsage, UNMEASURABLE_AUDIO_MESSAGE, type RecordingUsage } from '@/lib/quota'
+import { recordingStore } from '@/lib/recording-store'
+import LectureRecorder from '@/components/LectureRecorder'
+import ProcessingOptionsPanel from '@/components/ProcessingOptionsPanel'
+import CourseSelect from '@/components/CourseSelect'
 
 interface UploadedFile {
   file: File
@@ -15,26 +28,36 @@ interface UploadedFile {
 type ProcessingStage = 
   | 'idle'
   | 'uploading'
+  // Saving the originals to Storage; the job is already running
+  | 'storing'
   | 'processing'
   | 'summary'
-  | 'saving'
   | 'complete'
   | 'error'
 
+type AudioSource = 'upload' | 'record'
+
 export default function RecordPage() {
   const router = useRouter()
   const supabase = createClient()
   
   // Form state
   const [lectureName, setLectureName] = useState('')
+  const [courseId, setCourseId] = useState<string | null>(null)
+  const [audioSource, setAudioSource] = useState<AudioSource>('upload')
   const [audioFile, setAudioFile] = useState<UploadedFile | null>(null)
+  const [recordingSessionId, setRecordingSessionId] = useState<string | null>(null)
   const [slidesFile, setSlidesFile] = useState<UploadedFile | null>(null)
+  const [processingOptions, setProcessingOptions] = useState<Required<ProcessingOptions>>(DEFAULT_PROCESSING_OPTIONS)
+  const [measuredAudio, setMeasuredAudio] = useState<{ file: File; duration: number | null } | null>(null)
+  const [usage, setUsage] = useState<RecordingUsage | null>(null)
   
   // Processing state
   const [stage, setStage] = useState<ProcessingStage>('idle')
   const [progress, setProgress] = useState(0)
   const [statusMessage, setStatusMessage] = useState('')
   const [error, setError] = useState<string | null>(null)
+  const [failedLectureId, setFailedLectureId] = useState<string | null>(null)
   
   // Refs
   const audioInputRef = useRef<HTMLInputElement>(null)
@@ -42,29 +65,58 @@ export default function RecordPage() {
   const pollingRef = useRef<NodeJS.Timeout | null>(null)
   const completionStartedRef = useRef<boolean>(false)
 
-  // File size formatter
-  const formatFileSize = (bytes: number): string => {
-    if (bytes < 1024) return `${bytes} B`
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
-  }
+  // Load the user's saved processing defaults
+  useEffect(() => {
+    loadProcessingDefaults(supabase)
+      .then(setProcessingOptions)
+      .catch(err => console.error('[LectureLink] Failed to load processing defaults:', err))
+  }, [supabase])
+
+  // Load this month's recording usage
+  const refreshUsage = useCallback(() => {
+    loadRecordingUsage(supabase)
+      .then(setUsage)
+      .catch(err => console.error('[LectureLink] Failed to load recording usage:', err))
+  }, [supabase])
+
+  useEffect(() => {
+    refreshUsage()
+  }, [refreshUsage])
+
+  // Measure the audio so it can be checked against the quota before uploading
+  useEffect(() => {
+    if (!audioFile) return
+
+    let cancelled = false
+    getAudioDuration(audioFile.file).then(duration => {
+      if (!cancelled) setMeasuredAudio({ file: audioFile.file, duration })
+    })
+    return () => { cancelled = true }
+  }, [audioFile])
+
+  // Unlike the upload to the processing server, saving the copy can't be
+  // picked up after leaving the page
+  useEffect(() => {
+    if (stage !== 'storing') return
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [stage])
+
+  const measuringAudio = !!audioFile && measuredAudio?.file !== audioFile.file
+  const audioDuration = audioFile && !measuringAudio ? measuredAudio?.duration ?? null : null
 
   // Handle audio file selection
   const handleAudioSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
 
-    const validTypes = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/webm', 'audio/m4a', 'audio/mp4', 'audio/x-m4a', 'audio/flac', 'audio/x-flac']
-    const validExtensions = ['mp3', 'wav', 'webm', 'm4a', 'mp4', 'flac']
-    const extension = file.name.split('.').pop()?.toLowerCase()
-
-    if (!validTypes.includes(file.type) && !validExtensions.includes(extension || '')) {
-      setError('Please upload an MP3, WAV, WebM, M4A, or FLAC audio file')
-      return
-    }
-
-    if (file.size > 500 * 1024 * 1024) {
-      setError('Audio file must be less than 500MB')
+    const validationError = validateAudioFile(file)
+    if (validationError) {
+      setError(validationError)
       return
     }
 
@@ -77,17 +129,9 @@ export default function RecordPage() {
     const file = e.target.files?.[0]
     if (!file) return
 
-    const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.presentationml.presentation']
-    const validExtensions = ['pdf', 'pptx']
-    const extension = file.name.split('.').pop()?.toLowerCase()
-
-    if (!validTypes.includes(file.type) && !validExtensions.includes(extension || '')) {
-      setError('Please upload a PDF or PPTX file')
-      return
-    }
-
-    if (file.size > 50 * 1024 * 1024) {
-      setError('Slides file must be less than 50MB')
+    const validationError = validateSlidesFile(file)
+    if (validationError) {
+      setError(validationError)
       return
     }
 
@@ -95,10 +139,21 @@ export default function RecordPage() {
     setError(null)
   }
 
+  // Handle a finished in-browser recording
+  const handleRecordingComplete = (file: File, sessionId: string) => {
+    setAudioFile({ file, name: file.name, size: file.size })
+    setRecordingSessionId(sessionId)
+    setError(null)
+  }
+
   // Remove files
   const removeAudioFile = () => {
     setAudioFile(null)
     if (audioInputRef.current) audioInputRef.current.value = ''
+    if (recordingSessionId) {
+      recordingStore.deleteSession(recordingSessionId).catch(() => {})
+      setRecordingSessionId(null)
+    }
   }
 
   const removeSlidesFile = () => {
@@ -114,8 +169,9 @@ export default function RecordPage() {
       setProgress(status.progress)
       const stageDisplay = getStageDisplay(status.stage)
       setStatusMessage(stageDisplay.label)
+      recordJobProgress(supabase, lectureId, status)
 
-      if (status.status === 'completed') {
+      if (status.status === 'completed' || status.status === 'failed') {
         // Prevent multiple callbacks from running completion logic
         if (completionStartedRef.current) {
           return
@@ -128,125 +184,39 @@ export default function RecordPage() {
           pollingRef.current = null
         }
 
-        // Get result and generate summary
-        setStage('summary')
-        setStatusMessage('Generating AI summary...')
-        setProgress(90)
-
-        try {
-          const result = await api.getJobResult(jobId) as any
-          console.log('[LectureLink] Job result received:', JSON.stringify(result, null, 2))
-
-          // Store content locally before any cleanup
-          const markdownContent = result.master_document?.markdown_content
-          const transcript = result.transcript || ''
-          // Round duration to integer (database expects integer type)
-          const duration = Math.round(result.summary?.audio_duration_seconds || 0)
-
-          console.log('[LectureLink] Extracted data:', {
-            hasMarkdown: !!markdownContent,
-            transcriptLength: transcript.length,
-            duration
-          })
-
-          // Always save transcript first, regardless of summary generation
-          setStage('saving')
-          setStatusMessage('Saving to database...')
-          setProgress(92)
-
-          // Update lecture with transcript
-          const { error: lectureUpdateError } = await supabase
-            .from('lectures')
-            .update({
-              status: 'completed',
-              transcript: transcript,
-              duration: duration,
-              has_slides: !!slidesFile,
-              has_alignment: !!slidesFile,
-            })
-            .eq('id', lectureId)
-
-          if (lectureUpdateError) {
-            console.error('[LectureLink] Failed to save lecture:', lectureUpdateError)
-          } else {
-            console.log('[LectureLink] Lecture updated with transcript')
-          }
-
-          // Generate and save summary if we have markdown content
-          if (markdownContent) {
-            setStatusMessage('Generating AI summary...')
-            setProgress(95)
-
-            const summaryResponse = await api.generateSummary(markdownContent, lectureName) as any
-            // API returns { summary: { title, key_concepts, ... } }
-            const summary = summaryResponse.summary || summaryResponse
-
-            const { error: summaryError } = await supabase.from('lecture_summaries').upsert({
-              lecture_id: lectureId,
-              title: summary.title || summaryResponse.lecture_title || lectureName,
-              summary: summary.overview || '',
-              key_concepts: summary.key_concepts || [],
-              definitions: summary.definitions || [],
-              important_points: summary.main_takeaways || [],
-              action_items: [],
-            })
-
-            if (summaryError) {
-              console.error('[LectureLink] Failed to save summary:', summaryError)
-            } else {
-              console.log('[LectureLink] Summary saved successfully')
-            }
-          }
-
-          setStage('complete')
-          setProgress(100)
-          setStatusMessage('Processing complete!')
-
-          // Cleanup job on server AFTER everything is done
-          await api.deleteJob(jobId).catch(() => {})
-
-          // Redirect after short delay
-          setTimeout(() => {
-            router.push(`/lecture/${lectureId}`)
-          }, 1500)
-
-        } catch (err) {
-          console.error('[LectureLink] Processing failed:', err)
-          // Try to at least mark as complete
-          try {
-            await supabase
-              .from('lectures')
-              .update({ status: 'completed' })
-              .eq('id', lectureId)
-          } catch (updateErr) {
-            console.error('[LectureLink] Failed to update status:', updateErr)
-          }
-
-          // Cleanup job even on error
-          await api.deleteJob(jobId).catch(() => {})
-
-          router.push(`/lecture/${lectureId}`)
+        if (status.status === 'completed') {
+          setStage('summary')
+          setStatusMessage('Generating AI summary...')
+          setProgress(95)
         }
 
-      } else if (status.status === 'failed') {
-        if (pollingRef.current) {
-          clearInterval(pollingRef.current)
-          pollingRef.current = null
+        // The server saves the results, so closing the tab from here on is safe
+        const result = await requestFinalize(jobId)
+
+        if (result.outcome === 'failed') {
+          setStage('error')
+          setError(result.error || status.error || 'Processing failed')
+          setFailedLectureId(lectureId)
+          return
         }
-        
-        // Update lecture status
-        await supabase
-          .from('lectures')
-          .update({ status: 'failed' })
-          .eq('id', lectureId)
-
-        setStage('error')
-        setError(status.error || 'Processing failed')
+
+        setStage('complete')
+        setProgress(100)
+        setStatusMessage('Processing complete!')
+
+        // Redirect after short delay
+        setTimeout(() => {
+          router.push(`/lecture/${lectureId}`)
+        }, 1500)
       }
     } catch (err) {
       console.error('Polling error:', err)
+      // The background sweep will finish the job; the lecture page shows its status
+      if (completionStartedRef.current) {
+        router.push(`/lecture/${lectureId}`)
+      }
     }
-  }, [lectureName, slidesFile, supabase, router])
+  }, [router, supabase])
 
   // Process lecture
   const handleProcess = async () => {
@@ -260,65 +230,71 @@ export default function RecordPage() {
       return
     }
 
+    if (audioDuration === null) {
+      setError(UNMEASURABLE_AUDIO_MESSAGE)
+      return
+    }
+
     setError(null)
+    setFailedLectureId(null)
     setStage('uploading')
-    setProgress(5)
+    setProgress(0)
     setStatusMessage('Uploading files...')
     completionStartedRef.current = false
 
     try {
-      // Get current user
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) {
-        setError('Please log in to continue')
-        return
-      }
-
-      // Create lecture record
-      const { data: lecture, error: lectureError } = await supabase
-        .from('lectures')
-        .insert({
-          user_id: user.id,
-          title: lectureName.trim(),
-          status: 'processing',
-          recording_date: new Date().toISOString(),
-        })
-        .select('id')
-        .single()
-
-      if (lectureError || !lecture) {
-        throw new Error('Failed to create lecture record')
-      }
-
-      // Upload to Python API
-      setProgress(10)
       setStatusMessage('Sending to processing server...')
 
-      const jobStatus = await api.processLecture(
-        audioFile.file,
-        slidesFile?.file
-      )
+      const { lectureId, jobId } = await startLectureProcessing(supabase, {
+        title: lectureName,
+        courseId,
+        audioFile: audioFile.file,
+        slidesFile: slidesFile?.file,
+        options: processingOptions,
+        durationSeconds: audioDuration,
+        onUploadProgress: ({ loaded, total, resumed }) => {
+          setProgress(Math.floor((loaded / total) * 100))
+          setStatusMessage(
+            `${resumed ? 'Resuming upload' : 'Uploading audio'}... ${formatFileSize(loaded)} of ${formatFileSize(total)}`
+          )
+        },
+        onStoreProgress: ({ loaded, total }) => {
+          setStage('storing')
+          setProgress(Math.floor((loaded / total) * 100))
+          setStatusMessage(`Saving a copy for playback... ${formatFileSize(loaded)} of ${formatFileSize(total)}`)
+        },
+      })
+
+      // The server has the audio now, so the local copy can go
+      if (recordingSessionId) {
+        recordingStore.deleteSession(recordingSessionId).catch(() => {})
+        setRecordingSessionId(null)
+      }
 
       // Start polling
       setStage('processing')
-      setProgress(15)
+      setProgress(0)
+      setStatusMessage('Waiting for processing server...')
       
       pollingRef.current = setInterval(() => {
-        pollJobStatus(jobStatus.job_id, lecture.id)
+        pollJobStatus(jobId, lectureId)
       }, 3000)
 
       // Initial poll
-      pollJobStatus(jobStatus.job_id, lecture.id)
+      pollJobStatus(jobId, lectureId)
 
     } catch (err) {
       console.error('Processing error:', err)
       setStage('error')
       setError(err instanceof Error ? err.message : 'Failed to start processing')
+      refreshUsage()
     }
   }
 
   const isProcessing = stage !== 'idle' && stage !== 'error'
-  const canProcess = audioFile && lectureName.trim() && !isProcessing
+  const quotaError = audioDuration !== null ? checkQuota(usage, audioDuration) : null
+  const durationError = audioFile && !measuringAudio && audioDuration === null ? UNMEASURABLE_AUDIO_MESSAGE : null
+  const canProcess = audioFile && audioDuration !== null && lectureName.trim() && !isProcessing && !quotaError
 
   return (
     <div className="p-8 max-w-4xl mx-auto">
@@ -331,10 +307,13 @@ export default function RecordPage() {
           ← Back to Dashboard
         </Link>
         <h1 className="text-3xl font-bold text-gray-900 mb-2">
-          Upload Lecture
+          New Lecture
         </h1>
         <p className="text-gray-600">
-          Upload your lecture audio and slides for AI processing
+          Record or upload your lecture audio and slides for AI processing.{' '}
+          <Link href="/record/batch" className="text-blue-600 hover:text-blue-700 font-medium">
+            Uploading several lectures? Use batch upload →
+          </Link>
         </p>
       </div>
 
@@ -355,14 +334,51 @@ export default function RecordPage() {
           />
         </div>
 
+        {/* Course */}
+        <div className="mb-8">
+          <label className="block text-sm font-semibold text-gray-700 mb-2">
+            Course
+          </label>
+          <CourseSelect value={courseId} onChange={setCourseId} disabled={isProcessing} />
+        </div>
+
         {/* File Upload Section */}
         <div className="grid md:grid-cols-2 gap-6 mb-8">
           {/* Audio Upload */}
           <div>
-            <label className="block text-sm font-semibold text-gray-700 mb-2">
-              Audio File *
-            </label>
-            {!audioFile ? (
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-semibold text-gray-700">
+                Audio *
+              </label>
+              {!audioFile && (
+                <div className="flex bg-gray-100 rounded-lg p-0.5 text-xs font-medium">
+                  <button
+                    onClick={() => setAudioSource('upload')}
+                    disabled={isProcessing}
+                    className={`px-3 py-1 rounded-md transition ${
+                      audioSource === 'upload' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'
+                    }`}
+                  >
+                    Upload
+                  </button>
+                  <button
+                    onClick={() => setAudioSource('record')}
+                    disabled={isProcessing}
+                    className={`px-3 py-1 rounded-md transition ${
+                      audioSource === 'record' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500'
+                    }`}
+                  >
+                    Record
+                  </button>
+                </div>
+              )}
+            </div>
+            {!audioFile && audioSource === 'record' ? (
+              <LectureRecorder
+                disabled={isProcessing}
+                onRecordingComplete={handleRecordingComplete}
+              />
+            ) : !audioFile ? (
               <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-400 hover:bg-blue-50/50 transition">
                 <div className="flex flex-col items-center justify-center py-6">
                   <span className="text-3xl mb-2">🎙️</span>
@@ -386,13 +402,14 @@ export default function RecordPage() {
               <div className="border border-blue-200 bg-blue-50 rounded-xl p-4">
                 <div className="flex items-start justify-between">
                   <div className="flex items-center gap-3">
-                    <span className="text-2xl">🎵</span>
+                    <span className="text-2xl">{recordingSessionId ? '🎙️' : '🎵'}</span>
                     <div>
                       <p className="font-medium text-blue-800 truncate max-w-[200px]">
                         {audioFile.name}
                       </p>
                       <p className="text-xs text-blue-600">
                         {formatFileSize(audioFile.size)}
+                        {audioDuration !== null && ` · ${formatMinutes(audioDuration)}`}
                       </p>
                     </div>
                   </div>
@@ -472,10 +489,47 @@ export default function RecordPage() {
           </div>
         )}
 
+        {/* Advanced Options */}
+        <div className="mb-8">
+          <ProcessingOptionsPanel
+            value={processingOptions}
+            onChange={setProcessingOptions}
+            onSaveDefaults={() => saveProcessingDefaults(supabase, processingOptions)}
+            hasSlides={!!slidesFile}
+            disabled={isProcessing}
+          />
+        </div>
+
+        {/* Quota */}
+        {durationError ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+            <p className="text-sm text-red-700">{durationError}</p>
+          </div>
+        ) : quotaError ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+            <p className="text-sm font-semibold text-red-800 mb-1">Monthly recording quota exceeded</p>
+            <p className="text-sm text-red-700">{quotaError}</p>
+          </div>
+        ) : usage && (
+          <p className="text-xs text-gray-500 mb-4">
+            {usage.limit_minutes === null
+              ? `${formatMinutes(usage.used_seconds)} recorded this month · no monthly limit`
+              : `${formatMinutes(getRemainingSeconds(usage) ?? 0)} of ${usage.limit_minutes} min left this month`}
+          </p>
+        )}
+
         {/* Error Display */}
         {error && (
           <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
             <p className="text-sm text-red-700">{error}</p>
+            {failedLectureId && (
+              <Link
+                href={`/lecture/${failedLectureId}`}
+                className="text-sm text-red-700 font-medium underline mt-2 inline-block"
+              >
+                Retry with different settings from the lecture page →
+              </Link>
+            )}
           </div>
         )}
 
@@ -495,7 +549,11 @@ export default function RecordPage() {
               />
             </div>
             <p className="text-xs text-gray-500 mt-2">
-              This may take 5-10 minutes depending on the lecture length
+              {stage === 'uploading'
+                ? 'Interrupted uploads resume automatically, even after reloading this page and selecting the same file'
+                : stage === 'storing'
+                  ? 'Processing has started. Keep this page open until the copy is saved, or the lecture can\'t be played back or reprocessed.'
+                  : 'This may take 5-10 minutes depending on the lecture length'}
             </p>
           </div>
         )}
@@ -511,6 +569,11 @@ export default function RecordPage() {
               <span className="animate-spin">⚙️</span>
               Processing...
             </>
+          ) : measuringAudio ? (
+            <>
+              <span className="animate-spin">⏳</span>
+              Reading audio length...
+            </>
           ) : (
             <>
               <span>🚀</span>
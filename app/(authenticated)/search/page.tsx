@@ -0,0 +1,129 @@
+import Link from 'next/link'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import {
+  getSearchResultLink,
+  parseSnippet,
+  searchLectures,
+  SEARCH_SECTION_LABELS,
+  type LectureSearchResult,
+} from '@/lib/search'
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ q?: string }>
+}) {
+  const { q } = await searchParams
+  const query = (q || '').trim()
+
+  let results: LectureSearchResult[] = []
+  let searchError: string | null = null
+  if (query) {
+    const supabase = await createServerSupabaseClient()
+    try {
+      results = await searchLectures(supabase, query)
+    } catch (err) {
+      console.error('[LectureLink] Search failed:', err)
+      searchError = 'Search failed. Please try again.'
+    }
+  }
+
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">
+          Search
+        </h1>
+        <p className="text-gray-600">
+          Search titles, transcripts, summaries, key concepts and definitions across all your lectures
+        </p>
+      </div>
+
+      {/* Search Form */}
+      <form action="/search" className="flex gap-3 mb-8">
+        <input
+          type="search"
+          name="q"
+          defaultValue={query}
+          placeholder='e.g. eigenvalues, "gradient descent", bayes -naive'
+          autoFocus
+          className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+        />
+        <button
+          type="submit"
+          className="px-6 py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition"
+        >
+          Search
+        </button>
+      </form>
+
+      {searchError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+          <p className="text-sm text-red-700">{searchError}</p>
+        </div>
+      )}
+
+      {/* Results */}
+      {query && !searchError && (
+        results.length === 0 ? (
+          <div className="bg-gray-50 rounded-xl p-12 text-center">
+            <div className="text-4xl mb-4">🔍</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No results for &ldquo;{query}&rdquo;
+            </h3>
+            <p className="text-gray-500">
+              Try different or fewer words.
+            </p>
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-500 mb-4">
+              {results.length} lecture{results.length === 1 ? '' : 's'} found
+            </p>
+            <div className="bg-white rounded-xl border border-gray-200 shadow-sm divide-y divide-gray-100">
+              {results.map(result => (
+                <Link
+                  key={result.lecture_id}
+                  href={getSearchResultLink(result)}
+                  className="block p-4 hover:bg-gray-50 transition"
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <h3 className="font-medium text-gray-900 truncate">{result.title}</h3>
+                    <span className="text-xs font-medium text-blue-600 bg-blue-50 px-2 py-1 rounded-full flex-shrink-0">
+                      {SEARCH_SECTION_LABELS[result.section]}
+                    </span>
+                    <span className="text-xs text-gray-400 ml-auto flex-shrink-0">
+                      {formatDate(result.created_at)}
+                    </span>
+                  </div>
+                  {result.section !== 'title' && (
+                    <p className="text-sm text-gray-600 line-clamp-3">
+                      {parseSnippet(result.snippet).map((part, index) =>
+                        part.highlighted ? (
+                          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={index}>{part.text}</span>
+                        )
+                      )}
+                    </p>
+                  )}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { loadLectureFlashcards } from '@/lib/flashcards'
+import {
+  DEFAULT_DECK_NAME,
+  getAttachmentHeader,
+  isFlashcardExportFormat,
+  renderFlashcardExport,
+} from '@/lib/export'
+
+// GET /api/flashcards/export?format=apkg|csv|tsv&lecture=<id>&lecture=<id>&deck=<name>
+// One deck from the given lectures, or every completed lecture. The deck is
+// named `deck` if given, otherwise after the lecture when there's only one.
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams
+
+  const format = searchParams.get('format')
+  if (!isFlashcardExportFormat(format)) {
+    return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 })
+  }
+  const lectureIds = searchParams.getAll('lecture')
+
+  // Row level security limits the user to their own lectures
+  const supabase = await createServerSupabaseClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { lectures, cards } = await loadLectureFlashcards(supabase, lectureIds.length > 0 ? lectureIds : undefined)
+    if (cards.length === 0) {
+      return NextResponse.json({ error: 'There are no flashcards to export' }, { status: 404 })
+    }
+
+    const deckName = searchParams.get('deck')?.trim()
+      || (lectureIds.length === 1 && lectures.length === 1 ? lectures[0].title : DEFAULT_DECK_NAME)
+    const { body, contentType, fileName } = await renderFlashcardExport(format, cards, deckName)
+
+    return new Response(body as BodyInit, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': getAttachmentHeader(fileName),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (err) {
+    console.error('[LectureLink] Flashcard export failed:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to export flashcards' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { createAdminSupabaseClient } from '@/lib/supabase-admin'
+import { finalizeJob, isTrustedRequest } from '@/lib/finalize'
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params
+
+  // Backend callbacks use the shared secret; browsers use their session,
+  // so row level security limits them to their own lectures
+  let supabase
+  if (isTrustedRequest(request)) {
+    supabase = createAdminSupabaseClient()
+  } else {
+    supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  try {
+    const result = await finalizeJob(supabase, jobId)
+    const status = result.outcome === 'not_found' ? 404 : 200
+    return NextResponse.json(result, { status })
+  } catch (err) {
+    console.error('[LectureLink] Finalize failed:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to finalize job' },
+      { status: 500 }
+    )
+  }
+}
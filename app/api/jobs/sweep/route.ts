@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { createAdminSupabaseClient } from '@/lib/supabase-admin'
+import { isTrustedRequest, sweepJobs } from '@/lib/finalize'
+
+// Periodic sweep that finalizes lectures whose browser tab went away.
+// Schedule it every few minutes (e.g. Vercel Cron) with CRON_SECRET set.
+export async function GET(request: Request) {
+  if (!isTrustedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const results = await sweepJobs(createAdminSupabaseClient())
+    return NextResponse.json({ processed: results.length, results })
+  } catch (err) {
+    console.error('[LectureLink] Sweep failed:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Sweep failed' },
+      { status: 500 }
+    )
+  }
+}
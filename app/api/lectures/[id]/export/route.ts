@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import {
+  EXPORT_SECTIONS,
+  buildExportDocument,
+  getAttachmentHeader,
+  isExportFormat,
+  renderExport,
+  type ExportSectionId,
+} from '@/lib/export'
+
+// GET /api/lectures/:id/export?format=pdf|docx|md&sections=overview,concepts,...
+// Leaving out sections exports all of them
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const searchParams = new URL(request.url).searchParams
+
+  const format = searchParams.get('format')
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 })
+  }
+
+  const requested = searchParams.get('sections')?.split(',').filter(Boolean)
+  const sections = EXPORT_SECTIONS
+    .map(section => section.id)
+    .filter((section): section is ExportSectionId => !requested || requested.includes(section))
+  if (sections.length === 0) {
+    return NextResponse.json({ error: 'Choose at least one section to export' }, { status: 400 })
+  }
+
+  // Row level security limits the user to their own lectures
+  const supabase = await createServerSupabaseClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const { data: lecture, error: lectureError } = await supabase
+      .from('lectures')
+      .select('title, created_at, duration, transcript')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (lectureError) throw lectureError
+    if (!lecture) {
+      return NextResponse.json({ error: 'Lecture not found' }, { status: 404 })
+    }
+
+    const { data: summary } = await supabase
+      .from('lecture_summaries')
+      .select('*')
+      .eq('lecture_id', id)
+      .maybeSingle()
+
+    const { data: segments } = sections.includes('transcript')
+      ? await supabase
+        .from('transcript_segments')
+        .select('*')
+        .eq('lecture_id', id)
+        .order('position', { ascending: true })
+      : { data: [] }
+
+    const document = buildExportDocument(lecture, summary, segments || [], sections)
+    const { body, contentType, fileName } = await renderExport(format, document)
+
+    return new Response(body as BodyInit, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': getAttachmentHeader(fileName),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (err) {
+    console.error('[LectureLink] Export failed:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to export lecture' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAttachmentHeader, renderVault, type VaultLecture } from '@/lib/export'
+
+// GET /api/lectures/vault?lecture=<id>&lecture=<id> - completed lectures as a
+// zip of Markdown notes; every completed lecture when no ids are given
+export async function GET(request: Request) {
+  const lectureIds = new URL(request.url).searchParams.getAll('lecture')
+
+  // Row level security limits the user to their own lectures
+  const supabase = await createServerSupabaseClient()
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    let query = supabase
+      .from('lectures')
+      .select(`
+        id,
+        title,
+        recording_date,
+        duration,
+        lecture_summaries (
+          summary,
+          important_points,
+          key_concepts,
+          definitions,
+          difficulty_level
+        )
+      `)
+      .eq('status', 'completed')
+    if (lectureIds.length > 0) query = query.in('id', lectureIds)
+
+    const { data, error } = await query
+    if (error) throw error
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'There are no completed lectures to export' }, { status: 404 })
+    }
+
+    const lectures: VaultLecture[] = data.map(({ lecture_summaries, ...lecture }) => ({
+      ...lecture,
+      summary: (Array.isArray(lecture_summaries) ? lecture_summaries[0] : lecture_summaries) || null,
+    }))
+    const body = await renderVault(lectures)
+
+    return new Response(body as BodyInit, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': getAttachmentHeader('LectureLink Vault.zip'),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (err) {
+    console.error('[LectureLink] Vault export failed:', err)
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to export lectures' },
+      { status: 500 }
+    )
+  }
+}
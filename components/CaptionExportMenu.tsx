@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { downloadBlob } from '@/lib/files'
+import {
+  CAPTION_LINE_LENGTHS,
+  DEFAULT_CAPTION_OPTIONS,
+  buildCaptionCues,
+  formatCaptions,
+  type CaptionOptions,
+} from '@/lib/captions'
+import type { TranscriptSegment } from '@/lib/types'
+
+interface CaptionExportMenuProps {
+  title: string
+  segments: TranscriptSegment[]
+}
+
+export default function CaptionExportMenu({ title, segments }: CaptionExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [options, setOptions] = useState<CaptionOptions>(DEFAULT_CAPTION_OPTIONS)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [open])
+
+  const cueCount = open ? buildCaptionCues(segments, options).length : 0
+
+  const download = () => {
+    const text = formatCaptions(buildCaptionCues(segments, options), options.format)
+    const type = options.format === 'srt' ? 'application/x-subrip' : 'text/vtt'
+    downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), `${title}.${options.format}`)
+    setOpen(false)
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+      >
+        Captions ▾
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-72 bg-white border border-gray-200 rounded-xl shadow-lg p-4 space-y-4">
+          {/* Format */}
+          <div className="flex gap-2">
+            {(['srt', 'vtt'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => setOptions({ ...options, format })}
+                className={`flex-1 px-3 py-1.5 text-sm rounded-lg border transition ${
+                  options.format === format
+                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                    : 'border-gray-200 text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                {format === 'srt' ? 'SRT' : 'WebVTT'}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.mergeShort}
+              onChange={(e) => setOptions({ ...options, mergeShort: e.target.checked })}
+              className="w-4 h-4 rounded border-gray-300"
+            />
+            Merge short sentences
+          </label>
+
+          <label className="flex items-center justify-between gap-2 text-sm text-gray-700">
+            Max line length
+            <select
+              value={options.maxLineLength}
+              onChange={(e) => setOptions({ ...options, maxLineLength: Number(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            >
+              {CAPTION_LINE_LENGTHS.map(length => (
+                <option key={length} value={length}>{length} characters</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500">{cueCount} captions</span>
+            <button
+              onClick={download}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+            >
+              Download {options.format.toUpperCase()}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
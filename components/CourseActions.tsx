@@ -0,0 +1,66 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase'
+import { deleteCourse } from '@/lib/courses'
+import CourseDialog from '@/components/CourseDialog'
+import type { Course } from '@/lib/types'
+
+interface CourseActionsProps {
+  course: Course
+}
+
+// Edit and delete buttons for the server-rendered course page
+export default function CourseActions({ course }: CourseActionsProps) {
+  const router = useRouter()
+  const supabase = createClient()
+  const [editing, setEditing] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${course.name}"? Its lectures are kept and just won't be in a course.`)) return
+
+    setDeleting(true)
+    setError(null)
+    try {
+      await deleteCourse(supabase, course.id)
+      router.push('/courses')
+      router.refresh()
+    } catch (err) {
+      console.error('[LectureLink] Failed to delete course:', err)
+      setError('The course couldn\'t be deleted')
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+      <button
+        onClick={() => setEditing(true)}
+        className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition text-sm font-medium"
+      >
+        ✏️ Edit
+      </button>
+      <button
+        onClick={handleDelete}
+        disabled={deleting}
+        className="px-4 py-2 text-red-600 rounded-lg hover:bg-red-50 transition text-sm font-medium disabled:opacity-50"
+      >
+        {deleting ? 'Deleting...' : 'Delete'}
+      </button>
+      {editing && (
+        <CourseDialog
+          course={course}
+          onClose={() => setEditing(false)}
+          onSaved={() => {
+            setEditing(false)
+            router.refresh()
+          }}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { COURSE_COLORS, EMPTY_COURSE_INPUT, createCourse, updateCourse, type CourseInput } from '@/lib/courses'
+import type { Course } from '@/lib/types'
+
+interface CourseDialogProps {
+  // Edits this course; creates a new one when left out
+  course?: Course
+  onClose: () => void
+  onSaved: (course: Course) => void
+}
+
+const FIELDS: Array<{ key: 'code' | 'term' | 'instructor'; label: string; placeholder: string }> = [
+  { key: 'code', label: 'Course code', placeholder: 'e.g., CS 101' },
+  { key: 'term', label: 'Term', placeholder: 'e.g., Fall 2026' },
+  { key: 'instructor', label: 'Instructor', placeholder: 'e.g., Dr. Rivera' },
+]
+
+export default function CourseDialog({ course, onClose, onSaved }: CourseDialogProps) {
+  const supabase = createClient()
+  const [input, setInput] = useState<CourseInput>(course
+    ? { name: course.name, code: course.code, term: course.term, instructor: course.instructor, color: course.color }
+    : EMPTY_COURSE_INPUT)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    if (!input.name.trim()) {
+      setError('Please enter a course name')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      let saved: Course
+      if (course) {
+        saved = await updateCourse(supabase, course.id, input)
+      } else {
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) throw new Error('Please log in to continue')
+        saved = await createCourse(supabase, user.id, input)
+      }
+      onSaved(saved)
+    } catch (err) {
+      console.error('[LectureLink] Failed to save course:', err)
+      setError('The course couldn\'t be saved. Please try again.')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-6">
+          {course ? 'Edit course' : 'New course'}
+        </h2>
+
+        <div className="space-y-4 mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              value={input.name}
+              onChange={(e) => setInput({ ...input, name: e.target.value })}
+              placeholder="e.g., Introduction to Algorithms"
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          {FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{field.label}</label>
+              <input
+                type="text"
+                value={input[field.key] || ''}
+                onChange={(e) => setInput({ ...input, [field.key]: e.target.value })}
+                placeholder={field.placeholder}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          ))}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+            <div className="flex flex-wrap gap-2">
+              {COURSE_COLORS.map(color => (
+                <button
+                  key={color}
+                  onClick={() => setInput({ ...input, color })}
+                  title={color}
+                  style={{ backgroundColor: color }}
+                  className={`w-7 h-7 rounded-full transition ${
+                    input.color === color ? 'ring-2 ring-offset-2 ring-gray-400' : 'hover:scale-110'
+                  }`}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600 mb-4">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : course ? 'Save' : 'Create course'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
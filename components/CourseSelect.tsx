@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase'
+import { getCourseLabel, loadCourses } from '@/lib/courses'
+import CourseDialog from '@/components/CourseDialog'
+import type { Course } from '@/lib/types'
+
+// Select value that opens the new course dialog instead of choosing a course
+const NEW_COURSE = '__new__'
+
+interface CourseSelectProps {
+  value: string | null
+  onChange: (courseId: string | null) => void
+  disabled?: boolean
+  className?: string
+}
+
+export default function CourseSelect({ value, onChange, disabled, className }: CourseSelectProps) {
+  const router = useRouter()
+  const supabase = createClient()
+  const [courses, setCourses] = useState<Course[]>([])
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    loadCourses(supabase)
+      .then(setCourses)
+      .catch(err => console.error('[LectureLink] Failed to load courses:', err))
+  }, [supabase])
+
+  return (
+    <>
+      <select
+        value={value || ''}
+        onChange={(e) => {
+          if (e.target.value === NEW_COURSE) setCreating(true)
+          else onChange(e.target.value || null)
+        }}
+        disabled={disabled}
+        className={className || 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition'}
+      >
+        <option value="">No course</option>
+        {courses.map(course => (
+          <option key={course.id} value={course.id}>
+            {getCourseLabel(course)}{course.term ? ` (${course.term})` : ''}
+          </option>
+        ))}
+        <option value={NEW_COURSE}>+ New course...</option>
+      </select>
+
+      {creating && (
+        <CourseDialog
+          onClose={() => setCreating(false)}
+          onSaved={(course) => {
+            setCourses(prev => [...prev, course].sort((a, b) => a.name.localeCompare(b.name)))
+            setCreating(false)
+            onChange(course.id)
+            // The sidebar lists courses
+            router.refresh()
+          }}
+        />
+      )}
+    </>
+  )
+}
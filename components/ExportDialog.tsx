@@ -0,0 +1,145 @@
+'use client'
+
+import { useState } from 'react'
+import { downloadFile } from '@/lib/files'
+import { EXPORT_SECTIONS, type ExportSectionId } from '@/lib/export/document'
+import FlashcardExportButtons from '@/components/FlashcardExportButtons'
+
+// Kept here rather than imported from lib/export, which pulls in the PDF and DOCX renderers
+const FORMATS = [
+  { id: 'pdf', label: 'PDF', description: 'Print-ready pages' },
+  { id: 'docx', label: 'Word', description: 'Editable .docx' },
+  { id: 'md', label: 'Markdown', description: 'Plain text for notes apps' },
+] as const
+
+type Format = typeof FORMATS[number]['id']
+
+interface ExportDialogProps {
+  lectureId: string
+  // Sections with nothing to export are shown disabled
+  available: ExportSectionId[]
+  onClose: () => void
+}
+
+export default function ExportDialog({ lectureId, available, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<Format>('pdf')
+  const [sections, setSections] = useState<Set<ExportSectionId>>(
+    new Set(available.filter(section => section !== 'transcript'))
+  )
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleSection = (section: ExportSectionId) => {
+    setSections(prev => {
+      const next = new Set(prev)
+      if (next.has(section)) next.delete(section)
+      else next.add(section)
+      return next
+    })
+  }
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({
+        format,
+        sections: EXPORT_SECTIONS.map(section => section.id).filter(id => sections.has(id)).join(','),
+      })
+      await downloadFile(`/api/lectures/${lectureId}/export?${params}`, `lecture.${format}`)
+      onClose()
+    } catch (err) {
+      console.error('[LectureLink] Export failed:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Export lecture</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Choose what to include and a file format.
+        </p>
+
+        {/* Sections */}
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Sections</h3>
+        <div className="space-y-2 mb-6">
+          {EXPORT_SECTIONS.map(section => {
+            const isAvailable = available.includes(section.id)
+            return (
+              <label
+                key={section.id}
+                className={`flex items-center gap-2 text-sm ${isAvailable ? 'text-gray-700' : 'text-gray-400'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={isAvailable && sections.has(section.id)}
+                  onChange={() => toggleSection(section.id)}
+                  disabled={!isAvailable || exporting}
+                  className="w-4 h-4 rounded border-gray-300"
+                />
+                {section.label}
+                {!isAvailable && <span className="text-xs">(none in this lecture)</span>}
+              </label>
+            )
+          })}
+        </div>
+
+        {/* Format */}
+        <h3 className="text-sm font-medium text-gray-700 mb-2">Format</h3>
+        <div className="grid grid-cols-3 gap-2 mb-6">
+          {FORMATS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setFormat(option.id)}
+              disabled={exporting}
+              className={`border rounded-lg p-3 text-left transition ${
+                format === option.id
+                  ? 'border-blue-500 bg-blue-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900">{option.label}</p>
+              <p className="text-xs text-gray-500">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600 mb-4">{error}</p>
+        )}
+
+        {/* Flashcards */}
+        {(available.includes('concepts') || available.includes('definitions')) && (
+          <div className="border-t border-gray-200 pt-4 mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Flashcards</h3>
+            <p className="text-xs text-gray-500 mb-2">
+              Key concepts and definitions as study cards, tagged by importance with their slide numbers
+            </p>
+            <FlashcardExportButtons lectureIds={[lectureId]} />
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={exporting || sections.size === 0}
+            className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {exporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
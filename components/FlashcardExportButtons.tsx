@@ -0,0 +1,55 @@
+'use client'
+
+import { useState } from 'react'
+import { downloadFile } from '@/lib/files'
+import { FLASHCARD_EXPORT_FORMATS, type FlashcardExportFormat } from '@/lib/export/flashcards'
+
+interface FlashcardExportButtonsProps {
+  // Every completed lecture when left out
+  lectureIds?: string[]
+  // Defaults to the lecture title for one lecture
+  deckName?: string
+}
+
+export default function FlashcardExportButtons({ lectureIds, deckName }: FlashcardExportButtonsProps) {
+  const [exporting, setExporting] = useState<FlashcardExportFormat | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async (format: FlashcardExportFormat) => {
+    setExporting(format)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams({ format })
+      for (const id of lectureIds || []) params.append('lecture', id)
+      if (deckName) params.set('deck', deckName)
+      await downloadFile(`/api/flashcards/export?${params}`, `flashcards.${format}`)
+    } catch (err) {
+      console.error('[LectureLink] Flashcard export failed:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2">
+        {FLASHCARD_EXPORT_FORMATS.map(format => (
+          <button
+            key={format.id}
+            onClick={() => handleExport(format.id)}
+            disabled={exporting !== null}
+            title={format.description}
+            className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+          >
+            {exporting === format.id ? 'Exporting...' : format.label}
+          </button>
+        ))}
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 mt-2">{error}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase'
+import { saveFlashcardReview, type Flashcard } from '@/lib/flashcards'
+import { formatInterval, NEW_CARD_STATE, REVIEW_GRADES, scheduleReview, type ReviewGrade } from '@/lib/srs'
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  1: 'bg-red-50 text-red-700 hover:bg-red-100',
+  3: 'bg-orange-50 text-orange-700 hover:bg-orange-100',
+  4: 'bg-green-50 text-green-700 hover:bg-green-100',
+  5: 'bg-blue-50 text-blue-700 hover:bg-blue-100',
+}
+
+interface FlashcardReviewProps {
+  userId: string
+  cards: Flashcard[]
+}
+
+export default function FlashcardReview({ userId, cards }: FlashcardReviewProps) {
+  const supabase = createClient()
+  const [queue, setQueue] = useState<Flashcard[]>(cards)
+  const [showAnswer, setShowAnswer] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [reviewed, setReviewed] = useState(0)
+  const [forgotten, setForgotten] = useState(0)
+
+  const card = queue[0]
+
+  const grade = useCallback(async (value: ReviewGrade) => {
+    if (!card || saving) return
+    setSaving(true)
+    setError(null)
+
+    try {
+      const state = scheduleReview(card.review || NEW_CARD_STATE, value)
+      const review = await saveFlashcardReview(supabase, userId, card, state, value)
+
+      // Forgotten cards go to the back of the queue for another try
+      setQueue(prev => value < 3 ? [...prev.slice(1), { ...card, review }] : prev.slice(1))
+      setReviewed(count => count + 1)
+      if (value < 3) setForgotten(count => count + 1)
+      setShowAnswer(false)
+    } catch (err) {
+      console.error('[LectureLink] Failed to save flashcard review:', err)
+      setError('Your answer couldn\'t be saved. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }, [card, saving, supabase, userId])
+
+  // Space flips the card, 1-4 grade it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      if (e.key === ' ' && !showAnswer) {
+        e.preventDefault()
+        setShowAnswer(true)
+        return
+      }
+      const option = REVIEW_GRADES[Number(e.key) - 1]
+      if (showAnswer && option) grade(option.grade)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [showAnswer, grade])
+
+  if (!card) {
+    return (
+      <div className="bg-white rounded-xl border border-gray-200 p-12 shadow-sm text-center">
+        <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+          <span className="text-3xl">🎉</span>
+        </div>
+        <h2 className="text-lg font-medium text-gray-900 mb-2">Session complete</h2>
+        <p className="text-gray-500 mb-6">
+          {reviewed} review{reviewed === 1 ? '' : 's'}
+          {forgotten > 0 && `, ${forgotten} needed another try`}
+        </p>
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 transition"
+        >
+          Back to Dashboard
+        </Link>
+      </div>
+    )
+  }
+
+  const currentState = card.review || NEW_CARD_STATE
+
+  return (
+    <div>
+      {/* Progress */}
+      <div className="flex items-center justify-between text-sm text-gray-500 mb-3">
+        <span>{queue.length} card{queue.length === 1 ? '' : 's'} left</span>
+        <span>{reviewed} reviewed</span>
+      </div>
+
+      {/* Card */}
+      <div className="bg-white rounded-xl border border-gray-200 shadow-sm p-8 min-h-[280px] flex flex-col">
+        <div className="flex items-center justify-between mb-6">
+          <span className="text-xs font-medium text-gray-600 bg-gray-100 px-2 py-1 rounded-full">
+            {card.kind === 'definition' ? '📖 Definition' : '💡 Concept'}
+          </span>
+          <div className="flex items-center gap-2">
+            {!card.review && (
+              <span className="text-xs font-medium text-blue-600 bg-blue-50 px-2 py-1 rounded-full">New</span>
+            )}
+            <Link
+              href={`/lecture/${card.lecture_id}`}
+              className="text-xs text-gray-500 hover:text-gray-700 truncate max-w-[240px]"
+            >
+              {card.lecture_title}
+            </Link>
+          </div>
+        </div>
+
+        <div className="flex-1 flex flex-col items-center justify-center text-center">
+          <p className="text-2xl font-bold text-gray-900">{card.front}</p>
+          {showAnswer && (
+            <p className="mt-6 pt-6 border-t border-gray-200 w-full text-gray-700 leading-relaxed">
+              {card.back}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="mt-6">
+        {showAnswer ? (
+          <div className="grid grid-cols-4 gap-3">
+            {REVIEW_GRADES.map((option, index) => (
+              <button
+                key={option.grade}
+                onClick={() => grade(option.grade)}
+                disabled={saving}
+                title={`Press ${index + 1}`}
+                className={`py-3 rounded-xl font-medium transition disabled:opacity-50 ${GRADE_STYLES[option.grade]}`}
+              >
+                {option.label}
+                <span className="block text-xs font-normal opacity-75">
+                  {formatInterval(scheduleReview(currentState, option.grade))}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowAnswer(true)}
+            className="w-full py-3 bg-blue-600 text-white rounded-xl font-semibold hover:bg-blue-700 transition"
+          >
+            Show answer <span className="text-blue-200 text-sm font-normal">(Space)</span>
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
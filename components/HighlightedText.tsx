@@ -0,0 +1,36 @@
+'use client'
+
+import { splitByMatches, type TextMatch } from '@/lib/text-search'
+
+interface HighlightedTextProps {
+  text: string
+  matches: TextMatch[]
+  // Index into matches of the match the user is on, or -1
+  currentMatch?: number
+}
+
+export default function HighlightedText({ text, matches, currentMatch = -1 }: HighlightedTextProps) {
+  if (matches.length === 0) {
+    return <>{text}</>
+  }
+
+  return (
+    <>
+      {splitByMatches(text, matches).map((part, index) =>
+        part.matchIndex < 0 ? (
+          <span key={index}>{part.text}</span>
+        ) : (
+          <mark
+            key={index}
+            data-current-match={part.matchIndex === currentMatch ? 'true' : undefined}
+            className={`rounded px-0.5 ${
+              part.matchIndex === currentMatch ? 'bg-orange-300 text-gray-900' : 'bg-yellow-200 text-gray-900'
+            }`}
+          >
+            {part.text}
+          </mark>
+        )
+      )}
+    </>
+  )
+}
@@ -0,0 +1,237 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { getLectureFileUrl } from '@/lib/lecture-storage'
+import { findSegmentIndexAt, formatTimestamp } from '@/lib/transcript'
+import type { TranscriptSegment } from '@/lib/types'
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2]
+const SKIP_SECONDS = 15
+// Pauses between sentences shorter than this are kept when skipping silence
+const MIN_SILENCE_SECONDS = 1.5
+// Let the last word of a sentence finish before jumping
+const SENTENCE_TAIL_SECONDS = 0.25
+const PREFERENCES_KEY = 'lecturelink:playback'
+
+interface PlaybackPreferences {
+  rate: number
+  skipSilence: boolean
+}
+
+function loadPreferences(): PlaybackPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PREFERENCES_KEY) || '{}')
+    return {
+      rate: PLAYBACK_RATES.includes(stored.rate) ? stored.rate : 1,
+      skipSilence: !!stored.skipSilence,
+    }
+  } catch {
+    return { rate: 1, skipSilence: false }
+  }
+}
+
+interface LectureAudioPlayerProps {
+  audioPath: string
+  segments: TranscriptSegment[]
+  // Owned by the page so the transcript can seek the player
+  audioRef: React.RefObject<HTMLAudioElement | null>
+  initialTime?: number | null
+  onTimeUpdate: (time: number) => void
+}
+
+export default function LectureAudioPlayer({
+  audioPath,
+  segments,
+  audioRef,
+  initialTime,
+  onTimeUpdate,
+}: LectureAudioPlayerProps) {
+  const supabase = createClient()
+  const [src, setSrc] = useState<string | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [playing, setPlaying] = useState(false)
+  const [currentTime, setCurrentTime] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [preferences, setPreferences] = useState<PlaybackPreferences>(loadPreferences)
+
+  // Where to start once the audio loads (deep link, or resuming after a URL refresh)
+  const pendingSeekRef = useRef<number | null>(initialTime ?? null)
+  const urlRefreshedRef = useRef(false)
+
+  // Signed URL for the private audio file
+  useEffect(() => {
+    let cancelled = false
+    getLectureFileUrl(supabase, audioPath)
+      .then(url => { if (!cancelled) setSrc(url) })
+      .catch(err => {
+        console.error('[LectureLink] Failed to load audio:', err)
+        if (!cancelled) setLoadError('The lecture audio couldn\'t be loaded')
+      })
+    return () => { cancelled = true }
+  }, [supabase, audioPath])
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = preferences.rate
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences))
+  }, [audioRef, preferences])
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    setDuration(audio.duration)
+    // Loading a source resets the rate
+    audio.playbackRate = preferences.rate
+    if (pendingSeekRef.current !== null) {
+      audio.currentTime = pendingSeekRef.current
+      pendingSeekRef.current = null
+    }
+  }
+
+  // Jump over long pauses using the gaps between transcript sentences
+  const skipSilence = (audio: HTMLAudioElement) => {
+    if (!preferences.skipSilence || audio.paused || segments.length === 0) return
+
+    const time = audio.currentTime
+    const index = findSegmentIndexAt(segments, time)
+    const next = segments[index + 1]
+    if (!next) return
+
+    const silenceStart = index >= 0 ? segments[index].end_time + SENTENCE_TAIL_SECONDS : 0
+    if (time >= silenceStart && next.start_time - time > MIN_SILENCE_SECONDS) {
+      audio.currentTime = next.start_time
+    }
+  }
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    skipSilence(audio)
+    setCurrentTime(audio.currentTime)
+    onTimeUpdate(audio.currentTime)
+  }
+
+  // Signed URLs expire; fetch a fresh one once and carry on from the same spot
+  const handleError = async () => {
+    if (urlRefreshedRef.current) {
+      setLoadError('The lecture audio couldn\'t be played')
+      return
+    }
+    urlRefreshedRef.current = true
+    pendingSeekRef.current = audioRef.current?.currentTime ?? null
+    try {
+      setSrc(await getLectureFileUrl(supabase, audioPath))
+    } catch {
+      setLoadError('The lecture audio couldn\'t be loaded')
+    }
+  }
+
+  const togglePlay = () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (audio.paused) {
+      audio.play().catch(err => console.error('[LectureLink] Playback failed:', err))
+    } else {
+      audio.pause()
+    }
+  }
+
+  const seekBy = (seconds: number) => {
+    const audio = audioRef.current
+    if (!audio) return
+    audio.currentTime = Math.min(Math.max(0, audio.currentTime + seconds), duration || audio.currentTime)
+  }
+
+  if (loadError) {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-xl p-4 mb-6 text-sm text-gray-500">
+        🔇 {loadError}
+      </div>
+    )
+  }
+
+  return (
+    <div className="sticky top-0 z-10 bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-6">
+      {src && (
+        <audio
+          ref={audioRef}
+          src={src}
+          preload="metadata"
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={handleTimeUpdate}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onError={handleError}
+        />
+      )}
+
+      <div className="flex items-center gap-4">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => seekBy(-SKIP_SECONDS)}
+            disabled={!src}
+            title={`Back ${SKIP_SECONDS} seconds`}
+            className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          >
+            ↺ {SKIP_SECONDS}
+          </button>
+          <button
+            onClick={togglePlay}
+            disabled={!src}
+            className="w-10 h-10 bg-blue-600 text-white rounded-full hover:bg-blue-700 transition flex items-center justify-center disabled:opacity-50"
+          >
+            {playing ? '⏸' : '▶'}
+          </button>
+          <button
+            onClick={() => seekBy(SKIP_SECONDS)}
+            disabled={!src}
+            title={`Forward ${SKIP_SECONDS} seconds`}
+            className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          >
+            {SKIP_SECONDS} ↻
+          </button>
+        </div>
+
+        <span className="text-xs font-mono text-gray-500 w-12 text-right">{formatTimestamp(currentTime)}</span>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.1}
+          value={currentTime}
+          onChange={(e) => {
+            if (audioRef.current) audioRef.current.currentTime = Number(e.target.value)
+          }}
+          disabled={!src || !duration}
+          className="flex-1"
+        />
+        <span className="text-xs font-mono text-gray-500 w-12">{formatTimestamp(duration)}</span>
+
+        <select
+          value={preferences.rate}
+          onChange={(e) => setPreferences({ ...preferences, rate: Number(e.target.value) })}
+          title="Playback speed"
+          className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+        >
+          {PLAYBACK_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate}×</option>
+          ))}
+        </select>
+        <label
+          className={`flex items-center gap-1.5 text-sm text-gray-600 ${segments.length === 0 ? 'opacity-50' : ''}`}
+          title="Jump over long pauses between sentences"
+        >
+          <input
+            type="checkbox"
+            checked={preferences.skipSilence}
+            onChange={(e) => setPreferences({ ...preferences, skipSilence: e.target.checked })}
+            disabled={segments.length === 0}
+            className="w-4 h-4 rounded border-gray-300"
+          />
+          Skip silence
+        </label>
+      </div>
+    </div>
+  )
+}
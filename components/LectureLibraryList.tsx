@@ -0,0 +1,258 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase'
+import { getCourseLabel } from '@/lib/courses'
+import { deleteLectures, moveLecturesToCourse, type LibraryLecture } from '@/lib/library'
+import { DIFFICULTY_STYLES } from '@/lib/study'
+import { MAX_TAG_LENGTH, normalizeTag, tagLectures } from '@/lib/tags'
+import LibraryExportMenu from '@/components/LibraryExportMenu'
+import ReprocessButton from '@/components/ReprocessButton'
+import type { Course } from '@/lib/types'
+
+interface LectureLibraryListProps {
+  lectures: LibraryLecture[]
+  courses: Course[]
+}
+
+function formatDuration(seconds: number | undefined): string {
+  if (!seconds) return '—'
+  const mins = Math.floor(seconds / 60)
+  if (mins < 60) return `${mins}m`
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`
+}
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+const STATUS_STYLES: Record<LibraryLecture['status'], { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'text-green-600 bg-green-50' },
+  processing: { label: 'Processing', className: 'text-yellow-600 bg-yellow-50' },
+  failed: { label: 'Failed', className: 'text-red-600 bg-red-50' },
+}
+
+// Value of the move select before a course is picked
+const NO_MOVE = '__none__'
+
+// One page of the library with checkboxes and bulk delete, move, tag and export
+export default function LectureLibraryList({ lectures, courses }: LectureLibraryListProps) {
+  const router = useRouter()
+  const supabase = createClient()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [tagDraft, setTagDraft] = useState('')
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const coursesById = new Map(courses.map(course => [course.id, course]))
+  const selectedLectures = lectures.filter(lecture => selected.has(lecture.id))
+  const selectedIds = selectedLectures.map(lecture => lecture.id)
+  const completedIds = selectedLectures.filter(lecture => lecture.status === 'completed').map(lecture => lecture.id)
+  const processingCount = selectedLectures.filter(lecture => lecture.status === 'processing').length
+  const allSelected = lectures.length > 0 && selectedLectures.length === lectures.length
+
+  const toggle = (lectureId: string) => {
+    const next = new Set(selected)
+    if (next.has(lectureId)) next.delete(lectureId)
+    else next.add(lectureId)
+    setSelected(next)
+  }
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(lectures.map(lecture => lecture.id)))
+  }
+
+  // Run a bulk action, then reload the page's lectures
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setWorking(true)
+    setError(null)
+    try {
+      await action()
+      setSelected(new Set())
+      router.refresh()
+    } catch (err) {
+      console.error('[LectureLink] Bulk action failed:', err)
+      setError(failure)
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleMove = (value: string) => {
+    if (value === NO_MOVE) return
+    run(() => moveLecturesToCourse(supabase, selectedIds, value || null), 'The lectures couldn\'t be moved')
+  }
+
+  const handleTag = (e: React.FormEvent) => {
+    e.preventDefault()
+    const tag = normalizeTag(tagDraft)
+    if (!tag) return
+    run(async () => {
+      await tagLectures(supabase, selectedIds, tag)
+      setTagDraft('')
+    }, 'The lectures couldn\'t be tagged')
+  }
+
+  const handleDelete = () => {
+    const count = selectedIds.length - processingCount
+    const kept = processingCount > 0
+      ? ` ${processingCount} still processing will be kept.`
+      : ''
+    if (!window.confirm(`Delete ${count} lecture${count === 1 ? '' : 's'}? Their transcripts, summaries, notes, flashcard progress and stored files are deleted too.${kept}`)) return
+
+    run(async () => {
+      await deleteLectures(supabase, selectedIds)
+    }, 'The lectures couldn\'t be deleted')
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      {/* Selection Bar */}
+      <div className={`sticky top-0 z-10 flex flex-wrap items-center gap-3 px-4 py-3 border-b border-gray-200 rounded-t-xl ${
+        selected.size > 0 ? 'bg-blue-50' : 'bg-white'
+      }`}>
+        <input
+          type="checkbox"
+          checked={allSelected}
+          onChange={toggleAll}
+          title={allSelected ? 'Deselect all' : 'Select all on this page'}
+          className="w-4 h-4 rounded border-gray-300"
+        />
+        <span className="text-sm text-gray-600">
+          {selected.size > 0 ? `${selected.size} selected` : 'Select lectures for bulk actions'}
+        </span>
+
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            <select
+              value={NO_MOVE}
+              onChange={(e) => handleMove(e.target.value)}
+              disabled={working}
+              className="px-2 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-700 bg-white"
+            >
+              <option value={NO_MOVE} disabled>Move to course...</option>
+              <option value="">No course</option>
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{getCourseLabel(course)}</option>
+              ))}
+            </select>
+
+            <form onSubmit={handleTag} className="flex items-center gap-1">
+              <input
+                value={tagDraft}
+                onChange={(e) => setTagDraft(e.target.value)}
+                maxLength={MAX_TAG_LENGTH}
+                disabled={working}
+                placeholder="Add tag"
+                className="w-28 px-2 py-1.5 border border-gray-200 rounded-lg text-sm text-gray-700 bg-white"
+              />
+              <button
+                type="submit"
+                disabled={working || !tagDraft.trim()}
+                className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+              >
+                Tag
+              </button>
+            </form>
+
+            <LibraryExportMenu lectureIds={completedIds} />
+
+            <button
+              onClick={handleDelete}
+              disabled={working || processingCount === selected.size}
+              title={processingCount === selected.size ? 'Lectures still processing can\'t be deleted' : undefined}
+              className="px-3 py-1.5 text-sm text-red-600 rounded-lg hover:bg-red-50 transition disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-200">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      {/* Lectures */}
+      <ul className="divide-y divide-gray-100">
+        {lectures.map(lecture => {
+          const summary = Array.isArray(lecture.lecture_summaries)
+            ? lecture.lecture_summaries[0]
+            : lecture.lecture_summaries
+          const conceptCount = summary?.key_concepts?.length || 0
+          const course = lecture.course_id ? coursesById.get(lecture.course_id) : undefined
+          const status = STATUS_STYLES[lecture.status]
+
+          return (
+            <li key={lecture.id} className={`flex items-center gap-3 px-4 ${selected.has(lecture.id) ? 'bg-blue-50/50' : ''}`}>
+              <input
+                type="checkbox"
+                checked={selected.has(lecture.id)}
+                onChange={() => toggle(lecture.id)}
+                className="w-4 h-4 rounded border-gray-300 flex-shrink-0"
+              />
+              <Link
+                href={`/lecture/${lecture.id}`}
+                className="flex-1 min-w-0 py-4 hover:opacity-80 transition"
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <h3 className="font-medium text-gray-900 truncate">{lecture.title}</h3>
+                  {lecture.status !== 'completed' && (
+                    <span className={`text-xs font-medium px-2 py-1 rounded-full ${status.className}`}>
+                      {status.label}
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-500">
+                  <span>{formatDate(lecture.recording_date)}</span>
+                  <span>•</span>
+                  <span>{formatDuration(lecture.duration)}</span>
+                  {lecture.has_slides && (
+                    <>
+                      <span>•</span>
+                      <span title="With slides">📊</span>
+                    </>
+                  )}
+                  {conceptCount > 0 && (
+                    <>
+                      <span>•</span>
+                      <span>{conceptCount} concepts</span>
+                    </>
+                  )}
+                  {summary?.difficulty_level && DIFFICULTY_STYLES[summary.difficulty_level] && (
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${DIFFICULTY_STYLES[summary.difficulty_level].className}`}>
+                      {DIFFICULTY_STYLES[summary.difficulty_level].label}
+                    </span>
+                  )}
+                  {course && (
+                    <span className="inline-flex items-center gap-1.5 text-xs font-medium text-gray-700">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: course.color }} />
+                      {course.code || course.name}
+                    </span>
+                  )}
+                  {(lecture.tags || []).map(tag => (
+                    <span key={tag} className="text-xs font-medium text-gray-600 bg-gray-100 px-2 py-0.5 rounded-full">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              </Link>
+              {lecture.status === 'failed' && (
+                <ReprocessButton lecture={lecture} />
+              )}
+              <span className="text-gray-400">→</span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
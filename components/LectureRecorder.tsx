@@ -0,0 +1,371 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { recordingStore, type RecordingSession } from '@/lib/recording-store'
+
+interface LectureRecorderProps {
+  disabled?: boolean
+  onRecordingComplete: (file: File, sessionId: string) => void
+}
+
+type RecorderState = 'idle' | 'recording' | 'paused' | 'finishing'
+
+// Chunks are flushed to IndexedDB every few seconds
+const CHUNK_INTERVAL_MS = 5000
+
+const PREFERRED_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/webm',
+  'audio/mp4',
+]
+
+function pickMimeType(): string {
+  return PREFERRED_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || ''
+}
+
+function formatElapsed(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600)
+  const mins = Math.floor((totalSeconds % 3600) / 60)
+  const secs = Math.floor(totalSeconds % 60)
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${pad(mins)}:${pad(secs)}`
+}
+
+export default function LectureRecorder({ disabled, onRecordingComplete }: LectureRecorderProps) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [deviceId, setDeviceId] = useState('')
+  const [state, setState] = useState<RecorderState>('idle')
+  const [elapsed, setElapsed] = useState(0)
+  const [level, setLevel] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [recoverable, setRecoverable] = useState<RecordingSession[]>([])
+
+  // Refs
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const animationRef = useRef<number | null>(null)
+  const timerRef = useRef<NodeJS.Timeout | null>(null)
+  const elapsedRef = useRef(0)
+  const pendingWritesRef = useRef<Promise<void>>(Promise.resolve())
+
+  const isSupported = typeof window !== 'undefined' &&
+    typeof MediaRecorder !== 'undefined' &&
+    !!navigator.mediaDevices?.getUserMedia
+
+  // Load microphones and any recordings left behind by a closed tab
+  useEffect(() => {
+    if (!isSupported) return
+
+    const loadDevices = async () => {
+      const all = await navigator.mediaDevices.enumerateDevices()
+      setDevices(all.filter(device => device.kind === 'audioinput'))
+    }
+
+    loadDevices().catch(err => console.error('[LectureLink] Failed to list microphones:', err))
+    recordingStore.listSessions()
+      .then(setRecoverable)
+      .catch(err => console.error('[LectureLink] Failed to read saved recordings:', err))
+
+    navigator.mediaDevices.addEventListener('devicechange', loadDevices)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', loadDevices)
+  }, [isSupported])
+
+  // Warn before leaving the page mid-recording
+  useEffect(() => {
+    if (state !== 'recording' && state !== 'paused') return
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [state])
+
+  // Release the microphone when the component unmounts. The session stays
+  // in IndexedDB so it can be recovered next time.
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null
+        recorder.stop()
+      }
+      releaseResources()
+    }
+  }, [])
+
+  const releaseResources = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current)
+      timerRef.current = null
+    }
+    if (animationRef.current !== null) {
+      cancelAnimationFrame(animationRef.current)
+      animationRef.current = null
+    }
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+    audioContextRef.current?.close().catch(() => {})
+    audioContextRef.current = null
+    setLevel(0)
+  }
+
+  const startTimer = () => {
+    timerRef.current = setInterval(() => {
+      elapsedRef.current += 1
+      setElapsed(elapsedRef.current)
+    }, 1000)
+  }
+
+  const stopTimer = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current)
+      timerRef.current = null
+    }
+  }
+
+  // Drive the level meter from an analyser on the microphone stream
+  const startLevelMeter = (stream: MediaStream) => {
+    const audioContext = new AudioContext()
+    const analyser = audioContext.createAnalyser()
+    analyser.fftSize = 1024
+    audioContext.createMediaStreamSource(stream).connect(analyser)
+    audioContextRef.current = audioContext
+
+    const samples = new Float32Array(analyser.fftSize)
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples)
+      let sumSquares = 0
+      for (const sample of samples) {
+        sumSquares += sample * sample
+      }
+      const rms = Math.sqrt(sumSquares / samples.length)
+      // Scale so normal speech sits around the middle of the meter
+      setLevel(Math.min(1, rms * 4))
+      animationRef.current = requestAnimationFrame(tick)
+    }
+    tick()
+  }
+
+  const startRecording = async () => {
+    setError(null)
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+      })
+      streamRef.current = stream
+
+      // Device labels are only exposed after permission is granted
+      const all = await navigator.mediaDevices.enumerateDevices()
+      setDevices(all.filter(device => device.kind === 'audioinput'))
+
+      const mimeType = pickMimeType()
+      const recorder = new MediaRecorder(stream, {
+        mimeType: mimeType || undefined,
+        audioBitsPerSecond: 64000,
+      })
+      const session = await recordingStore.createSession(recorder.mimeType || mimeType || 'audio/webm')
+      elapsedRef.current = 0
+      setElapsed(0)
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size === 0) return
+        pendingWritesRef.current = pendingWritesRef.current
+          .then(() => recordingStore.appendChunk(session.id, event.data, elapsedRef.current))
+          .catch(err => {
+            console.error('[LectureLink] Failed to save recording chunk:', err)
+            setError('Could not save the recording to this browser. Keep this tab open until you stop.')
+          })
+      }
+
+      recorder.onstop = async () => {
+        releaseResources()
+        await pendingWritesRef.current
+
+        try {
+          const file = await recordingStore.loadRecording(session)
+          onRecordingComplete(file, session.id)
+        } catch (err) {
+          console.error('[LectureLink] Failed to assemble recording:', err)
+          setError('Failed to assemble the recording')
+        } finally {
+          setState('idle')
+        }
+      }
+
+      recorder.start(CHUNK_INTERVAL_MS)
+      recorderRef.current = recorder
+      startLevelMeter(stream)
+      startTimer()
+      setState('recording')
+    } catch (err) {
+      console.error('[LectureLink] Failed to start recording:', err)
+      releaseResources()
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Microphone access was denied. Allow it in your browser settings to record.'
+          : 'Could not start recording from this microphone'
+      )
+    }
+  }
+
+  const pauseRecording = () => {
+    recorderRef.current?.pause()
+    stopTimer()
+    setState('paused')
+  }
+
+  const resumeRecording = () => {
+    recorderRef.current?.resume()
+    startTimer()
+    setState('recording')
+  }
+
+  const stopRecording = () => {
+    stopTimer()
+    setState('finishing')
+    recorderRef.current?.stop()
+    recorderRef.current = null
+  }
+
+  const recoverSession = async (session: RecordingSession) => {
+    try {
+      const file = await recordingStore.loadRecording(session)
+      setRecoverable(prev => prev.filter(s => s.id !== session.id))
+      onRecordingComplete(file, session.id)
+    } catch (err) {
+      console.error('[LectureLink] Failed to recover recording:', err)
+      setError('Failed to recover the saved recording')
+    }
+  }
+
+  const discardSession = async (sessionId: string) => {
+    await recordingStore.deleteSession(sessionId).catch(() => {})
+    setRecoverable(prev => prev.filter(s => s.id !== sessionId))
+  }
+
+  if (!isSupported) {
+    return (
+      <div className="border border-gray-200 bg-gray-50 rounded-xl p-4 text-sm text-gray-600">
+        Recording isn&apos;t supported in this browser. Upload an audio file instead.
+      </div>
+    )
+  }
+
+  const isActive = state !== 'idle'
+
+  return (
+    <div className="border border-gray-200 rounded-xl p-4 space-y-4">
+      {/* Recordings left behind by a closed tab */}
+      {!isActive && recoverable.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 space-y-2">
+          <p className="text-sm font-medium text-yellow-800">Unsaved recording found</p>
+          {recoverable.map(session => (
+            <div key={session.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-yellow-700">
+                {new Date(session.started_at).toLocaleString()} · {formatElapsed(session.duration_seconds)}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => recoverSession(session)}
+                  disabled={disabled}
+                  className="text-yellow-800 font-medium hover:underline disabled:opacity-50"
+                >
+                  Recover
+                </button>
+                <button
+                  onClick={() => discardSession(session.id)}
+                  disabled={disabled}
+                  className="text-yellow-600 hover:text-red-500 disabled:opacity-50"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Microphone picker */}
+      <div>
+        <label className="block text-xs font-medium text-gray-500 mb-1">Microphone</label>
+        <select
+          value={deviceId}
+          onChange={(e) => setDeviceId(e.target.value)}
+          disabled={disabled || isActive}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Default microphone</option>
+          {devices.map((device, index) => (
+            <option key={device.deviceId || index} value={device.deviceId}>
+              {device.label || `Microphone ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Timer + level meter */}
+      <div className="flex items-center gap-3">
+        <span className={`w-3 h-3 rounded-full ${
+          state === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-gray-300'
+        }`} />
+        <span className="font-mono text-lg text-gray-900 w-20">{formatElapsed(elapsed)}</span>
+        <div className="flex-1 bg-gray-200 rounded-full h-2 overflow-hidden">
+          <div
+            className="h-full bg-green-500 transition-[width] duration-75"
+            style={{ width: `${Math.round(level * 100)}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="flex gap-2">
+        {state === 'idle' && (
+          <button
+            onClick={startRecording}
+            disabled={disabled}
+            className="flex-1 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 transition disabled:opacity-50"
+          >
+            ● Start Recording
+          </button>
+        )}
+        {state === 'recording' && (
+          <button
+            onClick={pauseRecording}
+            className="flex-1 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition"
+          >
+            ❚❚ Pause
+          </button>
+        )}
+        {state === 'paused' && (
+          <button
+            onClick={resumeRecording}
+            className="flex-1 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 transition"
+          >
+            ▶ Resume
+          </button>
+        )}
+        {(state === 'recording' || state === 'paused') && (
+          <button
+            onClick={stopRecording}
+            className="flex-1 py-2 bg-gray-900 text-white rounded-lg text-sm font-medium hover:bg-gray-800 transition"
+          >
+            ■ Stop
+          </button>
+        )}
+        {state === 'finishing' && (
+          <p className="text-sm text-gray-500">Saving recording...</p>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {isActive && (
+        <p className="text-xs text-gray-400">
+          Recording is saved in this browser as you go, so it can be recovered if the tab closes.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase'
+import { addTag, loadTags, MAX_TAG_LENGTH, setLectureTags } from '@/lib/tags'
+
+interface LectureTagEditorProps {
+  lectureId: string
+  tags: string[]
+  onChange: (tags: string[]) => void
+}
+
+export default function LectureTagEditor({ lectureId, tags, onChange }: LectureTagEditorProps) {
+  const supabase = createClient()
+  const [draft, setDraft] = useState('')
+  const [suggestions, setSuggestions] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Tags used on other lectures
+  useEffect(() => {
+    loadTags(supabase)
+      .then(setSuggestions)
+      .catch(err => console.error('[LectureLink] Failed to load tags:', err))
+  }, [supabase])
+
+  const save = async (next: string[]) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await setLectureTags(supabase, lectureId, next)
+      onChange(next)
+    } catch (err) {
+      console.error('[LectureLink] Failed to save tags:', err)
+      setError('Tags couldn\'t be saved')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const next = addTag(tags, draft)
+    if (!next) {
+      setDraft('')
+      return
+    }
+    await save(next)
+    setDraft('')
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span>🏷️</span>
+      {tags.map(tag => (
+        <span key={tag} className="inline-flex items-center gap-1 text-xs font-medium text-gray-700 bg-gray-100 pl-2 pr-1 py-0.5 rounded-full">
+          <Link href={`/lectures?tag=${encodeURIComponent(tag)}`} className="hover:text-blue-600">
+            {tag}
+          </Link>
+          <button
+            onClick={() => save(tags.filter(t => t !== tag))}
+            disabled={saving}
+            title={`Remove "${tag}"`}
+            className="w-4 h-4 flex items-center justify-center rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      <form onSubmit={handleAdd}>
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          list={`tag-suggestions-${lectureId}`}
+          maxLength={MAX_TAG_LENGTH}
+          disabled={saving}
+          placeholder="Add tag"
+          className="w-28 px-2 py-0.5 border border-gray-200 rounded-full text-xs text-gray-700 bg-white focus:outline-none focus:border-blue-400"
+        />
+        <datalist id={`tag-suggestions-${lectureId}`}>
+          {suggestions.filter(tag => !tags.includes(tag)).map(tag => (
+            <option key={tag} value={tag} />
+          ))}
+        </datalist>
+      </form>
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  )
+}
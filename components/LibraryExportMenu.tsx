@@ -0,0 +1,85 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { downloadFile } from '@/lib/files'
+import FlashcardExportButtons from '@/components/FlashcardExportButtons'
+
+interface LibraryExportMenuProps {
+  // Completed lectures only; the others have nothing to export
+  lectureIds: string[]
+}
+
+// Export popover for the lectures selected in the library
+export default function LibraryExportMenu({ lectureIds }: LibraryExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleMouseDown)
+    return () => document.removeEventListener('mousedown', handleMouseDown)
+  }, [open])
+
+  const exportNotes = async () => {
+    setExporting(true)
+    setError(null)
+    try {
+      const params = new URLSearchParams()
+      for (const id of lectureIds) params.append('lecture', id)
+      await downloadFile(`/api/lectures/vault?${params}`, 'LectureLink Vault.zip')
+    } catch (err) {
+      console.error('[LectureLink] Vault export failed:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={lectureIds.length === 0}
+        title={lectureIds.length === 0 ? 'Only completed lectures can be exported' : undefined}
+        className="px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+      >
+        Export ▾
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-80 bg-white border border-gray-200 rounded-xl shadow-lg p-4 space-y-4">
+          <p className="text-xs text-gray-500">
+            {lectureIds.length} completed lecture{lectureIds.length === 1 ? '' : 's'}
+          </p>
+
+          {/* Notes */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Notes</h4>
+            <button
+              onClick={exportNotes}
+              disabled={exporting}
+              className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+            >
+              {exporting ? 'Preparing zip...' : 'Markdown vault (.zip)'}
+            </button>
+            {error && (
+              <p className="text-sm text-red-600 mt-2">{error}</p>
+            )}
+          </div>
+
+          {/* Flashcards */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Flashcards</h4>
+            <FlashcardExportButtons lectureIds={lectureIds} />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
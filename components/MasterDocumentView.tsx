@@ -0,0 +1,161 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import Markdown, { type Components } from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import rehypeSanitize from 'rehype-sanitize'
+import { countWords, extractHeadings, getMarkdownFileName, TOC_MAX_LEVEL } from '@/lib/master-document'
+import type { LectureDocument } from '@/lib/types'
+
+interface MasterDocumentViewProps {
+  lectureDocument: LectureDocument
+  title: string
+}
+
+const HEADING_STYLES: Record<number, string> = {
+  1: 'text-2xl font-bold text-gray-900 mt-8 mb-4',
+  2: 'text-xl font-bold text-gray-900 mt-8 mb-3',
+  3: 'text-lg font-semibold text-gray-900 mt-6 mb-2',
+  4: 'font-semibold text-gray-900 mt-4 mb-2',
+  5: 'font-semibold text-gray-700 mt-4 mb-2',
+  6: 'font-semibold text-gray-500 mt-4 mb-2',
+}
+
+export default function MasterDocumentView({ lectureDocument, title }: MasterDocumentViewProps) {
+  const markdown = lectureDocument.markdown_content
+  const headings = useMemo(() => extractHeadings(markdown), [markdown])
+  const tocHeadings = useMemo(() => headings.filter(heading => heading.level <= TOC_MAX_LEVEL), [headings])
+  const [activeId, setActiveId] = useState<string | null>(null)
+
+  // Rendered headings get the id their line was given in the table of contents
+  const components = useMemo<Components>(() => {
+    const idsByLine = new Map(headings.map(heading => [heading.line, heading.id]))
+    const heading = (level: number): Components['h1'] =>
+      function Heading({ node, children }) {
+        const Tag = `h${level}` as 'h1'
+        return (
+          <Tag
+            id={node?.position ? idsByLine.get(node.position.start.line) : undefined}
+            className={`${HEADING_STYLES[level]} scroll-mt-24`}
+          >
+            {children}
+          </Tag>
+        )
+      }
+
+    return {
+      h1: heading(1),
+      h2: heading(2),
+      h3: heading(3),
+      h4: heading(4),
+      h5: heading(5),
+      h6: heading(6),
+      p: ({ children }) => <p className="text-gray-700 leading-relaxed mb-4">{children}</p>,
+      ul: ({ children }) => <ul className="list-disc pl-6 mb-4 space-y-1 text-gray-700">{children}</ul>,
+      ol: ({ children }) => <ol className="list-decimal pl-6 mb-4 space-y-1 text-gray-700">{children}</ol>,
+      a: ({ href, children }) => (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+          {children}
+        </a>
+      ),
+      blockquote: ({ children }) => (
+        <blockquote className="border-l-4 border-gray-300 pl-4 text-gray-600 italic mb-4">{children}</blockquote>
+      ),
+      code: ({ className, children }) => (
+        <code className={`${className || ''} bg-gray-100 rounded px-1 py-0.5 text-sm font-mono`}>{children}</code>
+      ),
+      pre: ({ children }) => (
+        <pre className="bg-gray-100 rounded-lg p-4 mb-4 overflow-x-auto text-sm [&>code]:bg-transparent [&>code]:p-0">{children}</pre>
+      ),
+      table: ({ children }) => (
+        <div className="overflow-x-auto mb-4">
+          <table className="min-w-full text-sm border border-gray-200">{children}</table>
+        </div>
+      ),
+      th: ({ children }) => <th className="border border-gray-200 bg-gray-50 px-3 py-2 text-left font-semibold">{children}</th>,
+      td: ({ children }) => <td className="border border-gray-200 px-3 py-2">{children}</td>,
+      hr: () => <hr className="my-6 border-gray-200" />,
+    }
+  }, [headings])
+
+  // Highlight the section being read in the table of contents
+  useEffect(() => {
+    const elements = tocHeadings
+      .map(heading => window.document.getElementById(heading.id))
+      .filter((element): element is HTMLElement => !!element)
+    if (elements.length === 0) return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        const visible = entries.find(entry => entry.isIntersecting)
+        if (visible) setActiveId(visible.target.id)
+      },
+      { rootMargin: '0px 0px -70% 0px' }
+    )
+    elements.forEach(element => observer.observe(element))
+    return () => observer.disconnect()
+  }, [tocHeadings])
+
+  const downloadMarkdown = () => {
+    const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' })
+    const url = URL.createObjectURL(blob)
+    const link = window.document.createElement('a')
+    link.href = url
+    link.download = getMarkdownFileName(title)
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const totalWords = lectureDocument.total_words ?? countWords(markdown)
+  const totalSections = lectureDocument.total_sections ?? headings.length
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Table of Contents */}
+      <aside className="lg:sticky lg:top-4 lg:self-start bg-white rounded-xl border border-gray-200 shadow-sm p-4 max-h-[80vh] overflow-y-auto">
+        <div className="grid grid-cols-2 gap-3 mb-4 pb-4 border-b border-gray-200">
+          <div>
+            <p className="text-xs text-gray-500">Words</p>
+            <p className="font-bold text-gray-900">{totalWords.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Sections</p>
+            <p className="font-bold text-gray-900">{totalSections}</p>
+          </div>
+        </div>
+        <button
+          onClick={downloadMarkdown}
+          className="w-full mb-4 px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+        >
+          ⬇️ Download .md
+        </button>
+        {tocHeadings.length > 0 && (
+          <nav className="space-y-1">
+            <p className="text-xs font-medium text-gray-400 uppercase mb-2">Contents</p>
+            {tocHeadings.map(heading => (
+              <a
+                key={heading.id}
+                href={`#${heading.id}`}
+                style={{ paddingLeft: `${(heading.level - 1) * 12 + 8}px` }}
+                className={`block pr-2 py-1 rounded text-sm truncate transition ${
+                  heading.id === activeId
+                    ? 'bg-blue-50 text-blue-700 font-medium'
+                    : 'text-gray-600 hover:bg-gray-50'
+                }`}
+              >
+                {heading.text}
+              </a>
+            ))}
+          </nav>
+        )}
+      </aside>
+
+      {/* Document */}
+      <article className="lg:col-span-3 bg-white rounded-xl border border-gray-200 p-8 shadow-sm min-w-0">
+        <Markdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize]} components={components}>
+          {markdown}
+        </Markdown>
+      </article>
+    </div>
+  )
+}
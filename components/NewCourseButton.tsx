@@ -0,0 +1,32 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import CourseDialog from '@/components/CourseDialog'
+
+export default function NewCourseButton() {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition flex items-center gap-2 text-sm font-medium"
+      >
+        <span>＋</span>
+        New Course
+      </button>
+      {open && (
+        <CourseDialog
+          onClose={() => setOpen(false)}
+          onSaved={(course) => {
+            setOpen(false)
+            router.push(`/courses/${course.id}`)
+            router.refresh()
+          }}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { useState } from 'react'
+
+interface NoteComposerProps {
+  // What the note is attached to, shown above the text box
+  label: string
+  quote: string
+  initialBody?: string
+  onSave: (body: string) => Promise<void>
+  onClose: () => void
+}
+
+export default function NoteComposer({ label, quote, initialBody = '', onSave, onClose }: NoteComposerProps) {
+  const [body, setBody] = useState(initialBody)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      await onSave(body)
+      onClose()
+    } catch (err) {
+      console.error('[LectureLink] Failed to save note:', err)
+      setError('The note couldn\'t be saved. Please try again.')
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">
+          {initialBody ? 'Edit note' : 'Add note'}
+        </h2>
+        <p className="text-xs font-medium text-gray-400 mb-2">{label}</p>
+        <blockquote className="border-l-4 border-amber-300 bg-amber-50 rounded-r-lg px-3 py-2 text-sm text-gray-700 mb-4 line-clamp-4">
+          {quote}
+        </blockquote>
+
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey) && body.trim()) save()
+            if (e.key === 'Escape') onClose()
+          }}
+          placeholder="Write your note..."
+          rows={5}
+          autoFocus
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+        />
+
+        {error && (
+          <p className="text-sm text-red-700 mt-2">{error}</p>
+        )}
+
+        <div className="flex justify-end gap-3 mt-4">
+          <button
+            onClick={onClose}
+            disabled={saving}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={saving || !body.trim()}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save note'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
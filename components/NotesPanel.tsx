@@ -0,0 +1,98 @@
+'use client'
+
+import { formatTimestamp } from '@/lib/transcript'
+import { isNoteOrphaned, type ResolvedNote } from '@/lib/notes'
+import type { TranscriptSegment } from '@/lib/types'
+
+interface NotesPanelProps {
+  notes: ResolvedNote[]
+  segments: TranscriptSegment[]
+  onJump: (resolved: ResolvedNote) => void
+  onEdit: (resolved: ResolvedNote) => void
+  onDelete: (resolved: ResolvedNote) => void
+}
+
+function formatNoteDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+// Concept notes first, then transcript notes in reading order, then ones whose text is gone
+function sortNotes(notes: ResolvedNote[]): ResolvedNote[] {
+  const rank = (resolved: ResolvedNote) =>
+    isNoteOrphaned(resolved) ? 2 : resolved.conceptIndex !== undefined ? 0 : 1
+  return [...notes].sort((a, b) =>
+    rank(a) - rank(b)
+    || (a.conceptIndex ?? 0) - (b.conceptIndex ?? 0)
+    || (a.range?.start ?? 0) - (b.range?.start ?? 0)
+  )
+}
+
+export default function NotesPanel({ notes, segments, onJump, onEdit, onDelete }: NotesPanelProps) {
+  if (notes.length === 0) {
+    return (
+      <div className="bg-gray-50 rounded-xl p-12 text-center">
+        <div className="text-4xl mb-4">🗒️</div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">
+          No notes yet
+        </h3>
+        <p className="text-gray-500">
+          Select text in the transcript, or use &ldquo;Add note&rdquo; on a key concept, to attach a note.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {sortNotes(notes).map(resolved => {
+        const { note } = resolved
+        const orphaned = isNoteOrphaned(resolved)
+        const segment = resolved.segmentIndex !== undefined ? segments[resolved.segmentIndex] : undefined
+
+        return (
+          <div key={note.id} className="bg-white rounded-xl border border-gray-200 p-5 shadow-sm">
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-medium text-gray-600 bg-gray-100 px-2 py-1 rounded-full">
+                  {note.anchor_type === 'concept' ? '💡 Concept' : '📝 Transcript'}
+                </span>
+                {segment && (
+                  <span className="font-mono text-blue-600">{formatTimestamp(segment.start_time)}</span>
+                )}
+                {orphaned && (
+                  <span className="text-orange-700 bg-orange-50 px-2 py-1 rounded-full">
+                    Original text no longer found
+                  </span>
+                )}
+              </div>
+              <span className="text-xs text-gray-400">{formatNoteDate(note.updated_at)}</span>
+            </div>
+
+            <blockquote className="border-l-4 border-amber-300 bg-amber-50 rounded-r-lg px-3 py-2 text-sm text-gray-600 mb-3 line-clamp-3">
+              {note.quote}
+            </blockquote>
+            <p className="text-gray-800 whitespace-pre-wrap">{note.body}</p>
+
+            <div className="flex items-center gap-4 mt-3 text-sm">
+              {!orphaned && (
+                <button onClick={() => onJump(resolved)} className="text-blue-600 hover:text-blue-700 font-medium">
+                  Jump to {note.anchor_type === 'concept' ? 'concept' : 'transcript'} →
+                </button>
+              )}
+              <button onClick={() => onEdit(resolved)} className="text-gray-500 hover:text-gray-700">
+                Edit
+              </button>
+              <button onClick={() => onDelete(resolved)} className="text-gray-500 hover:text-red-600">
+                Delete
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
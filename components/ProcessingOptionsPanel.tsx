@@ -0,0 +1,153 @@
+'use client'
+
+import { useState } from 'react'
+import { PROCESSING_LANGUAGES, getLanguageLabel, type ProcessingOptions } from '@/lib/api'
+
+interface ProcessingOptionsPanelProps {
+  value: Required<ProcessingOptions>
+  onChange: (value: Required<ProcessingOptions>) => void
+  onSaveDefaults?: () => Promise<void>
+  hasSlides: boolean
+  disabled?: boolean
+  defaultOpen?: boolean
+}
+
+export default function ProcessingOptionsPanel({
+  value,
+  onChange,
+  onSaveDefaults,
+  hasSlides,
+  disabled,
+  defaultOpen = false,
+}: ProcessingOptionsPanelProps) {
+  const [open, setOpen] = useState(defaultOpen)
+  const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+
+  const update = (patch: Partial<ProcessingOptions>) => {
+    onChange({ ...value, ...patch })
+    setSaveState('idle')
+  }
+
+  const handleSaveDefaults = async () => {
+    if (!onSaveDefaults) return
+    setSaveState('saving')
+    try {
+      await onSaveDefaults()
+      setSaveState('saved')
+    } catch (err) {
+      console.error('[LectureLink] Failed to save processing defaults:', err)
+      setSaveState('error')
+    }
+  }
+
+  const languageLabel = getLanguageLabel(value.language)
+
+  return (
+    <div className="border border-gray-200 rounded-xl">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between px-4 py-3 text-sm"
+      >
+        <span className="font-semibold text-gray-700">⚙️ Advanced</span>
+        <span className="text-gray-500">
+          {languageLabel}
+          {value.use_multimodal && hasSlides ? ' · Multimodal' : ''}
+          {value.use_cross_encoder && hasSlides ? ' · Cross-encoder' : ''}
+          <span className="ml-2">{open ? '▴' : '▾'}</span>
+        </span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4 space-y-4 border-t border-gray-100 pt-4">
+          {/* Language */}
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              Lecture language
+            </label>
+            <select
+              value={value.language}
+              onChange={(e) => update({ language: e.target.value })}
+              disabled={disabled}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {PROCESSING_LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>
+                  {language.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Slide alignment options */}
+          <div className={hasSlides ? '' : 'opacity-50'}>
+            <p className="text-xs font-medium text-gray-500 mb-2">
+              Slide alignment {!hasSlides && '(requires slides)'}
+            </p>
+            <label className="flex items-start gap-2 text-sm text-gray-700 mb-2">
+              <input
+                type="checkbox"
+                checked={value.use_multimodal}
+                onChange={(e) => update({ use_multimodal: e.target.checked })}
+                disabled={disabled || !hasSlides}
+                className="mt-0.5 w-4 h-4 rounded border-gray-300"
+              />
+              <span>
+                Multimodal slide analysis
+                <span className="block text-xs text-gray-400">
+                  Reads diagrams and images on slides, not just their text. Slower.
+                </span>
+              </span>
+            </label>
+            <label className="flex items-start gap-2 text-sm text-gray-700 mb-3">
+              <input
+                type="checkbox"
+                checked={value.use_cross_encoder}
+                onChange={(e) => update({ use_cross_encoder: e.target.checked })}
+                disabled={disabled || !hasSlides}
+                className="mt-0.5 w-4 h-4 rounded border-gray-300"
+              />
+              <span>
+                Cross-encoder re-ranking
+                <span className="block text-xs text-gray-400">
+                  More accurate matching of speech to slides. Slower.
+                </span>
+              </span>
+            </label>
+            <label className="block text-xs font-medium text-gray-500 mb-1">
+              Minimum similarity: {value.min_similarity.toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={value.min_similarity}
+              onChange={(e) => update({ min_similarity: Number(e.target.value) })}
+              disabled={disabled || !hasSlides}
+              className="w-full"
+            />
+            <p className="text-xs text-gray-400">
+              Sentences scoring below this aren&apos;t linked to a slide.
+            </p>
+          </div>
+
+          {onSaveDefaults && (
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={handleSaveDefaults}
+                disabled={disabled || saveState === 'saving'}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+              >
+                {saveState === 'saving' ? 'Saving...' : 'Save as my defaults'}
+              </button>
+              {saveState === 'saved' && <span className="text-xs text-green-600">Saved</span>}
+              {saveState === 'error' && <span className="text-xs text-red-600">Couldn&apos;t save defaults</span>}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import { getScorePercent } from '@/lib/quiz'
+import type { Quiz, QuizAttempt } from '@/lib/types'
+
+interface QuizResultsProps {
+  quiz: Quiz
+  attempt: QuizAttempt
+  // Lets the student overrule the grader on a short answer
+  onAccept: (questionIndex: number) => void
+}
+
+export default function QuizResults({ quiz, attempt, onAccept }: QuizResultsProps) {
+  const percent = getScorePercent(attempt)
+
+  return (
+    <div className="space-y-4">
+      {/* Score */}
+      <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm flex items-center gap-6">
+        <div className={`w-20 h-20 rounded-full flex items-center justify-center text-2xl font-bold ${
+          percent >= 80 ? 'bg-green-100 text-green-700' : percent >= 50 ? 'bg-yellow-100 text-yellow-700' : 'bg-red-100 text-red-700'
+        }`}>
+          {percent}%
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">
+            {attempt.score} of {attempt.total} correct
+          </h2>
+          <p className="text-sm text-gray-500">
+            Review the answers below, then retake the quiz or generate a new one
+          </p>
+        </div>
+      </div>
+
+      {/* Answers */}
+      {quiz.questions.map((question, index) => {
+        const result = attempt.answers.find(answer => answer.question_index === index)
+        const correct = !!result?.correct
+        const given = result?.answer ?? null
+
+        return (
+          <div
+            key={index}
+            className={`bg-white rounded-xl border p-6 shadow-sm ${correct ? 'border-green-200' : 'border-red-200'}`}
+          >
+            <div className="flex items-start justify-between gap-4 mb-3">
+              <p className="text-gray-900 font-medium">
+                <span className="mr-2">{correct ? '✅' : '❌'}</span>
+                {question.question}
+              </p>
+              {!correct && question.type === 'short_answer' && given !== null && given !== '' && (
+                <button
+                  onClick={() => onAccept(index)}
+                  className="text-xs text-gray-500 hover:text-gray-700 flex-shrink-0"
+                >
+                  I was right
+                </button>
+              )}
+            </div>
+
+            {question.type === 'multiple_choice' ? (
+              <div className="space-y-1 text-sm">
+                {question.options.map((option, optionIndex) => (
+                  <p
+                    key={optionIndex}
+                    className={`px-3 py-1.5 rounded-lg ${
+                      optionIndex === question.correct_index
+                        ? 'bg-green-50 text-green-800 font-medium'
+                        : optionIndex === given
+                        ? 'bg-red-50 text-red-700 line-through'
+                        : 'text-gray-600'
+                    }`}
+                  >
+                    {option}
+                  </p>
+                ))}
+              </div>
+            ) : (
+              <div className="space-y-1 text-sm">
+                <p className={correct ? 'text-green-800' : 'text-red-700'}>
+                  <span className="text-gray-500">Your answer:</span> {given || <em>No answer</em>}
+                </p>
+                {!correct && (
+                  <p className="text-green-800">
+                    <span className="text-gray-500">Answer:</span> {question.answer}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {question.explanation && (
+              <p className="mt-3 bg-gray-50 rounded-lg p-3 text-sm text-gray-600">{question.explanation}</p>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
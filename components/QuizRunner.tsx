@@ -0,0 +1,95 @@
+'use client'
+
+import { useState } from 'react'
+import type { Quiz, QuizAnswer } from '@/lib/types'
+
+interface QuizRunnerProps {
+  quiz: Quiz
+  submitting: boolean
+  onSubmit: (responses: Array<QuizAnswer['answer']>) => void
+  onCancel: () => void
+}
+
+export default function QuizRunner({ quiz, submitting, onSubmit, onCancel }: QuizRunnerProps) {
+  const [responses, setResponses] = useState<Array<QuizAnswer['answer']>>(() => quiz.questions.map(() => null))
+
+  const setResponse = (index: number, value: QuizAnswer['answer']) => {
+    setResponses(prev => prev.map((response, i) => i === index ? value : response))
+  }
+
+  const answered = responses.filter(response => response !== null && response !== '').length
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSubmit(responses)
+      }}
+      className="space-y-4"
+    >
+      {quiz.questions.map((question, index) => (
+        <fieldset key={index} className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+          <legend className="sr-only">Question {index + 1}</legend>
+          <p className="text-gray-900 font-medium mb-4">
+            <span className="text-blue-500 mr-2">{index + 1}.</span>
+            {question.question}
+          </p>
+
+          {question.type === 'multiple_choice' ? (
+            <div className="space-y-2">
+              {question.options.map((option, optionIndex) => (
+                <label
+                  key={optionIndex}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition ${
+                    responses[index] === optionIndex
+                      ? 'border-blue-500 bg-blue-50'
+                      : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name={`question-${index}`}
+                    checked={responses[index] === optionIndex}
+                    onChange={() => setResponse(index, optionIndex)}
+                    className="mt-1"
+                  />
+                  <span className="text-gray-700">{option}</span>
+                </label>
+              ))}
+            </div>
+          ) : (
+            <input
+              type="text"
+              value={(responses[index] as string | null) || ''}
+              onChange={(e) => setResponse(index, e.target.value)}
+              placeholder="Your answer"
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition"
+            />
+          )}
+        </fieldset>
+      ))}
+
+      <div className="flex items-center justify-between bg-white rounded-xl border border-gray-200 p-4 shadow-sm">
+        <span className="text-sm text-gray-500">
+          {answered} of {quiz.questions.length} answered
+        </span>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {submitting ? 'Saving...' : 'Submit answers'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { getScorePercent } from '@/lib/quiz'
+import type { QuizAttempt } from '@/lib/types'
+
+// Bars shown in the chart; older attempts still count towards best/average
+const MAX_BARS = 12
+
+interface QuizScoreTrendProps {
+  // Oldest first
+  attempts: QuizAttempt[]
+}
+
+function formatAttemptDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export default function QuizScoreTrend({ attempts }: QuizScoreTrendProps) {
+  if (attempts.length === 0) return null
+
+  const percents = attempts.map(getScorePercent)
+  const latest = percents[percents.length - 1]
+  const best = Math.max(...percents)
+  const average = Math.round(percents.reduce((total, percent) => total + percent, 0) / percents.length)
+  const change = percents.length > 1 ? latest - percents[0] : null
+  const recent = attempts.slice(-MAX_BARS)
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">📈 Score History</h2>
+
+      <div className="grid grid-cols-4 gap-4 mb-6">
+        <div>
+          <p className="text-xs text-gray-500">Latest</p>
+          <p className="text-xl font-bold text-gray-900">{latest}%</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Best</p>
+          <p className="text-xl font-bold text-gray-900">{best}%</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Average</p>
+          <p className="text-xl font-bold text-gray-900">{average}%</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Since first</p>
+          <p className={`text-xl font-bold ${
+            change === null || change === 0 ? 'text-gray-900' : change > 0 ? 'text-green-600' : 'text-red-600'
+          }`}>
+            {change === null ? '—' : `${change > 0 ? '+' : ''}${change}%`}
+          </p>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <div className="flex items-end gap-2 h-32">
+        {recent.map(attempt => {
+          const percent = getScorePercent(attempt)
+          return (
+            <div
+              key={attempt.id}
+              className="flex-1 flex flex-col items-center justify-end h-full"
+              title={`${formatAttemptDate(attempt.created_at)}: ${attempt.score}/${attempt.total}`}
+            >
+              <span className="text-xs text-gray-500 mb-1">{percent}%</span>
+              <div
+                className={`w-full rounded-t ${
+                  percent >= 80 ? 'bg-green-400' : percent >= 50 ? 'bg-yellow-400' : 'bg-red-400'
+                }`}
+                style={{ height: `${Math.max(percent, 2)}%` }}
+              />
+            </div>
+          )
+        })}
+      </div>
+      <div className="flex gap-2 mt-1">
+        {recent.map(attempt => (
+          <span key={attempt.id} className="flex-1 text-center text-[10px] text-gray-400 truncate">
+            {formatAttemptDate(attempt.created_at)}
+          </span>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import ReprocessDialog from '@/components/ReprocessDialog'
+import type { Lecture } from '@/lib/types'
+
+interface ReprocessButtonProps {
+  lecture: Pick<Lecture, 'id' | 'title' | 'audio_path' | 'slides_path' | 'files_error' | 'processing_options'>
+}
+
+// Retry link for failed lectures in server-rendered lists
+export default function ReprocessButton({ lecture }: ReprocessButtonProps) {
+  const router = useRouter()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="text-xs font-medium text-blue-600 hover:text-blue-700"
+      >
+        Retry
+      </button>
+      {open && (
+        <ReprocessDialog
+          lecture={lecture}
+          onClose={() => setOpen(false)}
+          onStarted={() => router.push(`/lecture/${lecture.id}`)}
+        />
+      )}
+    </>
+  )
+}
@@ -0,0 +1,103 @@
+'use client'
+
+import { useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { DEFAULT_PROCESSING_OPTIONS, type ProcessingOptions } from '@/lib/api'
+import { reprocessLecture } from '@/lib/lecture-jobs'
+import { formatFileSize } from '@/lib/files'
+import ProcessingOptionsPanel from '@/components/ProcessingOptionsPanel'
+import type { Lecture } from '@/lib/types'
+
+interface ReprocessDialogProps {
+  lecture: Pick<Lecture, 'id' | 'title' | 'audio_path' | 'slides_path' | 'files_error' | 'processing_options'>
+  onClose: () => void
+  onStarted: (jobId: string) => void
+}
+
+export default function ReprocessDialog({ lecture, onClose, onStarted }: ReprocessDialogProps) {
+  const supabase = createClient()
+  const [options, setOptions] = useState<Required<ProcessingOptions>>({
+    ...DEFAULT_PROCESSING_OPTIONS,
+    ...lecture.processing_options,
+  })
+  const [busy, setBusy] = useState(false)
+  const [statusMessage, setStatusMessage] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleReprocess = async () => {
+    setBusy(true)
+    setError(null)
+    setStatusMessage('Fetching original files...')
+
+    try {
+      const { jobId } = await reprocessLecture(supabase, lecture, options, {
+        onUploadProgress: ({ loaded, total }) => {
+          setStatusMessage(`Uploading audio... ${formatFileSize(loaded)} of ${formatFileSize(total)}`)
+        },
+      })
+      onStarted(jobId)
+    } catch (err) {
+      console.error('[LectureLink] Reprocessing failed to start:', err)
+      setError(err instanceof Error ? err.message : 'Failed to start processing')
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Retry processing</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          &ldquo;{lecture.title}&rdquo; will be processed again from its original
+          {lecture.slides_path ? ' audio and slides' : ' audio'}. Your notes stay attached to the lecture.
+        </p>
+
+        {!lecture.audio_path ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-yellow-800">
+              {lecture.files_error || 'The original audio for this lecture wasn\'t saved'}, so it can&apos;t be reprocessed.
+              Upload it again as a new lecture instead.
+            </p>
+          </div>
+        ) : (
+          <div className="mb-6">
+            <ProcessingOptionsPanel
+              value={options}
+              onChange={setOptions}
+              hasSlides={!!lecture.slides_path}
+              disabled={busy}
+              defaultOpen
+            />
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {busy && (
+          <p className="text-sm text-gray-500 mb-4">{statusMessage}</p>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={busy}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleReprocess}
+            disabled={busy || !lecture.audio_path}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? 'Starting...' : '🔄 Retry processing'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
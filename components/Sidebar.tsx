@@ -3,12 +3,15 @@
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase'
+import { useUploadQueue } from '@/components/UploadQueueProvider'
+import type { Course } from '@/lib/types'
 
 interface NavItem {
   name: string
   href: string
   icon: string
   active?: boolean
+  badge?: number
 }
 
 interface SidebarProps {
@@ -19,12 +22,14 @@ interface SidebarProps {
       avatar_url?: string
     }
   }
+  courses: Pick<Course, 'id' | 'name' | 'code' | 'color'>[]
 }
 
-export default function Sidebar({ user }: SidebarProps) {
+export default function Sidebar({ user, courses }: SidebarProps) {
   const pathname = usePathname()
   const router = useRouter()
   const supabase = createClient()
+  const { activeCount } = useUploadQueue()
 
   const navigation: NavItem[] = [
     { 
@@ -33,12 +38,43 @@ export default function Sidebar({ user }: SidebarProps) {
       icon: '📊',
       active: pathname === '/dashboard'
     },
+    { 
+      name: 'Lectures', 
+      href: '/lectures', 
+      icon: '📚',
+      active: pathname === '/lectures'
+    },
     { 
       name: 'New Lecture', 
       href: '/record', 
       icon: '📤',
       active: pathname === '/record'
     },
+    { 
+      name: 'Batch Upload', 
+      href: '/record/batch', 
+      icon: '📥',
+      active: pathname === '/record/batch',
+      badge: activeCount,
+    },
+    { 
+      name: 'Courses', 
+      href: '/courses', 
+      icon: '🎓',
+      active: pathname === '/courses'
+    },
+    { 
+      name: 'Search', 
+      href: '/search', 
+      icon: '🔍',
+      active: pathname === '/search'
+    },
+    { 
+      name: 'Flashcards', 
+      href: '/flashcards', 
+      icon: '🃏',
+      active: pathname === '/flashcards'
+    },
   ]
 
   const handleSignOut = async () => {
@@ -62,7 +98,7 @@ export default function Sidebar({ user }: SidebarProps) {
       </div>
 
       {/* Navigation */}
-      <nav className="flex-1 px-3 py-4 space-y-1">
+      <nav className="flex-1 px-3 py-4 space-y-1 overflow-y-auto">
         {navigation.map((item) => (
           <Link
             key={item.name}
@@ -77,8 +113,39 @@ export default function Sidebar({ user }: SidebarProps) {
           >
             <span className="text-xl">{item.icon}</span>
             <span>{item.name}</span>
+            {!!item.badge && (
+              <span className="ml-auto text-xs font-semibold bg-blue-600 text-white rounded-full px-2 py-0.5">
+                {item.badge}
+              </span>
+            )}
           </Link>
         ))}
+
+        {/* Courses */}
+        {courses.length > 0 && (
+          <div className="pt-4">
+            <p className="px-3 pb-2 text-xs font-semibold text-gray-400 uppercase tracking-wide">
+              My Courses
+            </p>
+            {courses.map(course => (
+              <Link
+                key={course.id}
+                href={`/courses/${course.id}`}
+                title={course.code ? `${course.code} - ${course.name}` : course.name}
+                className={`
+                  flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors
+                  ${pathname === `/courses/${course.id}`
+                    ? 'bg-blue-50 text-blue-600 font-medium'
+                    : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                  }
+                `}
+              >
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: course.color }} />
+                <span className="truncate">{course.code || course.name}</span>
+              </Link>
+            ))}
+          </div>
+        )}
       </nav>
 
       {/* User Section */}
@@ -0,0 +1,128 @@
+'use client'
+
+import { useMemo } from 'react'
+import { formatTimestamp } from '@/lib/transcript'
+import type { LectureSlide, TranscriptSegment } from '@/lib/types'
+
+interface SlidesViewProps {
+  slides: LectureSlide[]
+  segments: TranscriptSegment[]
+  selectedSlide: number
+  onSelectSlide: (slideNumber: number) => void
+  // With a player, clicking a sentence plays from there
+  onSeek?: (time: number) => void
+}
+
+export default function SlidesView({ slides, segments, selectedSlide, onSelectSlide, onSeek }: SlidesViewProps) {
+  // Sentences grouped by the slide they were aligned to
+  const segmentsBySlide = useMemo(() => {
+    const groups = new Map<number, TranscriptSegment[]>()
+    for (const segment of segments) {
+      if (segment.slide_number == null) continue
+      const group = groups.get(segment.slide_number) || []
+      group.push(segment)
+      groups.set(segment.slide_number, group)
+    }
+    return groups
+  }, [segments])
+
+  const index = Math.max(0, slides.findIndex(slide => slide.slide_number === selectedSlide))
+  const slide = slides[index]
+  const spoken = segmentsBySlide.get(slide.slide_number) || []
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+      {/* Slide List */}
+      <nav className="bg-white rounded-xl border border-gray-200 shadow-sm p-2 max-h-[600px] overflow-y-auto">
+        {slides.map(item => (
+          <button
+            key={item.id}
+            onClick={() => onSelectSlide(item.slide_number)}
+            className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center gap-2 transition ${
+              item.slide_number === slide.slide_number
+                ? 'bg-blue-50 text-blue-700 font-medium'
+                : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <span className="text-xs text-gray-400 w-6 flex-shrink-0">{item.slide_number}</span>
+            <span className="truncate">{item.title || `Slide ${item.slide_number}`}</span>
+            {segmentsBySlide.has(item.slide_number) && (
+              <span className="ml-auto text-xs text-gray-400 flex-shrink-0">
+                {segmentsBySlide.get(item.slide_number)?.length}
+              </span>
+            )}
+          </button>
+        ))}
+      </nav>
+
+      <div className="lg:col-span-3 space-y-6">
+        {/* Slide */}
+        <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <p className="text-xs font-medium text-gray-400">
+                Slide {slide.slide_number} of {slides.length}
+              </p>
+              <h2 className="text-xl font-bold text-gray-900">
+                {slide.title || `Slide ${slide.slide_number}`}
+              </h2>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => onSelectSlide(slides[index - 1].slide_number)}
+                disabled={index === 0}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+              >
+                ← Prev
+              </button>
+              <button
+                onClick={() => onSelectSlide(slides[index + 1].slide_number)}
+                disabled={index === slides.length - 1}
+                className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+              >
+                Next →
+              </button>
+            </div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-6">
+            {slide.content ? (
+              <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">{slide.content}</p>
+            ) : (
+              <p className="text-gray-400 text-sm">No text was extracted from this slide.</p>
+            )}
+          </div>
+        </section>
+
+        {/* Aligned Transcript */}
+        <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+          <h3 className="font-semibold text-gray-900 mb-1">🗣️ What was said</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Transcript aligned to this slide
+          </p>
+          {spoken.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              {segmentsBySlide.size === 0
+                ? 'This lecture was processed without slide alignment.'
+                : 'No part of the transcript was matched to this slide.'}
+            </p>
+          ) : (
+            <div className="space-y-1 max-h-[400px] overflow-y-auto">
+              {spoken.map(segment => (
+                <div
+                  key={segment.id}
+                  onClick={() => onSeek?.(segment.start_time)}
+                  className={`flex items-start gap-4 px-2 py-1.5 rounded-lg ${onSeek ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                >
+                  <span className="text-xs font-mono text-blue-600 pt-1 w-16 flex-shrink-0">
+                    {formatTimestamp(segment.start_time)}
+                  </span>
+                  <p className="flex-1 text-gray-700 leading-relaxed">{segment.text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
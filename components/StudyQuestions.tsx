@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { findRelatedNotes, normalizeStudyQuestion } from '@/lib/study'
+import type { Definition, KeyConcept, StudyQuestion } from '@/lib/types'
+
+interface StudyQuestionsProps {
+  questions: StudyQuestion[]
+  concepts: KeyConcept[]
+  definitions: Definition[]
+}
+
+export default function StudyQuestions({ questions, concepts, definitions }: StudyQuestionsProps) {
+  const [revealed, setRevealed] = useState<Set<number>>(new Set())
+
+  const toggle = (index: number) => {
+    setRevealed(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const allRevealed = revealed.size === questions.length
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-indigo-100 rounded-lg flex items-center justify-center">
+            <span className="text-xl">❓</span>
+          </div>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Study Questions</h2>
+            <p className="text-sm text-gray-500">
+              Try answering before revealing
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setRevealed(allRevealed ? new Set() : new Set(questions.map((_, index) => index)))}
+          className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+        >
+          {allRevealed ? 'Hide all' : 'Reveal all'}
+        </button>
+      </div>
+
+      <ol className="space-y-3">
+        {questions.map((item, index) => {
+          const { question, answer } = normalizeStudyQuestion(item)
+          const isRevealed = revealed.has(index)
+          const related = isRevealed && !answer ? findRelatedNotes(question, concepts, definitions) : []
+
+          return (
+            <li key={index} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between gap-4">
+                <p className="text-gray-900 font-medium">
+                  <span className="text-indigo-500 mr-2">{index + 1}.</span>
+                  {question}
+                </p>
+                <button
+                  onClick={() => toggle(index)}
+                  className="text-sm text-indigo-600 hover:text-indigo-700 font-medium flex-shrink-0"
+                >
+                  {isRevealed ? 'Hide' : 'Reveal answer'}
+                </button>
+              </div>
+
+              {isRevealed && (
+                <div className="mt-3 bg-indigo-50 rounded-lg p-3 text-sm text-gray-700">
+                  {answer ? (
+                    <p>{answer}</p>
+                  ) : related.length > 0 ? (
+                    <>
+                      <p className="text-xs font-medium text-gray-500 mb-2">From this lecture:</p>
+                      <div className="space-y-2">
+                        {related.map(note => (
+                          <p key={note.title}>
+                            <span className="font-semibold">{note.title}:</span> {note.text}
+                          </p>
+                        ))}
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-gray-500">
+                      No model answer for this question - check your answer against the transcript.
+                    </p>
+                  )}
+                </div>
+              )}
+            </li>
+          )
+        })}
+      </ol>
+    </section>
+  )
+}
@@ -0,0 +1,202 @@
+'use client'
+
+import type { ActionItem, Definition, KeyConcept, SummaryContent } from '@/lib/types'
+
+interface SummaryEditorProps {
+  // Which tab's sections to show: overview, takeaways and action items, or concepts and definitions
+  section: 'summary' | 'keypoints'
+  content: SummaryContent
+  onChange: (content: SummaryContent) => void
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition'
+
+function SectionHeader({ icon, title, onAdd }: { icon: string; title: string; onAdd?: () => void }) {
+  return (
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+        <span>{icon}</span> {title}
+      </h2>
+      {onAdd && (
+        <button
+          onClick={onAdd}
+          className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+        >
+          + Add
+        </button>
+      )}
+    </div>
+  )
+}
+
+function DeleteButton({ onClick }: { onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      title="Delete"
+      className="px-2 py-1 text-sm text-gray-400 hover:text-red-600 flex-shrink-0"
+    >
+      ✕
+    </button>
+  )
+}
+
+export default function SummaryEditor({ section, content, onChange }: SummaryEditorProps) {
+  const update = <K extends keyof SummaryContent>(key: K, value: SummaryContent[K]) => {
+    onChange({ ...content, [key]: value })
+  }
+
+  // Replace or delete (value null) one entry of a list field
+  const updateItem = <T,>(list: T[], index: number, value: T | null): T[] =>
+    value === null ? list.filter((_, i) => i !== index) : list.map((item, i) => i === index ? value : item)
+
+  if (section === 'summary') {
+    return (
+      <div className="space-y-8">
+        {/* Overview */}
+        <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+          <SectionHeader icon="📝" title="Overview" />
+          <textarea
+            value={content.summary || ''}
+            onChange={(e) => update('summary', e.target.value)}
+            rows={6}
+            className={inputClass}
+          />
+        </section>
+
+        {/* Key Takeaways */}
+        <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+          <SectionHeader
+            icon="⭐"
+            title="Key Takeaways"
+            onAdd={() => update('important_points', [...content.important_points, ''])}
+          />
+          <div className="space-y-2">
+            {content.important_points.map((point, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={point}
+                  onChange={(e) => update('important_points', updateItem(content.important_points, index, e.target.value))}
+                  className={inputClass}
+                />
+                <DeleteButton onClick={() => update('important_points', updateItem(content.important_points, index, null))} />
+              </div>
+            ))}
+          </div>
+        </section>
+
+        {/* Action Items */}
+        <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+          <SectionHeader
+            icon="📌"
+            title="Action Items"
+            onAdd={() => update('action_items', [...content.action_items, { item: '' }])}
+          />
+          <div className="space-y-2">
+            {content.action_items.map((item: ActionItem, index: number) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={item.item || ''}
+                  onChange={(e) => update('action_items', updateItem(content.action_items, index, { ...item, item: e.target.value }))}
+                  placeholder="Task"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={item.due_date || ''}
+                  onChange={(e) => update('action_items', updateItem(content.action_items, index, { ...item, due_date: e.target.value || undefined }))}
+                  placeholder="Due"
+                  className={`${inputClass} max-w-[160px]`}
+                />
+                <DeleteButton onClick={() => update('action_items', updateItem(content.action_items, index, null))} />
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Key Concepts */}
+      <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <SectionHeader
+          icon="💡"
+          title="Key Concepts"
+          onAdd={() => update('key_concepts', [...content.key_concepts, { id: crypto.randomUUID(), name: '', explanation: '', importance: 'medium' }])}
+        />
+        <div className="space-y-4">
+          {content.key_concepts.map((concept: KeyConcept, index: number) => (
+            <div key={index} className="border-l-4 border-blue-500 bg-blue-50 rounded-r-lg p-4 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={concept.name || ''}
+                  onChange={(e) => update('key_concepts', updateItem(content.key_concepts, index, { ...concept, name: e.target.value }))}
+                  placeholder="Concept"
+                  className={`${inputClass} font-semibold bg-white`}
+                />
+                <select
+                  value={concept.importance || ''}
+                  onChange={(e) => update('key_concepts', updateItem(content.key_concepts, index, {
+                    ...concept,
+                    importance: (e.target.value || undefined) as KeyConcept['importance'],
+                  }))}
+                  className="px-2 py-2 border border-gray-300 rounded-lg text-sm bg-white"
+                >
+                  <option value="">No importance</option>
+                  <option value="high">high</option>
+                  <option value="medium">medium</option>
+                  <option value="low">low</option>
+                </select>
+                <DeleteButton onClick={() => update('key_concepts', updateItem(content.key_concepts, index, null))} />
+              </div>
+              <textarea
+                value={concept.explanation || ''}
+                onChange={(e) => update('key_concepts', updateItem(content.key_concepts, index, { ...concept, explanation: e.target.value }))}
+                placeholder="Explanation"
+                rows={3}
+                className={`${inputClass} bg-white`}
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Definitions */}
+      <section className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm">
+        <SectionHeader
+          icon="📖"
+          title="Definitions"
+          onAdd={() => update('definitions', [...content.definitions, { id: crypto.randomUUID(), term: '', definition: '' }])}
+        />
+        <div className="space-y-4">
+          {content.definitions.map((definition: Definition, index: number) => (
+            <div key={index} className="border-l-4 border-purple-500 bg-purple-50 rounded-r-lg p-4 space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={definition.term}
+                  onChange={(e) => update('definitions', updateItem(content.definitions, index, { ...definition, term: e.target.value }))}
+                  placeholder="Term"
+                  className={`${inputClass} font-semibold bg-white`}
+                />
+                <DeleteButton onClick={() => update('definitions', updateItem(content.definitions, index, null))} />
+              </div>
+              <textarea
+                value={definition.definition}
+                onChange={(e) => update('definitions', updateItem(content.definitions, index, { ...definition, definition: e.target.value }))}
+                placeholder="Definition"
+                rows={2}
+                className={`${inputClass} bg-white`}
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  )
+}
@@ -0,0 +1,168 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import {
+  compareSummaryContent,
+  loadSummaryRevisions,
+  REVISION_SOURCE_LABELS,
+  SUMMARY_SECTION_LABELS,
+  type SummaryChange,
+} from '@/lib/summary-revisions'
+import type { SummaryContent, SummaryRevision } from '@/lib/types'
+
+interface SummaryHistoryProps {
+  lectureId: string
+  current: SummaryContent
+  onRestore: (content: SummaryContent) => Promise<void>
+  onClose: () => void
+}
+
+const CHANGE_STYLES: Record<SummaryChange['kind'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-700' },
+  changed: { label: 'Changed', className: 'bg-yellow-100 text-yellow-700' },
+}
+
+function formatRevisionDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+export default function SummaryHistory({ lectureId, current, onRestore, onClose }: SummaryHistoryProps) {
+  const supabase = createClient()
+  const [revisions, setRevisions] = useState<SummaryRevision[] | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSummaryRevisions(supabase, lectureId)
+      .then(data => {
+        setRevisions(data)
+        // Start on the latest AI version, the usual thing to compare against
+        setSelectedId((data.find(revision => revision.source === 'ai') || data[0])?.id || null)
+      })
+      .catch(err => {
+        console.error('[LectureLink] Failed to load summary history:', err)
+        setError('The version history couldn\'t be loaded')
+        setRevisions([])
+      })
+  }, [supabase, lectureId])
+
+  const selected = revisions?.find(revision => revision.id === selectedId)
+  const changes = selected ? compareSummaryContent(selected.content, current) : []
+
+  const restore = async () => {
+    if (!selected) return
+    setRestoring(true)
+    setError(null)
+    try {
+      await onRestore(selected.content)
+      onClose()
+    } catch (err) {
+      console.error('[LectureLink] Failed to restore summary:', err)
+      setError('This version couldn\'t be restored. Please try again.')
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Summary history</h2>
+            <p className="text-sm text-gray-500">Compare an earlier version with the current summary, or restore it</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl">✕</button>
+        </div>
+
+        {error && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 grid grid-cols-3">
+          {/* Versions */}
+          <nav className="border-r border-gray-200 overflow-y-auto p-2">
+            {revisions === null ? (
+              <p className="p-4 text-sm text-gray-500">Loading...</p>
+            ) : revisions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No earlier versions yet. Versions are saved each time the summary is edited.</p>
+            ) : (
+              revisions.map((revision, index) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition ${
+                    revision.id === selectedId ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="font-medium">{REVISION_SOURCE_LABELS[revision.source]}</span>
+                  {index === 0 && <span className="ml-2 text-xs text-gray-400">current</span>}
+                  <span className="block text-xs text-gray-400">{formatRevisionDate(revision.created_at)}</span>
+                </button>
+              ))
+            )}
+          </nav>
+
+          {/* Changes */}
+          <div className="col-span-2 overflow-y-auto p-6">
+            {selected && (
+              changes.length === 0 ? (
+                <p className="text-sm text-gray-500">This version is the same as the current summary.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-500 mb-4">
+                    Changes from this version to the current summary
+                  </p>
+                  <div className="space-y-3">
+                    {changes.map((change, index) => (
+                      <div key={index} className="border border-gray-200 rounded-lg p-3 text-sm">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${CHANGE_STYLES[change.kind].className}`}>
+                            {CHANGE_STYLES[change.kind].label}
+                          </span>
+                          <span className="text-xs text-gray-400">{SUMMARY_SECTION_LABELS[change.section]}</span>
+                        </div>
+                        <p className="font-medium text-gray-900">{change.label}</p>
+                        {change.before && (
+                          <p className="mt-1 text-red-700 bg-red-50 rounded px-2 py-1 whitespace-pre-wrap">{change.before}</p>
+                        )}
+                        {change.after && (
+                          <p className="mt-1 text-green-800 bg-green-50 rounded px-2 py-1 whitespace-pre-wrap">{change.after}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition"
+          >
+            Close
+          </button>
+          <button
+            onClick={restore}
+            disabled={!selected || changes.length === 0 || restoring}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {restoring ? 'Restoring...' : 'Restore this version'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+'use client'
+
+import type { TextSearchOptions } from '@/lib/text-search'
+
+interface TranscriptSearchBarProps {
+  query: string
+  onQueryChange: (query: string) => void
+  options: TextSearchOptions
+  onOptionsChange: (options: TextSearchOptions) => void
+  matchCount: number
+  // Zero-based; -1 when there are no matches
+  currentMatch: number
+  onNext: () => void
+  onPrevious: () => void
+}
+
+export default function TranscriptSearchBar({
+  query,
+  onQueryChange,
+  options,
+  onOptionsChange,
+  matchCount,
+  currentMatch,
+  onNext,
+  onPrevious,
+}: TranscriptSearchBarProps) {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (e.shiftKey) onPrevious()
+      else onNext()
+    } else if (e.key === 'Escape') {
+      onQueryChange('')
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-4">
+      <div className="relative flex-1 min-w-[200px]">
+        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">🔍</span>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Find in transcript"
+          className="w-full pl-9 pr-20 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        {query.trim() && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gray-500">
+            {matchCount === 0 ? 'No matches' : `${currentMatch + 1} of ${matchCount}`}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={onPrevious}
+          disabled={matchCount === 0}
+          title="Previous match (Shift+Enter)"
+          className="px-2.5 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+        >
+          ↑
+        </button>
+        <button
+          onClick={onNext}
+          disabled={matchCount === 0}
+          title="Next match (Enter)"
+          className="px-2.5 py-1.5 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+        >
+          ↓
+        </button>
+      </div>
+
+      <label className="flex items-center gap-1.5 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={options.caseSensitive}
+          onChange={(e) => onOptionsChange({ ...options, caseSensitive: e.target.checked })}
+          className="w-4 h-4 rounded border-gray-300"
+        />
+        Match case
+      </label>
+      <label className="flex items-center gap-1.5 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={options.wholeWord}
+          onChange={(e) => onOptionsChange({ ...options, wholeWord: e.target.checked })}
+          className="w-4 h-4 rounded border-gray-300"
+        />
+        Whole word
+      </label>
+    </div>
+  )
+}
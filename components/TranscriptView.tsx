@@ -0,0 +1,246 @@
+'use client'
+
+import { Fragment, useEffect, useMemo, useRef, useState } from 'react'
+import { findSegmentIndexAt, formatTimestamp, getTimestampLink } from '@/lib/transcript'
+import type { TextMatch } from '@/lib/text-search'
+import HighlightedText from '@/components/HighlightedText'
+import type { LectureNote, TranscriptSegment } from '@/lib/types'
+
+// A point in the transcript: a character offset within one sentence
+export interface TranscriptPoint {
+  segmentIndex: number
+  offset: number
+}
+
+export interface TranscriptSelection {
+  start: TranscriptPoint
+  end: TranscriptPoint
+  // Where the selection is on screen, for placing an "Add note" button
+  rect: DOMRect
+}
+
+// Offset of a DOM selection point within the sentence text it falls in
+function getTranscriptPoint(node: Node, offset: number): TranscriptPoint | null {
+  const element = (node instanceof Element ? node : node.parentElement)?.closest('[data-segment-index]')
+  if (!element) return null
+
+  const range = document.createRange()
+  range.setStart(element, 0)
+  range.setEnd(node, offset)
+  return { segmentIndex: Number(element.getAttribute('data-segment-index')), offset: range.toString().length }
+}
+
+interface TranscriptViewProps {
+  lectureId: string
+  segments: TranscriptSegment[]
+  // From a ?t= deep link: highlight and scroll to the sentence at this time
+  initialTime?: number | null
+  // Playback position; the sentence being spoken is highlighted
+  activeTime?: number | null
+  // With a player, clicking a sentence seeks to it instead of copying it
+  onSeek?: (time: number) => void
+  // Shows a marker wherever the aligned slide changes
+  onOpenSlide?: (slideNumber: number) => void
+  // Search matches per segment, and the overall index of the current one
+  matches?: TextMatch[][]
+  currentMatch?: number
+  // Notes by the sentence they start in, shown as margin markers
+  notes?: Map<number, LectureNote[]>
+  // Called with the selected text range, or null when the selection is cleared
+  onSelectText?: (selection: TranscriptSelection | null) => void
+}
+
+export default function TranscriptView({
+  lectureId,
+  segments,
+  initialTime,
+  activeTime,
+  onSeek,
+  onOpenSlide,
+  matches,
+  currentMatch = -1,
+  notes,
+  onSelectText,
+}: TranscriptViewProps) {
+  const [copied, setCopied] = useState<string | null>(null)
+  const [openNotes, setOpenNotes] = useState<Set<number>>(new Set())
+  const containerRef = useRef<HTMLDivElement>(null)
+  const segmentRefs = useRef<Map<number, HTMLDivElement>>(new Map())
+  const copiedTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+
+  const linkedIndex = initialTime != null ? findSegmentIndexAt(segments, initialTime) : -1
+  const activeIndex = activeTime != null ? findSegmentIndexAt(segments, activeTime) : -1
+
+  // Indexes of sentences where a different slide comes on screen
+  const slideStarts = useMemo(() => {
+    const starts = new Set<number>()
+    let current: number | null = null
+    segments.forEach((segment, index) => {
+      if (segment.slide_number != null && segment.slide_number !== current) {
+        starts.add(index)
+        current = segment.slide_number
+      }
+    })
+    return starts
+  }, [segments])
+
+  // Overall index of each segment's first search match
+  const matchOffsets = useMemo(() => {
+    const offsets: number[] = []
+    let total = 0
+    for (const segmentMatches of matches || []) {
+      offsets.push(total)
+      total += segmentMatches.length
+    }
+    return offsets
+  }, [matches])
+
+  // Bring the deep-linked sentence into view
+  useEffect(() => {
+    if (linkedIndex < 0) return
+    const container = containerRef.current
+    const element = segmentRefs.current.get(linkedIndex)
+    if (container && element) {
+      container.scrollTop = element.offsetTop - container.clientHeight / 3
+    }
+  }, [linkedIndex])
+
+  // Follow playback, but only scroll when the sentence has left the view
+  useEffect(() => {
+    if (activeIndex < 0) return
+    const container = containerRef.current
+    const element = segmentRefs.current.get(activeIndex)
+    if (!container || !element) return
+
+    const top = element.offsetTop
+    const visible = top >= container.scrollTop && top + element.offsetHeight <= container.scrollTop + container.clientHeight
+    if (!visible) {
+      container.scrollTop = top - container.clientHeight / 3
+    }
+  }, [activeIndex])
+
+  useEffect(() => {
+    return () => {
+      if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current)
+    }
+  }, [])
+
+  const copy = async (key: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(key)
+      if (copiedTimeoutRef.current) clearTimeout(copiedTimeoutRef.current)
+      copiedTimeoutRef.current = setTimeout(() => setCopied(null), 1500)
+    } catch (err) {
+      console.error('[LectureLink] Failed to copy to clipboard:', err)
+    }
+  }
+
+  const toggleNotes = (index: number) => {
+    setOpenNotes(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const handleMouseUp = () => {
+    if (!onSelectText) return
+    const selection = window.getSelection()
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+      onSelectText(null)
+      return
+    }
+
+    const range = selection.getRangeAt(0)
+    const start = getTranscriptPoint(range.startContainer, range.startOffset)
+    const end = getTranscriptPoint(range.endContainer, range.endOffset)
+    onSelectText(start && end ? { start, end, rect: range.getBoundingClientRect() } : null)
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onMouseUp={handleMouseUp}
+      className="bg-gray-50 rounded-lg p-4 max-h-[600px] overflow-y-auto relative"
+    >
+      {segments.map((segment, index) => (
+        <Fragment key={segment.id}>
+          {onOpenSlide && slideStarts.has(index) && (
+            <button
+              onClick={() => onOpenSlide(segment.slide_number as number)}
+              className="ml-2 mt-3 mb-1 text-xs font-medium text-blue-700 bg-blue-50 px-2 py-1 rounded-full hover:bg-blue-100 transition"
+            >
+              📊 Slide {segment.slide_number}
+            </button>
+          )}
+          <div
+            ref={(element) => {
+              if (element) segmentRefs.current.set(index, element)
+              else segmentRefs.current.delete(index)
+            }}
+            className={`group flex items-start gap-4 px-2 py-1.5 rounded-lg ${
+              index === activeIndex
+                ? 'bg-blue-100'
+                : index === linkedIndex ? 'bg-yellow-100' : 'hover:bg-white'
+            }`}
+          >
+            <button
+              onClick={() => copy(`link-${index}`, getTimestampLink(lectureId, segment.start_time))}
+              title="Copy a link to this moment"
+              className="text-xs font-mono text-blue-600 hover:text-blue-700 pt-1 w-16 flex-shrink-0 text-left"
+            >
+              {copied === `link-${index}` ? 'Copied!' : formatTimestamp(segment.start_time)}
+            </button>
+            <p
+              onClick={() => {
+                // Finishing a text selection isn't a click on the sentence
+                if (window.getSelection()?.isCollapsed === false) return
+                if (onSeek) onSeek(segment.start_time)
+                else copy(`text-${index}`, segment.text)
+              }}
+              title={onSeek ? 'Play from here' : 'Click to copy'}
+              className="flex-1 text-gray-700 leading-relaxed cursor-pointer"
+            >
+              <span data-segment-index={index}>
+                <HighlightedText
+                  text={segment.text}
+                  matches={matches?.[index] || []}
+                  currentMatch={currentMatch - (matchOffsets[index] || 0)}
+                />
+              </span>
+              {copied === `text-${index}` && (
+                <span className="ml-2 text-xs text-green-600">Copied!</span>
+              )}
+            </p>
+            {onSeek && (
+              <button
+                onClick={() => copy(`text-${index}`, segment.text)}
+                title="Copy sentence"
+                className="text-xs text-gray-400 hover:text-gray-700 pt-1 opacity-0 group-hover:opacity-100 transition"
+              >
+                Copy
+              </button>
+            )}
+            {notes?.has(index) && (
+              <button
+                onClick={() => toggleNotes(index)}
+                title="Show notes"
+                className="text-xs font-medium text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full hover:bg-amber-200 transition flex-shrink-0 mt-1"
+              >
+                🗒️ {notes.get(index)?.length}
+              </button>
+            )}
+          </div>
+          {openNotes.has(index) && notes?.get(index)?.map(note => (
+            <div key={note.id} className="ml-20 mr-2 mb-2 border-l-4 border-amber-300 bg-amber-50 rounded-r-lg px-3 py-2 text-sm">
+              <p className="text-xs text-gray-500 italic mb-1 line-clamp-2">&ldquo;{note.quote}&rdquo;</p>
+              <p className="text-gray-800 whitespace-pre-wrap">{note.body}</p>
+            </div>
+          ))}
+        </Fragment>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import Link from 'next/link'
+import { useUploadQueue, type QueueItemStatus } from '@/components/UploadQueueProvider'
+
+const STATUS_STYLES: Record<QueueItemStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-gray-600 bg-gray-100' },
+  uploading: { label: 'Uploading', className: 'text-blue-600 bg-blue-50' },
+  processing: { label: 'Processing', className: 'text-yellow-600 bg-yellow-50' },
+  finalizing: { label: 'Saving', className: 'text-yellow-600 bg-yellow-50' },
+  completed: { label: 'Completed', className: 'text-green-600 bg-green-50' },
+  failed: { label: 'Failed', className: 'text-red-600 bg-red-50' },
+}
+
+export default function UploadQueueList() {
+  const { items, retry, remove, clearFinished } = useUploadQueue()
+
+  if (items.length === 0) {
+    return null
+  }
+
+  const hasFinished = items.some(item => item.status === 'completed')
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 shadow-sm">
+      <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Upload Queue</h2>
+        {hasFinished && (
+          <button
+            onClick={clearFinished}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Clear completed
+          </button>
+        )}
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {items.map(item => {
+          const statusStyle = STATUS_STYLES[item.status]
+          const showProgress = item.status === 'uploading' || item.status === 'processing' || item.status === 'finalizing'
+
+          return (
+            <div key={item.id} className="p-4">
+              <div className="flex items-center justify-between gap-4 mb-1">
+                <div className="flex items-center gap-2 min-w-0">
+                  <h3 className="font-medium text-gray-900 truncate">{item.title}</h3>
+                  <span className={`text-xs font-medium px-2 py-1 rounded-full flex-shrink-0 ${statusStyle.className}`}>
+                    {statusStyle.label}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3 text-sm flex-shrink-0">
+                  {item.status === 'completed' && item.lectureId && (
+                    <Link href={`/lecture/${item.lectureId}`} className="text-blue-600 hover:text-blue-700 font-medium">
+                      View →
+                    </Link>
+                  )}
+                  {item.status === 'failed' && (
+                    <button onClick={() => retry(item.id)} className="text-blue-600 hover:text-blue-700 font-medium">
+                      Retry
+                    </button>
+                  )}
+                  {item.status !== 'processing' && item.status !== 'finalizing' && (
+                    <button onClick={() => remove(item.id)} className="text-gray-400 hover:text-red-500">
+                      ✕
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500 truncate">
+                {item.audioFile.name}{item.slidesFile ? ` + ${item.slidesFile.name}` : ''}
+              </p>
+
+              {showProgress && (
+                <div className="mt-2">
+                  <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                    <span>{item.message}</span>
+                    <span>{item.progress}%</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                    <div
+                      className="h-full rounded-full progress-bar transition-all duration-500"
+                      style={{ width: `${item.progress}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {item.error && (
+                <p className="text-xs text-red-600 mt-2">{item.error}</p>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { createClient } from '@/lib/supabase'
+import { api, getStageDisplay, type ProcessingOptions } from '@/lib/api'
+import { recordJobProgress, requestFinalize, startLectureProcessing } from '@/lib/lecture-jobs'
+
+// How many lectures upload/process at the same time
+const MAX_CONCURRENT = 2
+const POLL_INTERVAL_MS = 3000
+// Consecutive status errors tolerated before an item is marked failed
+const MAX_POLL_ERRORS = 10
+
+export type QueueItemStatus =
+  | 'queued'
+  | 'uploading'
+  | 'processing'
+  | 'finalizing'
+  | 'completed'
+  | 'failed'
+
+export interface QueueItem {
+  id: string
+  title: string
+  audioFile: File
+  slidesFile?: File
+  options: ProcessingOptions
+  durationSeconds: number
+  status: QueueItemStatus
+  progress: number
+  message: string
+  lectureId?: string
+  error?: string
+}
+
+export interface NewQueueItem {
+  title: string
+  audioFile: File
+  slidesFile?: File
+  options: ProcessingOptions
+  durationSeconds: number
+}
+
+interface UploadQueueContextValue {
+  items: QueueItem[]
+  activeCount: number
+  enqueue: (items: NewQueueItem[]) => void
+  retry: (id: string) => void
+  remove: (id: string) => void
+  clearFinished: () => void
+}
+
+const UploadQueueContext = createContext<UploadQueueContextValue | null>(null)
+
+export function useUploadQueue() {
+  const context = useContext(UploadQueueContext)
+  if (!context) {
+    throw new Error('useUploadQueue must be used inside UploadQueueProvider')
+  }
+  return context
+}
+
+const isActive = (status: QueueItemStatus) =>
+  status === 'uploading' || status === 'processing' || status === 'finalizing'
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Holds the multi-lecture upload queue. Mounted in the authenticated layout
+ * so uploads keep running while the user moves between pages.
+ */
+export default function UploadQueueProvider({ children }: { children: React.ReactNode }) {
+  const supabase = createClient()
+  const [items, setItems] = useState<QueueItem[]>([])
+
+  // Refs
+  const runningRef = useRef<Set<string>>(new Set())
+  const abortRef = useRef<Map<string, AbortController>>(new Map())
+
+  const update = useCallback((id: string, patch: Partial<QueueItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item))
+  }, [])
+
+  const runItem = useCallback(async (item: QueueItem) => {
+    const controller = new AbortController()
+    abortRef.current.set(item.id, controller)
+    update(item.id, { status: 'uploading', progress: 0, message: 'Uploading audio...', error: undefined })
+
+    let outcome: Partial<QueueItem> | null = null
+    try {
+      const { lectureId, jobId } = await startLectureProcessing(supabase, {
+        title: item.title,
+        audioFile: item.audioFile,
+        slidesFile: item.slidesFile,
+        options: item.options,
+        durationSeconds: item.durationSeconds,
+        lectureId: item.lectureId,
+        signal: controller.signal,
+        onLectureCreated: (lectureId) => update(item.id, { lectureId }),
+        onUploadProgress: ({ loaded, total }) => {
+          update(item.id, { progress: Math.floor((loaded / total) * 100) })
+        },
+        onStoreProgress: ({ loaded, total }) => {
+          update(item.id, { progress: Math.floor((loaded / total) * 100), message: 'Saving a copy for playback...' })
+        },
+      })
+
+      update(item.id, { status: 'processing', progress: 0, message: 'Waiting for processing server...' })
+
+      // Poll until the backend reports a terminal status
+      let pollErrors = 0
+      while (true) {
+        await sleep(POLL_INTERVAL_MS)
+        if (controller.signal.aborted) return
+
+        try {
+          const status = await api.getJobStatus(jobId)
+          pollErrors = 0
+          update(item.id, { progress: status.progress, message: getStageDisplay(status.stage).label })
+          recordJobProgress(supabase, lectureId, status)
+          if (status.status === 'completed' || status.status === 'failed') break
+        } catch (err) {
+          if (++pollErrors >= MAX_POLL_ERRORS) throw err
+        }
+      }
+
+      update(item.id, { status: 'finalizing', progress: 95, message: 'Generating AI summary...' })
+      const result = await requestFinalize(jobId)
+
+      outcome = result.outcome === 'failed'
+        ? { status: 'failed', message: '', error: result.error || 'Processing failed' }
+        : { status: 'completed', progress: 100, message: 'Processing complete!' }
+    } catch (err) {
+      if (controller.signal.aborted) return
+      console.error('[LectureLink] Queue item failed:', err)
+      outcome = {
+        status: 'failed',
+        message: '',
+        error: err instanceof Error ? err.message : 'Failed to process lecture',
+      }
+    } finally {
+      // Free the slot before the state change that lets the next item start
+      abortRef.current.delete(item.id)
+      runningRef.current.delete(item.id)
+      if (outcome) update(item.id, outcome)
+    }
+  }, [supabase, update])
+
+  // Start queued items while there is capacity
+  useEffect(() => {
+    const capacity = MAX_CONCURRENT - runningRef.current.size
+    if (capacity <= 0) return
+
+    items
+      .filter(item => item.status === 'queued' && !runningRef.current.has(item.id))
+      .slice(0, capacity)
+      .forEach(item => {
+        runningRef.current.add(item.id)
+        runItem(item)
+      })
+  }, [items, runItem])
+
+  const activeCount = items.filter(item => isActive(item.status)).length
+
+  // Files only live in memory, so a reload would drop the queue
+  useEffect(() => {
+    const pending = items.some(item => item.status === 'queued' || isActive(item.status))
+    if (!pending) return
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [items])
+
+  const enqueue = useCallback((newItems: NewQueueItem[]) => {
+    setItems(prev => [
+      ...prev,
+      ...newItems.map(item => ({
+        ...item,
+        id: crypto.randomUUID(),
+        status: 'queued' as const,
+        progress: 0,
+        message: 'Waiting in queue',
+      })),
+    ])
+  }, [])
+
+  // Retrying reuses the lecture row created by the failed attempt
+  const retry = useCallback((id: string) => {
+    update(id, { status: 'queued', progress: 0, message: 'Waiting in queue', error: undefined })
+  }, [update])
+
+  const remove = useCallback((id: string) => {
+    abortRef.current.get(id)?.abort()
+    setItems(prev => prev.filter(item => item.id !== id))
+  }, [])
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => item.status !== 'completed'))
+  }, [])
+
+  return (
+    <UploadQueueContext.Provider value={{ items, activeCount, enqueue, retry, remove, clearFinished }}>
+      {children}
+    </UploadQueueContext.Provider>
+  )
+}
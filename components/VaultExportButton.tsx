@@ -0,0 +1,37 @@
+'use client'
+
+import { useState } from 'react'
+import { downloadFile } from '@/lib/files'
+
+export default function VaultExportButton() {
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+    try {
+      await downloadFile('/api/lectures/vault', 'LectureLink Vault.zip')
+    } catch (err) {
+      console.error('[LectureLink] Vault export failed:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <>
+      <button
+        onClick={handleExport}
+        disabled={exporting}
+        className="block w-full mt-4 py-2 bg-gray-100 text-gray-700 rounded-lg font-medium text-center text-sm hover:bg-gray-200 transition disabled:opacity-50"
+      >
+        {exporting ? 'Preparing zip...' : 'Download Vault'}
+      </button>
+      {error && (
+        <p className="text-xs text-red-600 mt-2">{error}</p>
+      )}
+    </>
+  )
+}
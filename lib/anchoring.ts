@@ -0,0 +1,184 @@
+/**
+ * Anchoring notes to text that may change. An anchor keeps the quoted
+ * text, a little context either side and its offsets; resolving tries, in
+ * order: the same offsets, exact occurrences of the quote (best context
+ * wins) and finally the most similar run of words.
+ */
+
+import type { TranscriptSegment } from '@/lib/types'
+
+// Characters of context saved either side of the quote
+const CONTEXT_LENGTH = 32
+// Word overlap needed for a fuzzy match to count
+const MIN_SIMILARITY = 0.6
+
+export interface TextAnchor {
+  quote: string
+  prefix: string
+  suffix: string
+  start: number
+  end: number
+}
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+// The transcript as one string, with where each segment starts in it
+export interface TranscriptIndex {
+  text: string
+  starts: number[]
+}
+
+export function buildTranscriptIndex(segments: Pick<TranscriptSegment, 'text'>[]): TranscriptIndex {
+  const starts: number[] = []
+  let text = ''
+  for (const segment of segments) {
+    if (text) text += ' '
+    starts.push(text.length)
+    text += segment.text
+  }
+  return { text, starts }
+}
+
+/**
+ * Index of the segment containing a transcript offset
+ */
+export function findSegmentAtOffset(index: TranscriptIndex, offset: number): number {
+  let low = 0
+  let high = index.starts.length - 1
+  let found = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (index.starts[mid] <= offset) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found
+}
+
+export function createTextAnchor(text: string, start: number, end: number): TextAnchor {
+  return {
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH),
+    start,
+    end,
+  }
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[length] === b[length]) length++
+  return length
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++
+  return length
+}
+
+function tokenize(text: string): Array<{ word: string; start: number; end: number }> {
+  const tokens = []
+  for (const match of text.matchAll(/[\p{L}\p{N}']+/gu)) {
+    tokens.push({ word: match[0].toLowerCase(), start: match.index, end: match.index + match[0].length })
+  }
+  return tokens
+}
+
+function diceCoefficient(wordsA: string[], wordsB: string[]): number {
+  if (wordsA.length === 0 || wordsB.length === 0) return 0
+
+  const counts = new Map<string, number>()
+  for (const word of wordsA) counts.set(word, (counts.get(word) || 0) + 1)
+  let shared = 0
+  for (const word of wordsB) {
+    const count = counts.get(word) || 0
+    if (count > 0) {
+      shared++
+      counts.set(word, count - 1)
+    }
+  }
+  return (2 * shared) / (wordsA.length + wordsB.length)
+}
+
+/**
+ * Share of words in common: 1 for the same words, 0 for none
+ */
+export function wordSimilarity(a: string, b: string): number {
+  return diceCoefficient(tokenize(a).map(token => token.word), tokenize(b).map(token => token.word))
+}
+
+function findExact(text: string, anchor: TextAnchor): TextRange | null {
+  let best: { range: TextRange; score: number; distance: number } | null = null
+
+  for (let position = text.indexOf(anchor.quote); position >= 0; position = text.indexOf(anchor.quote, position + 1)) {
+    const end = position + anchor.quote.length
+    const score = commonSuffixLength(text.slice(Math.max(0, position - anchor.prefix.length), position), anchor.prefix)
+      + commonPrefixLength(text.slice(end, end + anchor.suffix.length), anchor.suffix)
+    const distance = Math.abs(position - anchor.start)
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { range: { start: position, end }, score, distance }
+    }
+  }
+
+  return best?.range || null
+}
+
+// Slide a window the length of the quote over the words of the text
+function findFuzzy(text: string, anchor: TextAnchor): TextRange | null {
+  const quoteWords = tokenize(anchor.quote).map(token => token.word)
+  const tokens = tokenize(text)
+  if (quoteWords.length === 0 || tokens.length === 0) return null
+
+  let best: { range: TextRange; score: number; distance: number } | null = null
+  const windowLength = Math.min(quoteWords.length, tokens.length)
+
+  for (let i = 0; i + windowLength <= tokens.length; i++) {
+    const window = tokens.slice(i, i + windowLength)
+    const range = { start: window[0].start, end: window[windowLength - 1].end }
+    const score = diceCoefficient(quoteWords, window.map(token => token.word))
+    const distance = Math.abs(range.start - anchor.start)
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { range, score, distance }
+    }
+  }
+
+  return best && best.score >= MIN_SIMILARITY ? best.range : null
+}
+
+/**
+ * Where the anchored text is now, or null if it can't be found
+ */
+export function resolveTextAnchor(text: string, anchor: TextAnchor): TextRange | null {
+  if (!anchor.quote) return null
+  if (text.slice(anchor.start, anchor.end) === anchor.quote) {
+    return { start: anchor.start, end: anchor.end }
+  }
+  return findExact(text, anchor) || findFuzzy(text, anchor)
+}
+
+/**
+ * Index of the name matching `name` exactly (ignoring case) or, failing
+ * that, the most similar one; -1 if none is close enough
+ */
+export function resolveNameAnchor(name: string, names: string[]): number {
+  const exact = names.findIndex(candidate => candidate.toLowerCase() === name.toLowerCase())
+  if (exact >= 0) return exact
+
+  let bestIndex = -1
+  let bestScore = MIN_SIMILARITY
+  names.forEach((candidate, index) => {
+    const score = wordSimilarity(name, candidate)
+    if (score >= bestScore) {
+      bestIndex = index
+      bestScore = score
+    }
+  })
+  return bestIndex
+}
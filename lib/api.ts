@@ -22,6 +22,10 @@ export interface JobStatus {
 export interface JobResult {
   job_id: string
   status: string
+  transcript?: string
+  summary?: {
+    audio_duration_seconds?: number
+  }
   transcription?: {
     sentences: Array<{ text: string; start: number; end: number }>
     total_sentences: number
@@ -33,6 +37,12 @@ export interface JobResult {
   alignment?: {
     total_aligned_sentences: number
     coverage_rate: number
+    // One entry per aligned sentence; sentence_index points into transcription.sentences
+    aligned_sentences?: Array<{
+      sentence_index: number
+      slide_number: number
+      similarity: number
+    }>
   }
   master_document?: {
     markdown_content: string
@@ -58,11 +68,63 @@ export interface SummaryResponse {
     first_mentioned_slide?: number
   }>
   main_takeaways: string[]
-  study_questions: string[]
+  // Newer backends include answers
+  study_questions: Array<string | { question: string; answer?: string }>
   difficulty_level: 'beginner' | 'intermediate' | 'advanced'
   estimated_study_time_minutes: number
 }
 
+// Some backend versions wrap the summary: { summary: { title, key_concepts, ... } }
+export interface SummaryEnvelope {
+  summary: SummaryResponse
+  lecture_title?: string
+}
+
+export type QuizQuestionType = 'multiple_choice' | 'short_answer'
+
+export interface QuizOptions {
+  num_questions?: number
+  question_types?: QuizQuestionType[]
+  difficulty?: 'easy' | 'medium' | 'hard'
+  lecture_title?: string
+}
+
+export interface QuizResponse {
+  questions: Array<{
+    type: QuizQuestionType
+    question: string
+    // multiple_choice
+    options?: string[]
+    correct_index?: number
+    correct_answer?: string
+    // short_answer
+    answer?: string
+    accepted_answers?: string[]
+    explanation?: string
+  }>
+}
+
+export interface ProcessingOptions {
+  language?: string
+  use_multimodal?: boolean
+  use_cross_encoder?: boolean
+  min_similarity?: number
+}
+
+export interface UploadSession {
+  upload_id: string
+  size: number
+  received_bytes: number
+  chunk_size: number
+  expires_at?: string
+}
+
+export interface UploadProgress {
+  loaded: number
+  total: number
+  resumed: boolean
+}
+
 export interface HealthCheck {
   status: string
   openai_api_key_set: boolean
@@ -74,6 +136,146 @@ export interface HealthCheck {
   supported_slide_formats: string[]
 }
 
+// Resumable upload settings
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024
+const MAX_CHUNK_ATTEMPTS = 6
+const RETRY_BASE_DELAY_MS = 1000
+const RETRY_MAX_DELAY_MS = 30000
+const UPLOAD_STORAGE_PREFIX = 'lecturelink-upload:'
+
+class UploadHttpError extends Error {
+  constructor(public status: number, public body: string) {
+    super(body || `Upload failed with status ${status}`)
+  }
+}
+
+// Identifies the same file across page reloads so an upload can be resumed
+export function fileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+function readStoredUploadId(file: File): string | null {
+  try {
+    return localStorage.getItem(UPLOAD_STORAGE_PREFIX + fileFingerprint(file))
+  } catch {
+    return null
+  }
+}
+
+function storeUploadId(file: File, uploadId: string | null) {
+  try {
+    const key = UPLOAD_STORAGE_PREFIX + fileFingerprint(file)
+    if (uploadId) {
+      localStorage.setItem(key, uploadId)
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch {
+    // Storage unavailable (private mode) - uploads just won't resume
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+      return
+    }
+    const handleAbort = () => {
+      clearTimeout(timeout)
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', handleAbort, { once: true })
+  })
+}
+
+// Resolves when the browser is back online; rejects if the upload is cancelled first
+function waitForOnline(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+      return
+    }
+    const cleanup = () => {
+      window.removeEventListener('online', handleOnline)
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    const handleOnline = () => {
+      cleanup()
+      resolve()
+    }
+    const handleAbort = () => {
+      cleanup()
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+    }
+    window.addEventListener('online', handleOnline)
+    signal?.addEventListener('abort', handleAbort)
+  })
+}
+
+// Exponential backoff with jitter, waiting for the network to come back first
+async function waitBeforeRetry(attempt: number, signal?: AbortSignal) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    await waitForOnline(signal)
+  }
+  const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt)
+  await sleep(delay / 2 + Math.random() * delay / 2, signal)
+}
+
+// 4xx responses (other than offset conflicts) won't succeed on retry
+function isRetryable(err: unknown): boolean {
+  if (err instanceof DOMException && err.name === 'AbortError') return false
+  if (err instanceof UploadHttpError) {
+    return err.status === 408 || err.status === 409 || err.status === 429 || err.status >= 500
+  }
+  return true
+}
+
+// fetch() has no upload progress events, so chunks go through XHR
+function putChunk(
+  uploadId: string,
+  chunk: Blob,
+  start: number,
+  total: number,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<UploadSession> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('PUT', `${API_URL}/api/uploads/${uploadId}/chunk`)
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream')
+    xhr.setRequestHeader('Content-Range', `bytes ${start}-${start + chunk.size - 1}/${total}`)
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded)
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        // A proxy page or empty body would otherwise throw here and leave
+        // the promise unsettled
+        try {
+          resolve(JSON.parse(xhr.responseText))
+        } catch {
+          reject(new Error(`The processing server sent an unreadable response (status ${xhr.status}) while uploading`))
+        }
+      } else {
+        reject(new UploadHttpError(xhr.status, xhr.responseText))
+      }
+    }
+    xhr.onerror = () => reject(new Error('Network error while uploading'))
+    xhr.ontimeout = () => reject(new Error('Upload timed out'))
+
+    const abort = () => xhr.abort()
+    signal?.addEventListener('abort', abort, { once: true })
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'))
+    xhr.onloadend = () => signal?.removeEventListener('abort', abort)
+
+    xhr.send(chunk)
+  })
+}
+
 // API Functions
 export const api = {
   /**
@@ -87,22 +289,142 @@ export const api = {
     return response.json()
   },
 
+  /**
+   * Get the state of a resumable upload (how many bytes the server has)
+   */
+  async getUpload(uploadId: string): Promise<UploadSession> {
+    const response = await fetch(`${API_URL}/api/uploads/${uploadId}`)
+
+    if (!response.ok) {
+      throw new UploadHttpError(response.status, await response.text())
+    }
+
+    return response.json()
+  },
+
+  /**
+   * Upload a file in chunks, resuming a previous attempt for the same file
+   * if the server still has it. Returns the completed upload_id.
+   */
+  async uploadResumable(
+    file: File,
+    callbacks?: {
+      onProgress?: (progress: UploadProgress) => void
+      signal?: AbortSignal
+    }
+  ): Promise<string> {
+    const { onProgress, signal } = callbacks || {}
+    let session: UploadSession | null = null
+    let resumed = false
+
+    // Pick up where a previous page load left off
+    const storedUploadId = readStoredUploadId(file)
+    if (storedUploadId) {
+      try {
+        const existing = await api.getUpload(storedUploadId)
+        if (existing.size === file.size) {
+          session = existing
+          resumed = existing.received_bytes > 0
+        }
+      } catch {
+        storeUploadId(file, null)
+      }
+    }
+
+    if (!session) {
+      const response = await fetch(`${API_URL}/api/uploads`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          filename: file.name,
+          size: file.size,
+          content_type: file.type || 'application/octet-stream',
+          chunk_size: DEFAULT_CHUNK_SIZE,
+        }),
+        signal,
+      })
+
+      if (!response.ok) {
+        const error = await response.text()
+        throw new Error(error || 'Failed to start upload')
+      }
+
+      session = await response.json() as UploadSession
+      storeUploadId(file, session.upload_id)
+    }
+
+    const uploadId = session.upload_id
+    const chunkSize = session.chunk_size || DEFAULT_CHUNK_SIZE
+    let offset = session.received_bytes
+    let attempt = 0
+
+    onProgress?.({ loaded: offset, total: file.size, resumed })
+
+    while (offset < file.size) {
+      const chunk = file.slice(offset, Math.min(offset + chunkSize, file.size))
+      const start = offset
+
+      try {
+        const updated = await putChunk(
+          uploadId,
+          chunk,
+          start,
+          file.size,
+          (loaded) => onProgress?.({ loaded: start + loaded, total: file.size, resumed }),
+          signal
+        )
+        offset = updated.received_bytes
+        attempt = 0
+        onProgress?.({ loaded: offset, total: file.size, resumed })
+      } catch (err) {
+        if (!isRetryable(err) || attempt >= MAX_CHUNK_ATTEMPTS - 1) {
+          throw err instanceof UploadHttpError
+            ? new Error(err.body || 'Failed to upload audio')
+            : err
+        }
+
+        // An offset conflict only needs a resync, not a backoff
+        const isConflict = err instanceof UploadHttpError && err.status === 409
+        if (!isConflict) {
+          await waitBeforeRetry(attempt, signal)
+        }
+        attempt++
+
+        // The server may have received part of the chunk - ask where to continue
+        try {
+          offset = (await api.getUpload(uploadId)).received_bytes
+        } catch {
+          // Keep the current offset; the next PUT will resync via 409
+        }
+      }
+    }
+
+    return uploadId
+  },
+
   /**
    * Process a lecture with audio and slides
-   * Returns a job_id for status polling
+   * The audio goes through the resumable upload first; slides are small
+   * enough to send with the request. Returns a job_id for status polling
    */
   async processLecture(
     audioFile: File,
     slidesFile?: File,
-    options?: {
-      language?: string
-      use_multimodal?: boolean
-      use_cross_encoder?: boolean
-      min_similarity?: number
+    options?: ProcessingOptions,
+    callbacks?: {
+      onUploadProgress?: (progress: UploadProgress) => void
+      signal?: AbortSignal
     }
   ): Promise<JobStatus> {
+    const audioUploadId = await api.uploadResumable(audioFile, {
+      onProgress: callbacks?.onUploadProgress,
+      signal: callbacks?.signal,
+    })
+
     const formData = new FormData()
-    formData.append('audio', audioFile)
+    formData.append('audio_upload_id', audioUploadId)
     
     if (slidesFile) {
       formData.append('slides', slidesFile)
@@ -112,9 +434,22 @@ export const api = {
       formData.append('language', options.language)
     }
 
+    if (options?.use_multimodal !== undefined) {
+      formData.append('use_multimodal', String(options.use_multimodal))
+    }
+
+    if (options?.use_cross_encoder !== undefined) {
+      formData.append('use_cross_encoder', String(options.use_cross_encoder))
+    }
+
+    if (options?.min_similarity !== undefined) {
+      formData.append('min_similarity', String(options.min_similarity))
+    }
+
     const response = await fetch(`${API_URL}/api/process`, {
       method: 'POST',
       body: formData,
+      signal: callbacks?.signal,
     })
 
     if (!response.ok) {
@@ -122,6 +457,9 @@ export const api = {
       throw new Error(error || 'Failed to start processing')
     }
 
+    // The upload has been consumed by the job, so don't try to resume it again
+    storeUploadId(audioFile, null)
+
     return response.json()
   },
 
@@ -164,7 +502,7 @@ export const api = {
   async generateSummary(
     markdownContent: string,
     lectureTitle?: string
-  ): Promise<SummaryResponse> {
+  ): Promise<SummaryResponse | SummaryEnvelope> {
     const response = await fetch(`${API_URL}/api/generate-summary`, {
       method: 'POST',
       headers: {
@@ -184,6 +522,32 @@ export const api = {
     return response.json()
   },
 
+  /**
+   * Generate quiz questions from master document
+   */
+  async generateQuiz(
+    markdownContent: string,
+    options: QuizOptions = {}
+  ): Promise<QuizResponse> {
+    const response = await fetch(`${API_URL}/api/generate-quiz`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        markdown_content: markdownContent,
+        ...options,
+      }),
+    })
+
+    if (!response.ok) {
+      const error = await response.text()
+      throw new Error(error || 'Failed to generate quiz')
+    }
+
+    return response.json()
+  },
+
   /**
    * Delete a job and its files
    */
@@ -205,9 +569,39 @@ export const STAGE_INFO: Record<string, { icon: string; label: string }> = {
   slides: { icon: '📊', label: 'Processing slides...' },
   alignment: { icon: '🔗', label: 'Aligning content...' },
   document: { icon: '📄', label: 'Generating document...' },
+  summary: { icon: '🤖', label: 'Generating AI summary...' },
   complete: { icon: '✅', label: 'Processing complete!' },
 }
 
 export function getStageDisplay(stage?: string) {
   return STAGE_INFO[stage || ''] || { icon: '⏳', label: 'Processing...' }
 }
+
+// Processing option defaults (used when a user hasn't saved their own)
+export const DEFAULT_PROCESSING_OPTIONS: Required<ProcessingOptions> = {
+  language: '',
+  use_multimodal: false,
+  use_cross_encoder: false,
+  min_similarity: 0.5,
+}
+
+// Empty code means the backend detects the language itself
+export const PROCESSING_LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: '', label: 'Auto-detect' },
+  { code: 'en', label: 'English' },
+  { code: 'fr', label: 'French' },
+  { code: 'de', label: 'German' },
+  { code: 'es', label: 'Spanish' },
+  { code: 'it', label: 'Italian' },
+  { code: 'pt', label: 'Portuguese' },
+  { code: 'nl', label: 'Dutch' },
+  { code: 'pl', label: 'Polish' },
+  { code: 'sv', label: 'Swedish' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'ja', label: 'Japanese' },
+  { code: 'ko', label: 'Korean' },
+]
+
+export function getLanguageLabel(code?: string) {
+  return PROCESSING_LANGUAGES.find(language => language.code === (code || ''))?.label || code
+}
@@ -0,0 +1,148 @@
+/**
+ * SRT and WebVTT captions from timed transcript sentences. Each sentence is
+ * a caption unless merged with its neighbours; long ones are wrapped to the
+ * line length and split into timed parts of at most two lines.
+ */
+
+import type { TranscriptSegment } from '@/lib/types'
+
+export type CaptionFormat = 'srt' | 'vtt'
+
+export interface CaptionOptions {
+  format: CaptionFormat
+  // Join sentences shorter than a line (or MIN_CUE_SECONDS) with the next
+  mergeShort: boolean
+  maxLineLength: number
+}
+
+export interface CaptionCue {
+  start: number
+  end: number
+  lines: string[]
+}
+
+export const CAPTION_LINE_LENGTHS = [32, 42, 50]
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  format: 'srt',
+  mergeShort: true,
+  maxLineLength: 42,
+}
+
+const MAX_LINES = 2
+// Captions shorter than this are hard to read
+const MIN_CUE_SECONDS = 1.5
+const MAX_CUE_SECONDS = 7
+// Sentences further apart than this are never merged
+const MAX_MERGE_GAP_SECONDS = 1
+
+function wrapLines(text: string, maxLineLength: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+function mergeShortSentences(segments: TranscriptSegment[], maxLineLength: number): Array<{ start: number; end: number; text: string }> {
+  const merged: Array<{ start: number; end: number; text: string }> = []
+
+  for (const segment of segments) {
+    const text = segment.text.trim()
+    if (!text) continue
+
+    const previous = merged[merged.length - 1]
+    const isShort = previous && (previous.text.length < maxLineLength || previous.end - previous.start < MIN_CUE_SECONDS)
+    const fits = previous &&
+      previous.text.length + 1 + text.length <= maxLineLength * MAX_LINES &&
+      segment.end_time - previous.start <= MAX_CUE_SECONDS &&
+      segment.start_time - previous.end <= MAX_MERGE_GAP_SECONDS
+
+    if (isShort && fits) {
+      previous.text = `${previous.text} ${text}`
+      previous.end = segment.end_time
+    } else {
+      merged.push({ start: segment.start_time, end: segment.end_time, text })
+    }
+  }
+  return merged
+}
+
+/**
+ * Cues in time order. A sentence too long for one cue is split into parts
+ * whose durations are proportional to their length.
+ */
+export function buildCaptionCues(segments: TranscriptSegment[], options: CaptionOptions): CaptionCue[] {
+  const sentences = options.mergeShort
+    ? mergeShortSentences(segments, options.maxLineLength)
+    : segments
+      .filter(segment => segment.text.trim())
+      .map(segment => ({ start: segment.start_time, end: segment.end_time, text: segment.text.trim() }))
+
+  const cues: CaptionCue[] = []
+  for (const sentence of sentences) {
+    const lines = wrapLines(sentence.text, options.maxLineLength)
+    const totalLength = lines.reduce((sum, line) => sum + line.length, 0)
+    const duration = Math.max(0, sentence.end - sentence.start)
+
+    let start = sentence.start
+    for (let i = 0; i < lines.length; i += MAX_LINES) {
+      const part = lines.slice(i, i + MAX_LINES)
+      const partLength = part.reduce((sum, line) => sum + line.length, 0)
+      const end = i + MAX_LINES >= lines.length ? sentence.end : start + duration * (partLength / totalLength)
+      cues.push({ start, end, lines: part })
+      start = end
+    }
+  }
+  return cues
+}
+
+// 3723.5 -> "01:02:03,500" (SRT) or "01:02:03.500" (WebVTT)
+function formatCueTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3600000)
+  const mins = Math.floor((totalMs % 3600000) / 60000)
+  const secs = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0')
+
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(ms, 3)}`
+}
+
+// WebVTT cue text is parsed for tags and entities, and can't contain "-->"
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/-->/g, '--&gt;')
+    .replace(/>/g, '&gt;')
+}
+
+// SRT has no escaping, and players take a line with "-->" for a timing line
+function escapeSrt(text: string): string {
+  return text.replace(/-->/g, '->')
+}
+
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  if (format === 'srt') {
+    return cues
+      .map((cue, index) => [
+        String(index + 1),
+        `${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}`,
+        ...cue.lines.map(escapeSrt),
+      ].join('\n'))
+      .join('\n\n') + '\n'
+  }
+
+  return ['WEBVTT', ...cues.map(cue => [
+    `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}`,
+    ...cue.lines.map(escapeVtt),
+  ].join('\n'))].join('\n\n') + '\n'
+}
@@ -0,0 +1,14 @@
+/**
+ * Summary content helpers. Key concepts come back from different backend
+ * versions with different field names, so read them through these.
+ */
+
+import type { KeyConcept } from '@/lib/types'
+
+export function getConceptName(concept: KeyConcept): string {
+  return concept.name || concept.concept || concept.term || 'Untitled Concept'
+}
+
+export function getConceptExplanation(concept: KeyConcept): string {
+  return concept.explanation || concept.definition || ''
+}
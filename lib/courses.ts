@@ -0,0 +1,115 @@
+/**
+ * Courses group lectures, e.g. one per class per term
+ * (supabase/migrations/20261019001400_courses.sql)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Course } from '@/lib/types'
+
+export type CourseInput = Pick<Course, 'name' | 'code' | 'term' | 'instructor' | 'color'>
+
+export const COURSE_COLORS = [
+  '#3b82f6', // blue
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+  '#ef4444', // red
+  '#f97316', // orange
+  '#eab308', // yellow
+  '#22c55e', // green
+  '#14b8a6', // teal
+  '#64748b', // slate
+]
+
+export const EMPTY_COURSE_INPUT: CourseInput = {
+  name: '',
+  code: null,
+  term: null,
+  instructor: null,
+  color: COURSE_COLORS[0],
+}
+
+// "CS 101 - Algorithms", or just the name
+export function getCourseLabel(course: Pick<Course, 'name' | 'code'>): string {
+  return course.code ? `${course.code} - ${course.name}` : course.name
+}
+
+// Trimmed, with empty optional fields stored as null
+function cleanCourseInput(input: CourseInput): CourseInput {
+  const clean = (value: string | null) => value?.trim() || null
+  return {
+    name: input.name.trim(),
+    code: clean(input.code),
+    term: clean(input.term),
+    instructor: clean(input.instructor),
+    color: input.color,
+  }
+}
+
+/**
+ * Courses grouped by term, keeping the given order within each group;
+ * courses without a term come last
+ */
+export function groupCoursesByTerm<T extends Pick<Course, 'term'>>(courses: T[]): Array<{ term: string | null; courses: T[] }> {
+  const groups = new Map<string | null, T[]>()
+  for (const course of courses) {
+    const group = groups.get(course.term) || []
+    group.push(course)
+    groups.set(course.term, group)
+  }
+  return Array.from(groups, ([term, items]) => ({ term, courses: items }))
+    .sort((a, b) => (a.term === null ? 1 : 0) - (b.term === null ? 1 : 0))
+}
+
+export async function loadCourses(supabase: SupabaseClient): Promise<Course[]> {
+  const { data, error } = await supabase
+    .from('courses')
+    .select('*')
+    .order('name', { ascending: true })
+
+  if (error) throw error
+  return data || []
+}
+
+export async function createCourse(supabase: SupabaseClient, userId: string, input: CourseInput): Promise<Course> {
+  const { data, error } = await supabase
+    .from('courses')
+    .insert({ user_id: userId, ...cleanCourseInput(input) })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function updateCourse(supabase: SupabaseClient, courseId: string, input: CourseInput): Promise<Course> {
+  const { data, error } = await supabase
+    .from('courses')
+    .update({ ...cleanCourseInput(input), updated_at: new Date().toISOString() })
+    .eq('id', courseId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * The course's lectures are kept, without a course
+ */
+export async function deleteCourse(supabase: SupabaseClient, courseId: string): Promise<void> {
+  const { error } = await supabase
+    .from('courses')
+    .delete()
+    .eq('id', courseId)
+
+  if (error) throw error
+}
+
+export async function setLectureCourse(supabase: SupabaseClient, lectureId: string, courseId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('lectures')
+    .update({ course_id: courseId })
+    .eq('id', lectureId)
+
+  if (error) throw error
+}
@@ -0,0 +1,214 @@
+/**
+ * Anki .apkg packages: a zip holding a collection.anki2 SQLite database
+ * (schema 11, which every Anki version imports) and an empty media list.
+ * Notes get GUIDs derived from the lecture and card, so importing an updated
+ * deck again updates the existing notes instead of duplicating them.
+ */
+
+import { createHash } from 'crypto'
+import JSZip from 'jszip'
+import initSqlJs from 'sql.js'
+import type { Flashcard } from '@/lib/flashcards'
+import { getCardSource, getCardTags } from '@/lib/export/flashcards'
+
+// Fixed so every export reuses the same note type in Anki
+const MODEL_ID = 1761000000000
+const DEFAULT_DECK_ID = 1
+
+const SCHEMA = `
+  create table col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+  );
+  create table notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+  );
+  create table cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+  );
+  create table revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+  );
+  create table graves (usn integer not null, oid integer not null, type integer not null);
+  create index ix_notes_usn on notes (usn);
+  create index ix_cards_usn on cards (usn);
+  create index ix_revlog_usn on revlog (usn);
+  create index ix_cards_nid on cards (nid);
+  create index ix_cards_sched on cards (did, queue, due);
+  create index ix_revlog_cid on revlog (cid);
+  create index ix_notes_csum on notes (csum);
+`
+
+const CARD_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.source {
+  margin-top: 16px;
+  font-size: 14px;
+  color: #6b7280;
+}`
+
+function sha1(text: string): string {
+  return createHash('sha1').update(text).digest('hex')
+}
+
+// Field values are HTML in Anki
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '<br>')
+}
+
+function getDeckId(deckName: string): number {
+  // Anki ids are millisecond timestamps; stay in that range
+  return 1_000_000_000_000 + (parseInt(sha1(deckName).slice(0, 10), 16) % 1_000_000_000_000)
+}
+
+function buildCollection(deckId: number, deckName: string, now: number) {
+  const seconds = Math.floor(now / 1000)
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: '',
+    mod: seconds,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+    dyn: 0,
+    conf: 1,
+    extendNew: 10,
+    extendRev: 50,
+  })
+
+  const model = {
+    id: MODEL_ID,
+    name: 'LectureLink',
+    type: 0,
+    mod: seconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    flds: ['Front', 'Back', 'Source'].map((name, ord) => ({
+      name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [],
+    })),
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '{{Front}}',
+      afmt: '{{FrontSide}}<hr id="answer">{{Back}}{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+      did: null,
+      bqfmt: '',
+      bafmt: '',
+    }],
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]],
+  }
+
+  const deckConfig = {
+    id: 1,
+    name: 'Default',
+    replayq: true,
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false },
+    timer: 0,
+    maxTaken: 60,
+    usn: 0,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, separate: true, order: 1, perDay: 20, bury: false },
+    mod: 0,
+    autoplay: true,
+    dyn: false,
+  }
+
+  const conf = {
+    activeDecks: [deckId],
+    curDeck: deckId,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: MODEL_ID,
+    nextPos: 1,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    addToCur: true,
+  }
+
+  return [
+    1, seconds, now, now, 11, 0, 0, 0,
+    JSON.stringify(conf),
+    JSON.stringify({ [MODEL_ID]: model }),
+    JSON.stringify({ [DEFAULT_DECK_ID]: deck(DEFAULT_DECK_ID, 'Default'), [deckId]: deck(deckId, deckName) }),
+    JSON.stringify({ 1: deckConfig }),
+    JSON.stringify({}),
+  ]
+}
+
+/**
+ * One Anki deck named deckName holding every card, as new cards
+ */
+export async function renderApkg(cards: Flashcard[], deckName: string): Promise<Uint8Array> {
+  const SQL = await initSqlJs()
+  const db = new SQL.Database()
+
+  try {
+    const now = Date.now()
+    const seconds = Math.floor(now / 1000)
+    const deckId = getDeckId(deckName)
+
+    db.run(SCHEMA)
+    db.run('insert into col values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)', buildCollection(deckId, deckName, now))
+
+    const insertNote = db.prepare('insert into notes values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+    const insertCard = db.prepare('insert into cards values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+
+    cards.forEach((card, index) => {
+      // Note and card ids only need to be unique within the package
+      const noteId = now + index
+      const front = escapeHtml(card.front)
+      const fields = [front, escapeHtml(card.back), escapeHtml(getCardSource(card))].join('\x1f')
+      const guid = Buffer.from(sha1(`${card.lecture_id}:${card.key}`), 'hex').toString('base64').slice(0, 10)
+
+      insertNote.run([
+        noteId, guid, MODEL_ID, seconds, -1,
+        ` ${getCardTags(card).join(' ')} `,
+        fields, card.front, parseInt(sha1(card.front).slice(0, 8), 16), 0, '',
+      ])
+      insertCard.run([noteId, noteId, deckId, 0, seconds, -1, 0, 0, index + 1, 0, 0, 0, 0, 0, 0, 0, 0, ''])
+    })
+
+    insertNote.free()
+    insertCard.free()
+
+    const zip = new JSZip()
+    zip.file('collection.anki2', db.export())
+    zip.file('media', '{}')
+    return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+  } finally {
+    db.close()
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Format-independent export model. Lecture content is collected into
+ * sections of plain-text blocks here; each renderer (markdown, docx, pdf)
+ * lays out the same model, so exports look alike whatever the format.
+ */
+
+import { getConceptExplanation, getConceptName } from '@/lib/concepts'
+import { DIFFICULTY_STYLES, formatStudyTime } from '@/lib/study'
+import { formatTimestamp } from '@/lib/transcript'
+import type { Lecture, LectureSummary, TranscriptSegment } from '@/lib/types'
+
+export type ExportSectionId = 'overview' | 'takeaways' | 'concepts' | 'definitions' | 'transcript'
+
+export const EXPORT_SECTIONS: Array<{ id: ExportSectionId; label: string }> = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'takeaways', label: 'Key Takeaways' },
+  { id: 'concepts', label: 'Key Concepts' },
+  { id: 'definitions', label: 'Definitions' },
+  { id: 'transcript', label: 'Transcript' },
+]
+
+export type ExportBlock =
+  | { type: 'paragraph'; text: string; timestamp?: string }
+  | { type: 'list'; items: string[] }
+  // A concept or definition: bold title, optional badge, text, optional italic note
+  | { type: 'entry'; title: string; badge?: string; text: string; note?: string }
+
+export interface ExportSection {
+  id: ExportSectionId
+  heading: string
+  blocks: ExportBlock[]
+}
+
+export interface ExportDocument {
+  title: string
+  meta: string[]
+  sections: ExportSection[]
+  generatedAt: string
+}
+
+export type ExportLecture = Pick<Lecture, 'title' | 'created_at' | 'duration' | 'transcript'>
+
+// Transcript sentences per paragraph when exporting timed segments
+const SENTENCES_PER_PARAGRAPH = 5
+
+function formatExportDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600)
+  const mins = Math.floor((seconds % 3600) / 60)
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
+}
+
+function buildTranscriptBlocks(lecture: ExportLecture, segments: TranscriptSegment[]): ExportBlock[] {
+  if (segments.length === 0) {
+    return (lecture.transcript || '')
+      .split(/\n\s*\n/)
+      .map(text => text.trim())
+      .filter(Boolean)
+      .map(text => ({ type: 'paragraph', text }))
+  }
+
+  const blocks: ExportBlock[] = []
+  for (let i = 0; i < segments.length; i += SENTENCES_PER_PARAGRAPH) {
+    const group = segments.slice(i, i + SENTENCES_PER_PARAGRAPH)
+    blocks.push({
+      type: 'paragraph',
+      text: group.map(segment => segment.text).join(' '),
+      timestamp: formatTimestamp(group[0].start_time),
+    })
+  }
+  return blocks
+}
+
+/**
+ * Sections this lecture has content for
+ */
+export function getAvailableSections(
+  lecture: ExportLecture,
+  summary: LectureSummary | null,
+  segments: TranscriptSegment[]
+): ExportSectionId[] {
+  const available: Record<ExportSectionId, boolean> = {
+    overview: !!summary?.summary,
+    takeaways: !!summary?.important_points?.length,
+    concepts: !!summary?.key_concepts?.length,
+    definitions: !!summary?.definitions?.length,
+    transcript: segments.length > 0 || !!lecture.transcript,
+  }
+  return EXPORT_SECTIONS.map(section => section.id).filter(id => available[id])
+}
+
+/**
+ * The chosen sections of a lecture, in a fixed order. Sections with no
+ * content are left out.
+ */
+export function buildExportDocument(
+  lecture: ExportLecture,
+  summary: LectureSummary | null,
+  segments: TranscriptSegment[],
+  sectionIds: ExportSectionId[]
+): ExportDocument {
+  const meta = [
+    `Date: ${new Date(lecture.created_at).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`,
+  ]
+  if (lecture.duration) meta.push(`Duration: ${formatExportDuration(lecture.duration)}`)
+  if (summary?.difficulty_level && DIFFICULTY_STYLES[summary.difficulty_level]) {
+    meta.push(`Difficulty: ${DIFFICULTY_STYLES[summary.difficulty_level].label}`)
+  }
+  if (summary?.estimated_study_time_minutes) {
+    meta.push(`Estimated ${formatStudyTime(summary.estimated_study_time_minutes)}`)
+  }
+
+  const sections: ExportSection[] = []
+  for (const { id, label } of EXPORT_SECTIONS) {
+    if (!sectionIds.includes(id)) continue
+
+    let blocks: ExportBlock[] = []
+    if (id === 'overview' && summary?.summary) {
+      blocks = [{ type: 'paragraph', text: summary.summary }]
+    } else if (id === 'takeaways' && summary?.important_points?.length) {
+      blocks = [{ type: 'list', items: summary.important_points }]
+    } else if (id === 'concepts') {
+      blocks = (summary?.key_concepts || []).map(concept => ({
+        type: 'entry',
+        title: getConceptName(concept),
+        badge: concept.importance,
+        text: getConceptExplanation(concept),
+        note: concept.examples?.length ? `Examples: ${concept.examples.join('; ')}` : undefined,
+      }))
+    } else if (id === 'definitions') {
+      blocks = (summary?.definitions || []).map(definition => ({
+        type: 'entry',
+        title: definition.term,
+        text: definition.definition,
+        note: definition.context,
+      }))
+    } else if (id === 'transcript') {
+      blocks = buildTranscriptBlocks(lecture, segments)
+    }
+
+    if (blocks.length > 0) sections.push({ id, heading: label, blocks })
+  }
+
+  return {
+    title: lecture.title,
+    meta,
+    sections,
+    generatedAt: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+  }
+}
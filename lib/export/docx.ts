@@ -0,0 +1,62 @@
+import { AlignmentType, BorderStyle, Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx'
+import type { ExportDocument } from '@/lib/export/document'
+
+// Matches the accent used in the app and the PDF export
+const ACCENT_COLOR = '3B82F6'
+const MUTED_COLOR = '6B7280'
+
+export async function renderDocx(document: ExportDocument): Promise<Buffer> {
+  const children: Paragraph[] = [
+    new Paragraph({
+      heading: HeadingLevel.TITLE,
+      children: [new TextRun({ text: document.title, bold: true })],
+      border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: ACCENT_COLOR, space: 4 } },
+    }),
+    ...document.meta.map(item => new Paragraph({
+      children: [new TextRun({ text: item, color: MUTED_COLOR, size: 20 })],
+    })),
+  ]
+
+  for (const section of document.sections) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, spacing: { before: 360 }, text: section.heading }))
+
+    for (const block of section.blocks) {
+      if (block.type === 'paragraph') {
+        children.push(new Paragraph({
+          spacing: { after: 160 },
+          children: [
+            ...(block.timestamp ? [new TextRun({ text: `[${block.timestamp}] `, bold: true, color: ACCENT_COLOR })] : []),
+            new TextRun(block.text),
+          ],
+        }))
+      } else if (block.type === 'list') {
+        children.push(...block.items.map(item => new Paragraph({ bullet: { level: 0 }, text: item })))
+      } else {
+        children.push(new Paragraph({
+          heading: HeadingLevel.HEADING_3,
+          spacing: { before: 200 },
+          children: [
+            new TextRun(block.title),
+            ...(block.badge ? [new TextRun({ text: `  (${block.badge})`, color: MUTED_COLOR, size: 20 })] : []),
+          ],
+        }))
+        if (block.text) children.push(new Paragraph({ text: block.text }))
+        if (block.note) {
+          children.push(new Paragraph({ children: [new TextRun({ text: block.note, italics: true, color: MUTED_COLOR })] }))
+        }
+      }
+    }
+  }
+
+  children.push(new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { before: 480 },
+    children: [new TextRun({ text: `Generated by LectureLink on ${document.generatedAt}`, color: MUTED_COLOR, size: 16 })],
+  }))
+
+  return Packer.toBuffer(new Document({
+    title: document.title,
+    creator: 'LectureLink',
+    sections: [{ children }],
+  }))
+}
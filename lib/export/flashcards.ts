@@ -0,0 +1,67 @@
+/**
+ * Flashcard export for studying outside LectureLink: Anki packages
+ * (lib/export/anki.ts) and plain CSV/TSV. Cards come from buildFlashcards,
+ * so exports match the cards reviewed in the app.
+ */
+
+import type { Flashcard } from '@/lib/flashcards'
+
+export type FlashcardExportFormat = 'apkg' | 'csv' | 'tsv'
+
+export const FLASHCARD_EXPORT_FORMATS: Array<{ id: FlashcardExportFormat; label: string; description: string }> = [
+  { id: 'apkg', label: 'Anki', description: 'Deck package (.apkg)' },
+  { id: 'csv', label: 'CSV', description: 'Spreadsheets' },
+  { id: 'tsv', label: 'TSV', description: 'Anki text import' },
+]
+
+// Used when several lectures are exported without a deck name
+export const DEFAULT_DECK_NAME = 'LectureLink'
+
+export function isFlashcardExportFormat(value: string | null): value is FlashcardExportFormat {
+  return FLASHCARD_EXPORT_FORMATS.some(format => format.id === value)
+}
+
+// Anki tags can't contain spaces
+function toTag(text: string): string {
+  return text.trim().replace(/\s+/g, '_')
+}
+
+/**
+ * Card kind, concept importance and lecture, as Anki hierarchical tags
+ */
+export function getCardTags(card: Flashcard): string[] {
+  const tags: string[] = [card.kind]
+  if (card.importance) tags.push(`importance::${card.importance}`)
+  tags.push(`lecture::${toTag(card.lecture_title)}`)
+  return tags
+}
+
+/**
+ * Where the card came from, e.g. "Intro to Graphs - Slides 3, 5"
+ */
+export function getCardSource(card: Flashcard): string {
+  if (card.slides.length === 0) return card.lecture_title
+  return `${card.lecture_title} - Slide${card.slides.length === 1 ? '' : 's'} ${card.slides.join(', ')}`
+}
+
+function quoteField(value: string, separator: string): string {
+  if (!value.includes(separator) && !/["\r\n]/.test(value)) return value
+  return `"${value.replace(/"/g, '""')}"`
+}
+
+/**
+ * CSV gets a header row for spreadsheets. TSV starts with Anki's file
+ * headers instead, so importing it picks the deck and tag column by itself.
+ */
+export function renderDelimited(cards: Flashcard[], deckName: string, format: 'csv' | 'tsv'): string {
+  const separator = format === 'csv' ? ',' : '\t'
+  const lines = format === 'csv'
+    ? ['Front,Back,Tags,Source']
+    : ['#separator:tab', '#html:false', `#deck:${deckName.replace(/[\r\n]+/g, ' ')}`, '#tags column:3']
+
+  for (const card of cards) {
+    const fields = [card.front, card.back, getCardTags(card).join(' '), getCardSource(card)]
+    lines.push(fields.map(field => quoteField(field, separator)).join(separator))
+  }
+  return lines.join('\r\n') + '\r\n'
+}
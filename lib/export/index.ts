@@ -0,0 +1,87 @@
+/**
+ * Lecture export. buildExportDocument collects the chosen sections into one
+ * model and each format renders it; the export route serves the result.
+ * Flashcards export separately, as Anki packages or CSV/TSV, and the whole
+ * library as a Markdown vault.
+ */
+
+import type { Flashcard } from '@/lib/flashcards'
+import type { ExportDocument } from '@/lib/export/document'
+import { renderApkg } from '@/lib/export/anki'
+import { renderDocx } from '@/lib/export/docx'
+import { renderDelimited, type FlashcardExportFormat } from '@/lib/export/flashcards'
+import { renderMarkdown } from '@/lib/export/markdown'
+import { renderPdf } from '@/lib/export/pdf'
+
+export { EXPORT_SECTIONS, buildExportDocument, getAvailableSections } from '@/lib/export/document'
+export type { ExportDocument, ExportSectionId } from '@/lib/export/document'
+export { DEFAULT_DECK_NAME, isFlashcardExportFormat } from '@/lib/export/flashcards'
+export { renderVault } from '@/lib/export/vault'
+export type { VaultLecture } from '@/lib/export/vault'
+
+export type ExportFormat = 'pdf' | 'docx' | 'md'
+
+export const EXPORT_FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: 'pdf', label: 'PDF' },
+  { id: 'docx', label: 'Word (.docx)' },
+  { id: 'md', label: 'Markdown' },
+]
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  md: 'text/markdown; charset=utf-8',
+}
+
+const FLASHCARD_CONTENT_TYPES: Record<FlashcardExportFormat, string> = {
+  apkg: 'application/apkg',
+  csv: 'text/csv; charset=utf-8',
+  tsv: 'text/tab-separated-values; charset=utf-8',
+}
+
+export interface RenderedExport {
+  body: Uint8Array | string
+  contentType: string
+  fileName: string
+}
+
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return EXPORT_FORMATS.some(format => format.id === value)
+}
+
+/**
+ * File name from the lecture title, safe on any file system
+ */
+export function getExportFileName(title: string, extension: string): string {
+  const name = title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim().slice(0, 100)
+  return `${name || 'lecture'}.${extension}`
+}
+
+/**
+ * Content-Disposition for a download: an ASCII fallback name plus the exact
+ * UTF-8 name for browsers that read filename*
+ */
+export function getAttachmentHeader(fileName: string): string {
+  return `attachment; filename="${fileName.replace(/[^\x20-\x7E]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
+
+export async function renderExport(format: ExportFormat, document: ExportDocument): Promise<RenderedExport> {
+  let body: Uint8Array | string
+  if (format === 'pdf') body = await renderPdf(document)
+  else if (format === 'docx') body = new Uint8Array(await renderDocx(document))
+  else body = renderMarkdown(document)
+
+  return { body, contentType: CONTENT_TYPES[format], fileName: getExportFileName(document.title, format) }
+}
+
+export async function renderFlashcardExport(
+  format: FlashcardExportFormat,
+  cards: Flashcard[],
+  deckName: string
+): Promise<RenderedExport> {
+  const body = format === 'apkg'
+    ? await renderApkg(cards, deckName)
+    : renderDelimited(cards, deckName, format)
+
+  return { body, contentType: FLASHCARD_CONTENT_TYPES[format], fileName: getExportFileName(deckName, format) }
+}
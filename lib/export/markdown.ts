@@ -0,0 +1,37 @@
+import type { ExportDocument } from '@/lib/export/document'
+
+/**
+ * Backslash-escape characters Markdown would treat as formatting, and
+ * markers that would turn a line into a heading, list or quote
+ */
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<>&|~])/g, '\\$1')
+    .replace(/^(\s*)([#>+-])/gm, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/gm, '$1\\$2')
+}
+
+export function renderMarkdown(document: ExportDocument): string {
+  const lines: string[] = [`# ${escapeMarkdown(document.title)}`, '']
+  lines.push(...document.meta.map(item => `${escapeMarkdown(item)}  `), '')
+
+  for (const section of document.sections) {
+    lines.push(`## ${section.heading}`, '')
+
+    for (const block of section.blocks) {
+      if (block.type === 'paragraph') {
+        const text = escapeMarkdown(block.text)
+        lines.push(block.timestamp ? `**[${block.timestamp}]** ${text}` : text, '')
+      } else if (block.type === 'list') {
+        lines.push(...block.items.map(item => `- ${escapeMarkdown(item)}`), '')
+      } else {
+        lines.push(`### ${escapeMarkdown(block.title)}${block.badge ? ` *(${escapeMarkdown(block.badge)})*` : ''}`, '')
+        if (block.text) lines.push(escapeMarkdown(block.text), '')
+        if (block.note) lines.push(`*${escapeMarkdown(block.note)}*`, '')
+      }
+    }
+  }
+
+  lines.push('---', '', `*Generated by LectureLink on ${document.generatedAt}*`, '')
+  return lines.join('\n')
+}
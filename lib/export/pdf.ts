@@ -0,0 +1,318 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import fontkit from '@pdf-lib/fontkit'
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+import type { ExportDocument } from '@/lib/export/document'
+
+// A4 in points
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 56
+const FOOTER_HEIGHT = 24
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const LINE_HEIGHT = 1.45
+// Transcript paragraphs sit to the right of their timestamp
+const GUTTER = 48
+
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2)
+const HEADING_COLOR = rgb(0.12, 0.25, 0.69)
+const ACCENT_COLOR = rgb(0.23, 0.51, 0.96)
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5)
+
+// Noto Sans covers Latin, Greek and Cyrillic; the CJK fonts are only
+// embedded when the document has characters Noto Sans lacks, and are used
+// for every style since they're 6-10 MB each. Full paths, so the build's
+// file tracing ships just these files.
+const FONT_FILES = {
+  regular: path.join(process.cwd(), 'node_modules/@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf'),
+  bold: path.join(process.cwd(), 'node_modules/@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf'),
+  italic: path.join(process.cwd(), 'node_modules/@expo-google-fonts/noto-sans/400Regular_Italic/NotoSans_400Regular_Italic.ttf'),
+}
+const FALLBACK_FONT_FILES = [
+  path.join(process.cwd(), 'node_modules/@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf'),
+  path.join(process.cwd(), 'node_modules/@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf'),
+]
+
+// Without the Noto fonts the standard ones only cover WinAnsi; swap common
+// punctuation they lack for plain equivalents
+const REPLACEMENTS: Record<string, string> = {
+  '‘': '\'', '’': '\'', '“': '"', '”': '"',
+  '–': '-', '—': '-', '…': '...', '•': '-', ' ': ' ',
+}
+
+/**
+ * A style's fonts in order of preference. Each character is drawn with the
+ * first font that has it.
+ */
+class FontStack {
+  private readonly supported: Array<Set<number>>
+
+  constructor(readonly fonts: PDFFont[]) {
+    this.supported = fonts.map(font => new Set(font.getCharacterSet()))
+  }
+
+  private fontFor(char: string): number {
+    const code = char.codePointAt(0) as number
+    return this.supported.findIndex(set => set.has(code))
+  }
+
+  // Anything no font can encode would make pdf-lib throw
+  sanitize(text: string): string {
+    return Array.from(text.replace(/\r\n?/g, '\n'))
+      .map(char => char === '\n' || this.fontFor(char) >= 0 ? char : REPLACEMENTS[char] ?? '?')
+      .join('')
+  }
+
+  // Consecutive characters sharing a font
+  private runs(text: string): Array<{ font: PDFFont; text: string }> {
+    const runs: Array<{ font: PDFFont; text: string }> = []
+    for (const char of text) {
+      const font = this.fonts[Math.max(0, this.fontFor(char))]
+      const last = runs[runs.length - 1]
+      if (last?.font === font) last.text += char
+      else runs.push({ font, text: char })
+    }
+    return runs
+  }
+
+  widthOfTextAtSize(text: string, size: number): number {
+    return this.runs(text).reduce((width, run) => width + run.font.widthOfTextAtSize(run.text, size), 0)
+  }
+
+  draw(page: PDFPage, text: string, options: { x: number; y: number; size: number; color: ReturnType<typeof rgb> }) {
+    let x = options.x
+    for (const run of this.runs(text)) {
+      page.drawText(run.text, { ...options, x, font: run.font })
+      x += run.font.widthOfTextAtSize(run.text, options.size)
+    }
+  }
+}
+
+interface Fonts {
+  regular: FontStack
+  bold: FontStack
+  italic: FontStack
+}
+
+interface TextStyle {
+  font: FontStack
+  size: number
+  color: ReturnType<typeof rgb>
+  indent?: number
+}
+
+const fontFiles = new Map<string, Promise<Uint8Array>>()
+
+// Font files are read once per server process
+function loadFontFile(file: string): Promise<Uint8Array> {
+  let bytes = fontFiles.get(file)
+  if (!bytes) {
+    bytes = readFile(file)
+    // Let a failed read be retried next time
+    bytes.catch(() => fontFiles.delete(file))
+    fontFiles.set(file, bytes)
+  }
+  return bytes
+}
+
+function getDocumentText(document: ExportDocument): string {
+  const parts = [document.title, ...document.meta]
+  for (const section of document.sections) {
+    parts.push(section.heading)
+    for (const block of section.blocks) {
+      if (block.type === 'paragraph') parts.push(block.text)
+      else if (block.type === 'list') parts.push(...block.items)
+      else parts.push(block.title, block.badge || '', block.text, block.note || '')
+    }
+  }
+  return parts.join('\n')
+}
+
+/**
+ * Noto Sans plus whichever CJK fonts the document needs. Falls back to the
+ * standard (WinAnsi only) fonts if the font files can't be read.
+ */
+async function embedFonts(pdf: PDFDocument, document: ExportDocument): Promise<Fonts> {
+  try {
+    pdf.registerFontkit(fontkit)
+    const [regular, bold, italic] = await Promise.all(
+      [FONT_FILES.regular, FONT_FILES.bold, FONT_FILES.italic].map(async file =>
+        pdf.embedFont(await loadFontFile(file), { subset: true })
+      )
+    )
+
+    const covered = new Set(regular.getCharacterSet())
+    let missing = new Set(
+      Array.from(getDocumentText(document))
+        .map(char => char.codePointAt(0) as number)
+        .filter(code => code > 0x20 && !covered.has(code))
+    )
+    const fallbacks: PDFFont[] = []
+    for (const file of FALLBACK_FONT_FILES) {
+      if (missing.size === 0) break
+      const font = await pdf.embedFont(await loadFontFile(file), { subset: true })
+      const fontCodes = new Set(font.getCharacterSet())
+      fallbacks.push(font)
+      missing = new Set(Array.from(missing).filter(code => !fontCodes.has(code)))
+    }
+
+    return {
+      regular: new FontStack([regular, ...fallbacks]),
+      bold: new FontStack([bold, ...fallbacks]),
+      italic: new FontStack([italic, ...fallbacks]),
+    }
+  } catch (err) {
+    console.error('[LectureLink] Failed to load PDF fonts, using standard fonts:', err)
+    return {
+      regular: new FontStack([await pdf.embedFont(StandardFonts.Helvetica)]),
+      bold: new FontStack([await pdf.embedFont(StandardFonts.HelveticaBold)]),
+      italic: new FontStack([await pdf.embedFont(StandardFonts.HelveticaOblique)]),
+    }
+  }
+}
+
+/**
+ * Writes text top to bottom, wrapping lines and starting new pages as needed
+ */
+class PdfWriter {
+  private page: PDFPage
+  private y = PAGE_HEIGHT - MARGIN
+
+  constructor(private readonly pdf: PDFDocument, readonly fonts: Fonts) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  }
+
+  private wrap(text: string, font: FontStack, size: number, width: number): string[] {
+    const lines: string[] = []
+    for (const paragraph of text.split('\n')) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate
+          continue
+        }
+        if (line) lines.push(line)
+
+        // Break words longer than a whole line
+        line = ''
+        for (const char of word) {
+          if (line && font.widthOfTextAtSize(line + char, size) > width) {
+            lines.push(line)
+            line = ''
+          }
+          line += char
+        }
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height >= MARGIN + FOOTER_HEIGHT) return
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  space(height: number) {
+    this.y -= height
+  }
+
+  text(text: string, style: TextStyle) {
+    const indent = style.indent || 0
+    const lineHeight = style.size * LINE_HEIGHT
+    for (const line of this.wrap(style.font.sanitize(text), style.font, style.size, CONTENT_WIDTH - indent)) {
+      this.ensureSpace(lineHeight)
+      this.y -= lineHeight
+      style.font.draw(this.page, line, { x: MARGIN + indent, y: this.y, size: style.size, color: style.color })
+    }
+  }
+
+  // A short label in the left gutter, level with the first line of the text that follows
+  label(text: string, style: TextStyle) {
+    const lineHeight = style.size * LINE_HEIGHT
+    this.ensureSpace(lineHeight)
+    style.font.draw(this.page, style.font.sanitize(text), {
+      x: MARGIN,
+      y: this.y - lineHeight,
+      size: style.size,
+      color: style.color,
+    })
+  }
+
+  rule(color = ACCENT_COLOR) {
+    this.ensureSpace(8)
+    this.y -= 6
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 1.5,
+      color,
+    })
+    this.y -= 2
+  }
+}
+
+export async function renderPdf(document: ExportDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  pdf.setTitle(document.title)
+  pdf.setCreator('LectureLink')
+
+  const fonts = await embedFonts(pdf, document)
+  const writer = new PdfWriter(pdf, fonts)
+  const body: TextStyle = { font: fonts.regular, size: 11, color: TEXT_COLOR }
+
+  // Title
+  writer.text(document.title, { font: fonts.bold, size: 22, color: HEADING_COLOR })
+  writer.space(4)
+  writer.text(document.meta.join('   |   '), { font: fonts.regular, size: 10, color: MUTED_COLOR })
+  writer.rule()
+
+  for (const section of document.sections) {
+    writer.space(18)
+    writer.text(section.heading, { font: fonts.bold, size: 15, color: HEADING_COLOR })
+    writer.space(6)
+
+    for (const block of section.blocks) {
+      if (block.type === 'paragraph') {
+        if (block.timestamp) {
+          writer.label(block.timestamp, { ...body, font: fonts.bold, size: 9, color: ACCENT_COLOR })
+          writer.text(block.text, { ...body, indent: GUTTER })
+        } else {
+          writer.text(block.text, body)
+        }
+        writer.space(8)
+      } else if (block.type === 'list') {
+        for (const item of block.items) {
+          writer.label('-', { ...body, indent: 0 })
+          writer.text(item, { ...body, indent: 14 })
+          writer.space(4)
+        }
+      } else {
+        writer.space(4)
+        writer.text(block.badge ? `${block.title}  (${block.badge})` : block.title, { font: fonts.bold, size: 12, color: TEXT_COLOR })
+        if (block.text) writer.text(block.text, body)
+        if (block.note) writer.text(block.note, { font: fonts.italic, size: 10, color: MUTED_COLOR })
+        writer.space(8)
+      }
+    }
+  }
+
+  // Footer on every page
+  const pages = pdf.getPages()
+  const footerTitle = fonts.regular.sanitize(document.title).replace(/\n/g, ' ')
+  pages.forEach((page, index) => {
+    const pageLabel = `Page ${index + 1} of ${pages.length}`
+    const title = footerTitle.length > 80 ? `${footerTitle.slice(0, 77)}...` : footerTitle
+    fonts.regular.draw(page, `LectureLink - ${title}`, { x: MARGIN, y: MARGIN / 2, size: 8, color: MUTED_COLOR })
+    fonts.regular.draw(page, pageLabel, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(pageLabel, 8),
+      y: MARGIN / 2,
+      size: 8,
+      color: MUTED_COLOR,
+    })
+  })
+
+  return pdf.save()
+}
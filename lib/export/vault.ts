@@ -0,0 +1,266 @@
+/**
+ * Markdown vault export for Obsidian and similar apps: one note per lecture
+ * and one per key concept or definition, joined by [[wikilinks]]. Concepts
+ * and definitions with the same name (after getConceptName) share a note
+ * across lectures, so a term taught twice links both lectures.
+ */
+
+import JSZip from 'jszip'
+import { getConceptExplanation, getConceptName } from '@/lib/concepts'
+import { escapeMarkdown } from '@/lib/export/markdown'
+import type { KeyConcept, Lecture, LectureSummary } from '@/lib/types'
+
+export type VaultLecture = Pick<Lecture, 'id' | 'title' | 'recording_date' | 'duration'> & {
+  summary: Pick<LectureSummary, 'summary' | 'important_points' | 'key_concepts' | 'definitions' | 'difficulty_level'> | null
+}
+
+interface TermMention {
+  lecture: VaultLecture
+  kind: 'concept' | 'definition'
+  text: string
+  importance?: KeyConcept['importance']
+  details: string[]
+  slides: number[]
+}
+
+interface VaultTerm {
+  // Note name, unique across the vault
+  note: string
+  name: string
+  mentions: TermMention[]
+}
+
+const ROOT = 'LectureLink'
+const INDEX_NOTE = 'LectureLink Index'
+
+// Characters file systems or Obsidian links don't allow in note names
+function toNoteName(text: string): string {
+  return text.replace(/[\\/:*?"<>|#^[\]]/g, '').replace(/\s+/g, ' ').trim().slice(0, 100) || 'Untitled'
+}
+
+function getTermKey(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+function link(note: string): string {
+  return `[[${note}]]`
+}
+
+function formatDuration(seconds?: number): string | null {
+  if (!seconds) return null
+  const hours = Math.floor(seconds / 3600)
+  const mins = Math.floor((seconds % 3600) / 60)
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`
+}
+
+function getDate(value: string): string {
+  return new Date(value).toISOString().slice(0, 10)
+}
+
+// JSON strings are valid YAML double-quoted scalars
+function frontMatter(fields: Record<string, string | string[] | null>): string {
+  const lines = ['---']
+  for (const [key, value] of Object.entries(fields)) {
+    if (Array.isArray(value)) {
+      lines.push(value.length > 0 ? `${key}:` : `${key}: []`, ...value.map(item => `  - ${JSON.stringify(item)}`))
+    } else {
+      lines.push(`${key}: ${value === null ? 'null' : JSON.stringify(value)}`)
+    }
+  }
+  lines.push('---', '')
+  return lines.join('\n')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function uniqueSlides(numbers: Array<number | undefined>): number[] {
+  return numbers.filter((n, i): n is number => !!n && numbers.indexOf(n) === i)
+}
+
+/**
+ * Every note in the vault, by path inside the zip
+ */
+export function buildVault(lectures: VaultLecture[]): Map<string, string> {
+  const usedNames = new Set([INDEX_NOTE.toLowerCase()])
+  const uniqueName = (text: string) => {
+    const base = toNoteName(text)
+    let name = base
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) name = `${base} (${n})`
+    usedNames.add(name.toLowerCase())
+    return name
+  }
+
+  const ordered = [...lectures].sort((a, b) => a.recording_date.localeCompare(b.recording_date))
+  const lectureNotes = new Map(ordered.map(lecture => [lecture.id, uniqueName(lecture.title)]))
+
+  // Collect terms across lectures
+  const terms = new Map<string, VaultTerm>()
+  const addMention = (name: string, mention: TermMention) => {
+    if (!name.trim() || !mention.text.trim()) return
+    const key = getTermKey(name)
+    let term = terms.get(key)
+    if (!term) {
+      term = { note: '', name: name.trim(), mentions: [] }
+      terms.set(key, term)
+    }
+    term.mentions.push(mention)
+  }
+
+  for (const lecture of ordered) {
+    for (const concept of lecture.summary?.key_concepts || []) {
+      if (!concept.name && !concept.concept && !concept.term) continue
+      addMention(getConceptName(concept), {
+        lecture,
+        kind: 'concept',
+        text: getConceptExplanation(concept),
+        importance: concept.importance,
+        details: (concept.examples || []).map(example => `Example: ${example}`),
+        slides: uniqueSlides([concept.slide_reference, ...(concept.related_slides || [])]),
+      })
+    }
+    for (const definition of lecture.summary?.definitions || []) {
+      addMention(definition.term || '', {
+        lecture,
+        kind: 'definition',
+        text: definition.definition || '',
+        details: definition.context ? [`Context: ${definition.context}`] : [],
+        slides: uniqueSlides([definition.slide_reference, definition.first_mentioned_slide]),
+      })
+    }
+  }
+
+  const sortedTerms = Array.from(terms.values()).sort((a, b) => a.name.localeCompare(b.name))
+  for (const term of sortedTerms) term.note = uniqueName(term.name)
+
+  // Terms named in another term's explanation are related
+  const patterns = sortedTerms.map(term => ({
+    term,
+    pattern: new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term.name)}($|[^\\p{L}\\p{N}])`, 'iu'),
+  }))
+  const getRelated = (term: VaultTerm) => patterns
+    .filter(other => other.term !== term && term.mentions.some(mention => other.pattern.test(mention.text)))
+    .map(other => other.term)
+
+  const getLectureTerms = (lecture: VaultLecture, kind: TermMention['kind']) => sortedTerms
+    .map(term => ({ term, mention: term.mentions.find(m => m.lecture === lecture && m.kind === kind) }))
+    .filter((entry): entry is { term: VaultTerm; mention: TermMention } => !!entry.mention)
+
+  const files = new Map<string, string>()
+
+  // Lecture notes
+  for (const lecture of ordered) {
+    const note = lectureNotes.get(lecture.id) as string
+    const summary = lecture.summary
+    const lines = [
+      frontMatter({
+        title: lecture.title,
+        type: 'lecture',
+        recording_date: getDate(lecture.recording_date),
+        duration: formatDuration(lecture.duration),
+        difficulty: summary?.difficulty_level || null,
+        tags: ['lecturelink/lecture'],
+      }),
+      `# ${escapeMarkdown(lecture.title)}`,
+      '',
+    ]
+
+    if (summary?.summary) lines.push('## Summary', '', escapeMarkdown(summary.summary), '')
+    if (summary?.important_points?.length) {
+      lines.push('## Key Takeaways', '', ...summary.important_points.map(point => `- ${escapeMarkdown(point)}`), '')
+    }
+
+    const concepts = getLectureTerms(lecture, 'concept')
+    if (concepts.length > 0) {
+      lines.push('## Key Concepts', '')
+      lines.push(...concepts.map(({ term, mention }) =>
+        `- ${link(term.note)}${mention.importance ? ` *(${mention.importance})*` : ''} - ${escapeMarkdown(mention.text)}`
+      ), '')
+    }
+
+    const definitions = getLectureTerms(lecture, 'definition')
+    if (definitions.length > 0) {
+      lines.push('## Definitions', '')
+      lines.push(...definitions.map(({ term, mention }) => `- ${link(term.note)}: ${escapeMarkdown(mention.text)}`), '')
+    }
+
+    // Other lectures that cover the same terms
+    const shared = new Map<VaultLecture, VaultTerm[]>()
+    for (const { term } of [...concepts, ...definitions]) {
+      for (const mention of term.mentions) {
+        if (mention.lecture === lecture) continue
+        const list = shared.get(mention.lecture) || []
+        if (!list.includes(term)) list.push(term)
+        shared.set(mention.lecture, list)
+      }
+    }
+    if (shared.size > 0) {
+      lines.push('## Related Lectures', '')
+      for (const [other, sharedTerms] of shared) {
+        lines.push(`- ${link(lectureNotes.get(other.id) as string)} - also covers ${sharedTerms.map(term => link(term.note)).join(', ')}`)
+      }
+      lines.push('')
+    }
+
+    files.set(`${ROOT}/Lectures/${note}.md`, lines.join('\n'))
+  }
+
+  // Concept and definition notes
+  for (const term of sortedTerms) {
+    const first = term.mentions[0].lecture
+    const lines = [
+      frontMatter({
+        title: term.name,
+        type: term.mentions.some(mention => mention.kind === 'concept') ? 'concept' : 'definition',
+        // When the term was first taught
+        recording_date: getDate(first.recording_date),
+        difficulty: first.summary?.difficulty_level || null,
+        lectures: Array.from(new Set(term.mentions.map(mention => link(lectureNotes.get(mention.lecture.id) as string)))),
+        tags: Array.from(new Set(term.mentions.map(mention => `lecturelink/${mention.kind}`))),
+      }),
+      `# ${escapeMarkdown(term.name)}`,
+      '',
+    ]
+
+    for (const mention of term.mentions) {
+      const source = [mention.kind === 'concept' ? 'Concept' : 'Definition']
+      if (mention.importance) source.push(`${mention.importance} importance`)
+      if (mention.slides.length > 0) source.push(`slide${mention.slides.length === 1 ? '' : 's'} ${mention.slides.join(', ')}`)
+
+      lines.push(`## From ${link(lectureNotes.get(mention.lecture.id) as string)}`, '', `*${source.join(', ')}*`, '', escapeMarkdown(mention.text), '')
+      if (mention.details.length > 0) {
+        lines.push(...mention.details.map(detail => `- ${escapeMarkdown(detail)}`), '')
+      }
+    }
+
+    const related = getRelated(term)
+    if (related.length > 0) {
+      lines.push('## Related', '', ...related.map(other => `- ${link(other.note)}`), '')
+    }
+
+    files.set(`${ROOT}/Concepts/${term.note}.md`, lines.join('\n'))
+  }
+
+  // Index
+  files.set(`${ROOT}/${INDEX_NOTE}.md`, [
+    `# ${INDEX_NOTE}`,
+    '',
+    '## Lectures',
+    '',
+    ...ordered.map(lecture => `- ${getDate(lecture.recording_date)} ${link(lectureNotes.get(lecture.id) as string)}`),
+    '',
+    '## Concepts and Definitions',
+    '',
+    ...sortedTerms.map(term => `- ${link(term.note)}`),
+    '',
+  ].join('\n'))
+
+  return files
+}
+
+export async function renderVault(lectures: VaultLecture[]): Promise<Uint8Array> {
+  const zip = new JSZip()
+  for (const [path, content] of buildVault(lectures)) zip.file(path, content)
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
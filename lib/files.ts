@@ -0,0 +1,151 @@
+/**
+ * Audio and slide file validation shared by the upload forms
+ */
+
+const AUDIO_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/webm', 'audio/m4a', 'audio/mp4', 'audio/x-m4a', 'audio/flac', 'audio/x-flac']
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'webm', 'm4a', 'mp4', 'flac']
+const MAX_AUDIO_SIZE = 500 * 1024 * 1024
+
+const SLIDES_TYPES = ['application/pdf', 'application/vnd.openxmlformats-officedocument.presentationml.presentation']
+const SLIDES_EXTENSIONS = ['pdf', 'pptx']
+const MAX_SLIDES_SIZE = 50 * 1024 * 1024
+
+function getExtension(file: File): string {
+  return file.name.split('.').pop()?.toLowerCase() || ''
+}
+
+export function isAudioFile(file: File): boolean {
+  return AUDIO_TYPES.includes(file.type) || AUDIO_EXTENSIONS.includes(getExtension(file))
+}
+
+export function isSlidesFile(file: File): boolean {
+  return SLIDES_TYPES.includes(file.type) || SLIDES_EXTENSIONS.includes(getExtension(file))
+}
+
+/**
+ * Returns an error message, or null if the file can be uploaded
+ */
+export function validateAudioFile(file: File): string | null {
+  if (!isAudioFile(file)) {
+    return 'Please upload an MP3, WAV, WebM, M4A, or FLAC audio file'
+  }
+  if (file.size > MAX_AUDIO_SIZE) {
+    return 'Audio file must be less than 500MB'
+  }
+  return null
+}
+
+/**
+ * Returns an error message, or null if the file can be uploaded
+ */
+export function validateSlidesFile(file: File): string | null {
+  if (!isSlidesFile(file)) {
+    return 'Please upload a PDF or PPTX file'
+  }
+  if (file.size > MAX_SLIDES_SIZE) {
+    return 'Slides file must be less than 50MB'
+  }
+  return null
+}
+
+// File name without extension, used to pair audio with slides
+export function getBaseName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '')
+}
+
+// "week-3_intro_to_ml" -> "Week 3 intro to ml"
+export function titleFromFileName(fileName: string): string {
+  const words = getBaseName(fileName).replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/**
+ * Save a blob through the browser's download prompt
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Download a file generated by one of our API routes, saved under the name
+ * the route sends. Throws with the route's error message if it fails.
+ */
+export async function downloadFile(url: string, fallbackName: string) {
+  const response = await fetch(url)
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error || 'Download failed')
+  }
+
+  const header = response.headers.get('Content-Disposition') || ''
+  const encoded = header.match(/filename\*=UTF-8''([^;]+)/)
+  const fileName = encoded
+    ? decodeURIComponent(encoded[1])
+    : header.match(/filename="([^"]+)"/)?.[1] || fallbackName
+
+  downloadBlob(await response.blob(), fileName)
+}
+
+// Some WebM/Opus files never report a duration after the seek-to-end trick
+const AUDIO_DURATION_TIMEOUT_MS = 15_000
+
+/**
+ * Read an audio file's duration in seconds from its metadata. Returns null
+ * if the browser can't decode the file or doesn't report a length in time.
+ */
+export function getAudioDuration(file: File): Promise<number | null> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(file)
+    const audio = new Audio()
+    audio.preload = 'metadata'
+
+    let settled = false
+    const finish = (duration: number | null) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timeout)
+      audio.onloadedmetadata = null
+      audio.ondurationchange = null
+      audio.onerror = null
+      audio.removeAttribute('src')
+      audio.load()
+      URL.revokeObjectURL(url)
+      resolve(duration)
+    }
+    const timeout = setTimeout(() => finish(null), AUDIO_DURATION_TIMEOUT_MS)
+
+    audio.onloadedmetadata = () => {
+      if (Number.isFinite(audio.duration)) {
+        finish(audio.duration)
+        return
+      }
+      // MediaRecorder WebM files don't store a duration; seeking past the
+      // end makes the browser scan the file and report it
+      audio.ondurationchange = () => {
+        if (Number.isFinite(audio.duration)) finish(audio.duration)
+      }
+      audio.currentTime = Number.MAX_SAFE_INTEGER
+    }
+    audio.onerror = () => finish(null)
+    audio.src = url
+  })
+}
+
+export function formatMinutes(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60)
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  const remaining = minutes % 60
+  return remaining ? `${hours}h ${remaining}m` : `${hours}h`
+}
@@ -0,0 +1,357 @@
+/**
+ * Server-side job finalizer
+ *
+ * Takes a finished backend job and writes its results onto the lecture:
+ * transcript (with sentence timings and slide alignment), slides, duration,
+ * master document and AI summary. Safe to call any number of times
+ * for the same job - from the record page, a backend callback or the
+ * periodic sweep - because:
+ *   - lectures that are no longer 'processing' are left untouched
+ *   - a short lease (finalizing_at) stops two runs working on one lecture
+ *   - every write is an update/upsert keyed on the lecture
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { api, type JobResult, type SummaryEnvelope, type SummaryResponse } from '@/lib/api'
+import { isQuotaError, QuotaExceededError } from '@/lib/quota'
+import { getSummaryContent } from '@/lib/summary-revisions'
+import type { Lecture } from '@/lib/types'
+
+// A run that crashes mid-way releases the lecture after this long
+const LEASE_DURATION_MS = 10 * 60 * 1000
+// Rows per insert when saving transcript sentences
+const SEGMENT_BATCH_SIZE = 500
+
+export type FinalizeOutcome =
+  | 'completed'
+  | 'failed'
+  | 'in_progress'
+  | 'already_finalized'
+  | 'not_found'
+
+export interface FinalizeResult {
+  outcome: FinalizeOutcome
+  lecture_id?: string
+  error?: string
+}
+
+type FinalizeLecture = Pick<Lecture, 'id' | 'title' | 'status' | 'job_id'>
+
+/**
+ * Backend callbacks and scheduled sweeps authenticate with CRON_SECRET
+ * (Vercel Cron sends it as a bearer token automatically)
+ */
+export function isTrustedRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`
+}
+
+function unwrapSummary(response: SummaryResponse | SummaryEnvelope): {
+  summary: SummaryResponse
+  lectureTitle?: string
+} {
+  if ('summary' in response) {
+    return { summary: response.summary, lectureTitle: response.lecture_title }
+  }
+  return { summary: response }
+}
+
+// Claim the lecture for this run; returns false if another run holds it
+async function acquireLease(supabase: SupabaseClient, lectureId: string): Promise<boolean> {
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - LEASE_DURATION_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from('lectures')
+    .update({ finalizing_at: now.toISOString() })
+    .eq('id', lectureId)
+    .eq('status', 'processing')
+    .or(`finalizing_at.is.null,finalizing_at.lt.${staleBefore}`)
+    .select('id')
+
+  if (error) throw error
+  return (data || []).length > 0
+}
+
+async function releaseLease(supabase: SupabaseClient, lectureId: string) {
+  await supabase
+    .from('lectures')
+    .update({ finalizing_at: null })
+    .eq('id', lectureId)
+}
+
+// The reason is shown on the lecture page
+async function markFailed(supabase: SupabaseClient, lectureId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('lectures')
+    .update({ status: 'failed', failure_reason: reason, finalizing_at: null })
+    .eq('id', lectureId)
+
+  if (error) throw error
+}
+
+// Replace the lecture's transcript sentences (reprocessing rewrites them all)
+async function saveTranscriptSegments(supabase: SupabaseClient, lectureId: string, result: JobResult) {
+  const sentences = result.transcription?.sentences || []
+  const alignmentByIndex = new Map(
+    (result.alignment?.aligned_sentences || []).map(aligned => [aligned.sentence_index, aligned])
+  )
+
+  const { error: deleteError } = await supabase
+    .from('transcript_segments')
+    .delete()
+    .eq('lecture_id', lectureId)
+
+  if (deleteError) throw deleteError
+
+  const rows = sentences.map((sentence, position) => ({
+    lecture_id: lectureId,
+    position,
+    text: sentence.text.trim(),
+    start_time: sentence.start,
+    end_time: sentence.end,
+    slide_number: alignmentByIndex.get(position)?.slide_number ?? null,
+    slide_similarity: alignmentByIndex.get(position)?.similarity ?? null,
+  }))
+
+  for (let i = 0; i < rows.length; i += SEGMENT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('transcript_segments')
+      .insert(rows.slice(i, i + SEGMENT_BATCH_SIZE))
+
+    if (error) throw error
+  }
+}
+
+async function saveSlides(supabase: SupabaseClient, lectureId: string, result: JobResult) {
+  const { error: deleteError } = await supabase
+    .from('lecture_slides')
+    .delete()
+    .eq('lecture_id', lectureId)
+
+  if (deleteError) throw deleteError
+
+  const slides = result.slides?.slides || []
+  if (slides.length === 0) return
+
+  const { error } = await supabase
+    .from('lecture_slides')
+    .insert(slides.map(slide => ({
+      lecture_id: lectureId,
+      slide_number: slide.slide_number,
+      title: slide.title || null,
+      content: slide.content || '',
+    })))
+
+  if (error) throw error
+}
+
+// Kept after the job is deleted so quizzes can be generated from it later
+async function saveDocument(supabase: SupabaseClient, lectureId: string, result: JobResult) {
+  const document = result.master_document
+  if (!document?.markdown_content) return
+
+  const { error } = await supabase
+    .from('lecture_documents')
+    .upsert({
+      lecture_id: lectureId,
+      markdown_content: document.markdown_content,
+      total_sections: document.total_sections ?? null,
+      total_words: document.total_words ?? null,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'lecture_id' })
+
+  if (error) throw error
+}
+
+async function saveResult(supabase: SupabaseClient, lecture: FinalizeLecture, result: JobResult) {
+  const markdownContent = result.master_document?.markdown_content
+  // Round duration to integer (database expects integer type)
+  const duration = Math.round(result.summary?.audio_duration_seconds || 0)
+
+  // Always save transcript first, regardless of summary generation
+  const { error: lectureUpdateError } = await supabase
+    .from('lectures')
+    .update({
+      transcript: result.transcript || '',
+      duration: duration,
+      has_slides: !!result.slides?.total_slides,
+      has_alignment: !!result.alignment?.total_aligned_sentences,
+    })
+    .eq('id', lecture.id)
+
+  // The database rejects a duration that takes the user over their quota
+  if (isQuotaError(lectureUpdateError)) {
+    throw new QuotaExceededError('This recording is longer than the recording minutes you had left, so its results weren\'t saved')
+  }
+  if (lectureUpdateError) throw lectureUpdateError
+
+  await saveTranscriptSegments(supabase, lecture.id, result)
+  await saveSlides(supabase, lecture.id, result)
+  await saveDocument(supabase, lecture.id, result)
+
+  // A failed summary shouldn't hold back the transcript
+  if (markdownContent) {
+    try {
+      const { summary, lectureTitle } = unwrapSummary(
+        await api.generateSummary(markdownContent, lecture.title)
+      )
+
+      const content = getSummaryContent({
+        summary: summary.overview || '',
+        key_concepts: summary.key_concepts || [],
+        definitions: summary.definitions || [],
+        important_points: summary.main_takeaways || [],
+        action_items: [],
+      })
+
+      const { error: summaryError } = await supabase
+        .from('lecture_summaries')
+        .upsert({
+          lecture_id: lecture.id,
+          title: summary.title || lectureTitle || lecture.title,
+          ...content,
+          study_questions: summary.study_questions || [],
+          difficulty_level: summary.difficulty_level || null,
+          estimated_study_time_minutes: summary.estimated_study_time_minutes
+            ? Math.round(summary.estimated_study_time_minutes)
+            : null,
+        }, { onConflict: 'lecture_id' })
+
+      if (summaryError) throw summaryError
+
+      // Reprocessing replaces any edits; they stay in the history
+      const { error: revisionError } = await supabase
+        .from('lecture_summary_revisions')
+        .insert({ lecture_id: lecture.id, content, source: 'ai' })
+
+      if (revisionError) throw revisionError
+    } catch (err) {
+      console.error('[LectureLink] Failed to generate summary:', err)
+    }
+  }
+
+  const { error: completeError } = await supabase
+    .from('lectures')
+    .update({ status: 'completed', job_stage: 'complete', job_progress: 100, finalizing_at: null })
+    .eq('id', lecture.id)
+
+  if (completeError) throw completeError
+}
+
+/**
+ * Finalize the lecture that owns `jobId`, if its job has finished
+ */
+export async function finalizeJob(supabase: SupabaseClient, jobId: string): Promise<FinalizeResult> {
+  const { data: lecture, error: lectureError } = await supabase
+    .from('lectures')
+    .select('id, title, status, job_id')
+    .eq('job_id', jobId)
+    .maybeSingle<FinalizeLecture>()
+
+  if (lectureError) throw lectureError
+  if (!lecture) {
+    return { outcome: 'not_found' }
+  }
+  if (lecture.status !== 'processing') {
+    return { outcome: 'already_finalized', lecture_id: lecture.id }
+  }
+
+  let status
+  try {
+    status = await api.getJobStatus(jobId)
+  } catch (err) {
+    // The backend forgot the job (restart or cleanup) - nothing left to collect
+    if (err instanceof Error && err.message === 'Job not found') {
+      if (!(await acquireLease(supabase, lecture.id))) {
+        return { outcome: 'in_progress', lecture_id: lecture.id }
+      }
+      const error = 'Processing job no longer exists'
+      await markFailed(supabase, lecture.id, error)
+      return { outcome: 'failed', lecture_id: lecture.id, error }
+    }
+    throw err
+  }
+
+  if (status.status === 'pending' || status.status === 'processing') {
+    return { outcome: 'in_progress', lecture_id: lecture.id }
+  }
+
+  if (!(await acquireLease(supabase, lecture.id))) {
+    return { outcome: 'in_progress', lecture_id: lecture.id }
+  }
+
+  if (status.status === 'failed') {
+    const error = status.error || 'Processing failed'
+    await markFailed(supabase, lecture.id, error)
+    return { outcome: 'failed', lecture_id: lecture.id, error }
+  }
+
+  try {
+    await supabase
+      .from('lectures')
+      .update({ job_stage: 'summary', job_progress: 95 })
+      .eq('id', lecture.id)
+
+    const result = await api.getJobResult(jobId)
+    await saveResult(supabase, lecture, result)
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      await markFailed(supabase, lecture.id, err.message)
+      await api.deleteJob(jobId).catch(() => {})
+      return { outcome: 'failed', lecture_id: lecture.id, error: err.message }
+    }
+    await releaseLease(supabase, lecture.id)
+    throw err
+  }
+
+  // Cleanup job on server AFTER everything is saved
+  await api.deleteJob(jobId).catch(() => {})
+
+  return { outcome: 'completed', lecture_id: lecture.id }
+}
+
+/**
+ * Finalize every in-flight lecture. Lectures that never got a job id
+ * (the upload tab closed before the backend accepted the file) are
+ * failed once their current run started more than `orphanAfterMs` ago.
+ */
+export async function sweepJobs(
+  supabase: SupabaseClient,
+  orphanAfterMs = 6 * 60 * 60 * 1000
+): Promise<FinalizeResult[]> {
+  const { data: lectures, error } = await supabase
+    .from('lectures')
+    .select('id, job_id, created_at, processing_started_at')
+    .eq('status', 'processing')
+    .order('created_at', { ascending: true })
+    .limit(100)
+
+  if (error) throw error
+
+  const results: FinalizeResult[] = []
+  const orphanBefore = Date.now() - orphanAfterMs
+
+  for (const lecture of (lectures || []) as Pick<Lecture, 'id' | 'job_id' | 'created_at' | 'processing_started_at'>[]) {
+    try {
+      // Reprocessed lectures are old but only just started uploading again
+      const startedAt = lecture.processing_started_at || lecture.created_at
+      if (lecture.job_id) {
+        results.push(await finalizeJob(supabase, lecture.job_id))
+      } else if (new Date(startedAt).getTime() < orphanBefore) {
+        const error = 'Upload never reached the processing server'
+        await markFailed(supabase, lecture.id, error)
+        results.push({ outcome: 'failed', lecture_id: lecture.id, error })
+      }
+    } catch (err) {
+      console.error('[LectureLink] Sweep failed for lecture:', lecture.id, err)
+      results.push({
+        outcome: 'in_progress',
+        lecture_id: lecture.id,
+        error: err instanceof Error ? err.message : 'Finalize failed',
+      })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,251 @@
+/**
+ * Flashcards built from each lecture's key concepts and definitions.
+ * Cards aren't stored; only their review state is, in flashcard_reviews,
+ * keyed by lecture and card_key.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getConceptExplanation, getConceptName } from '@/lib/concepts'
+import type { ReviewState } from '@/lib/srs'
+import type { KeyConcept, LectureSummary } from '@/lib/types'
+
+// New cards introduced per day, across all lectures
+export const NEW_CARDS_PER_DAY = 20
+
+export interface FlashcardReview extends ReviewState {
+  lecture_id: string
+  card_key: string
+  created_at: string
+}
+
+export interface Flashcard {
+  key: string
+  lecture_id: string
+  lecture_title: string
+  kind: 'concept' | 'definition'
+  front: string
+  back: string
+  // Concepts only
+  importance?: KeyConcept['importance']
+  // Slides the term or concept appears on
+  slides: number[]
+  // Null until the card is first reviewed
+  review: FlashcardReview | null
+}
+
+export interface FlashcardDeck {
+  cards: Flashcard[]
+  // New cards already started today, counted against NEW_CARDS_PER_DAY
+  newCardsToday: number
+}
+
+/**
+ * What a concept's or definition's card is keyed by. Edited summaries give
+ * each entry an id that survives renames; entries without one use their
+ * lowercased text, which is also the id they get when first edited, so
+ * existing review state and Anki notes stay attached.
+ */
+export function getFlashcardId(entry: { id?: string }, text: string): string {
+  return entry.id || text.trim().toLowerCase()
+}
+
+function getCardKey(kind: Flashcard['kind'], id: string): string {
+  return `${kind}:${id}`
+}
+
+function getStartOfDay(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+}
+
+/**
+ * Cards for one lecture's summary; entries without an answer are skipped
+ */
+export function buildFlashcards(
+  lecture: { id: string; title: string },
+  summary: Pick<LectureSummary, 'key_concepts' | 'definitions'>
+): Flashcard[] {
+  const cards = new Map<string, Flashcard>()
+
+  const add = (
+    kind: Flashcard['kind'],
+    id: string,
+    front: string,
+    back: string,
+    slides: Array<number | undefined>,
+    importance?: KeyConcept['importance']
+  ) => {
+    const key = getCardKey(kind, id)
+    if (!front.trim() || !back.trim() || cards.has(key)) return
+    cards.set(key, {
+      key,
+      lecture_id: lecture.id,
+      lecture_title: lecture.title,
+      kind,
+      front: front.trim(),
+      back: back.trim(),
+      importance,
+      slides: slides.filter((n, i): n is number => !!n && slides.indexOf(n) === i),
+      review: null,
+    })
+  }
+
+  for (const definition of summary.definitions || []) {
+    const term = definition.term || ''
+    add('definition', getFlashcardId(definition, term), term, definition.definition || '', [
+      definition.slide_reference,
+      definition.first_mentioned_slide,
+    ])
+  }
+  for (const concept of summary.key_concepts || []) {
+    const name = getConceptName(concept)
+    add(
+      'concept',
+      getFlashcardId(concept, name),
+      name,
+      getConceptExplanation(concept),
+      [concept.slide_reference, ...(concept.related_slides || [])],
+      concept.importance
+    )
+  }
+
+  return Array.from(cards.values())
+}
+
+/**
+ * Every card from completed lectures (or one lecture) with its review state
+ */
+export async function loadFlashcardDeck(
+  supabase: SupabaseClient,
+  lectureId?: string,
+  now = new Date()
+): Promise<FlashcardDeck> {
+  let lecturesQuery = supabase
+    .from('lectures')
+    .select('id, title, lecture_summaries (key_concepts, definitions)')
+    .eq('status', 'completed')
+    .order('created_at', { ascending: false })
+  let reviewsQuery = supabase
+    .from('flashcard_reviews')
+    .select('lecture_id, card_key, ease_factor, interval_days, repetitions, due_at, created_at')
+  if (lectureId) {
+    lecturesQuery = lecturesQuery.eq('id', lectureId)
+    reviewsQuery = reviewsQuery.eq('lecture_id', lectureId)
+  }
+
+  const [lecturesResult, reviewsResult, newTodayResult] = await Promise.all([
+    lecturesQuery,
+    reviewsQuery,
+    supabase
+      .from('flashcard_reviews')
+      .select('id', { count: 'exact', head: true })
+      .gte('created_at', getStartOfDay(now).toISOString()),
+  ])
+  if (lecturesResult.error) throw lecturesResult.error
+  if (reviewsResult.error) throw reviewsResult.error
+  if (newTodayResult.error) throw newTodayResult.error
+
+  const reviews = new Map<string, FlashcardReview>()
+  for (const review of (reviewsResult.data || []) as FlashcardReview[]) {
+    reviews.set(`${review.lecture_id}/${review.card_key}`, review)
+  }
+
+  const cards: Flashcard[] = []
+  for (const lecture of lecturesResult.data || []) {
+    const summary = Array.isArray(lecture.lecture_summaries)
+      ? lecture.lecture_summaries[0]
+      : lecture.lecture_summaries
+    if (!summary) continue
+
+    for (const card of buildFlashcards(lecture, summary as Pick<LectureSummary, 'key_concepts' | 'definitions'>)) {
+      card.review = reviews.get(`${card.lecture_id}/${card.key}`) || null
+      cards.push(card)
+    }
+  }
+
+  return { cards, newCardsToday: newTodayResult.count || 0 }
+}
+
+/**
+ * Cards from the given completed lectures (or all of them), oldest lecture
+ * first, without review state. For exporting decks.
+ */
+export async function loadLectureFlashcards(
+  supabase: SupabaseClient,
+  lectureIds?: string[]
+): Promise<{ lectures: Array<{ id: string; title: string }>; cards: Flashcard[] }> {
+  let query = supabase
+    .from('lectures')
+    .select('id, title, lecture_summaries (key_concepts, definitions)')
+    .eq('status', 'completed')
+    .order('created_at', { ascending: true })
+  if (lectureIds) query = query.in('id', lectureIds)
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const lectures = (data || []).map(({ id, title }) => ({ id, title }))
+  const cards: Flashcard[] = []
+  for (const lecture of data || []) {
+    const summary = Array.isArray(lecture.lecture_summaries)
+      ? lecture.lecture_summaries[0]
+      : lecture.lecture_summaries
+    if (summary) cards.push(...buildFlashcards(lecture, summary as Pick<LectureSummary, 'key_concepts' | 'definitions'>))
+  }
+
+  return { lectures, cards }
+}
+
+/**
+ * Cards to review now: everything overdue, soonest first, then today's
+ * allowance of new cards
+ */
+export function getDueCards(deck: FlashcardDeck, now = new Date()): Flashcard[] {
+  const due = deck.cards
+    .filter(card => card.review && new Date(card.review.due_at) <= now)
+    .sort((a, b) => new Date(a.review!.due_at).getTime() - new Date(b.review!.due_at).getTime())
+  const newCards = deck.cards
+    .filter(card => !card.review)
+    .slice(0, Math.max(0, NEW_CARDS_PER_DAY - deck.newCardsToday))
+
+  return [...due, ...newCards]
+}
+
+/**
+ * Earliest upcoming review, for the "all caught up" message
+ */
+export function getNextDueDate(deck: FlashcardDeck): Date | null {
+  let next: Date | null = null
+  for (const card of deck.cards) {
+    if (!card.review) continue
+    const due = new Date(card.review.due_at)
+    if (!next || due < next) next = due
+  }
+  return next
+}
+
+export async function saveFlashcardReview(
+  supabase: SupabaseClient,
+  userId: string,
+  card: Flashcard,
+  state: ReviewState,
+  grade: number
+): Promise<FlashcardReview> {
+  const { data, error } = await supabase
+    .from('flashcard_reviews')
+    .upsert({
+      user_id: userId,
+      lecture_id: card.lecture_id,
+      card_key: card.key,
+      ease_factor: state.ease_factor,
+      interval_days: state.interval_days,
+      repetitions: state.repetitions,
+      due_at: state.due_at,
+      last_grade: grade,
+      last_reviewed_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,lecture_id,card_key' })
+    .select('lecture_id, card_key, ease_factor, interval_days, repetitions, due_at, created_at')
+    .single()
+
+  if (error) throw error
+  return data as FlashcardReview
+}
@@ -0,0 +1,297 @@
+/**
+ * Browser helpers for starting lecture processing jobs and handing them
+ * to the server-side finalizer
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  api,
+  DEFAULT_PROCESSING_OPTIONS,
+  fileFingerprint,
+  type JobStatus,
+  type ProcessingOptions,
+  type UploadProgress,
+} from '@/lib/api'
+import type { FinalizeResult } from '@/lib/finalize'
+import { loadLectureFiles, recordLectureFilesError, storeLectureFiles } from '@/lib/lecture-storage'
+import { isQuotaError, QuotaExceededError, UNMEASURABLE_AUDIO_MESSAGE } from '@/lib/quota'
+import type { Lecture } from '@/lib/types'
+
+const PENDING_LECTURE_PREFIX = 'lecturelink-pending-lecture:'
+const UPLOAD_FAILED_REASON = "The upload to the processing server didn't finish"
+const UPLOAD_CANCELLED_REASON = 'The upload was cancelled'
+
+// The lecture created for a file whose upload hasn't reached the processing
+// server yet, so a retry after a failure or reload reuses it
+function readPendingLecture(file: File): string | null {
+  try {
+    return localStorage.getItem(PENDING_LECTURE_PREFIX + fileFingerprint(file))
+  } catch {
+    return null
+  }
+}
+
+function storePendingLecture(file: File, lectureId: string | null) {
+  try {
+    const key = PENDING_LECTURE_PREFIX + fileFingerprint(file)
+    if (lectureId) {
+      localStorage.setItem(key, lectureId)
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch {
+    // Storage unavailable (private mode) - a retry creates a new lecture
+  }
+}
+
+// Lectures that never got a job don't count against the quota
+async function markUploadFailed(supabase: SupabaseClient, lectureId: string, err: unknown): Promise<void> {
+  const cancelled = err instanceof DOMException && err.name === 'AbortError'
+  const { error } = await supabase
+    .from('lectures')
+    .update({
+      status: 'failed',
+      failure_reason: cancelled ? UPLOAD_CANCELLED_REASON : UPLOAD_FAILED_REASON,
+    })
+    .eq('id', lectureId)
+    .is('job_id', null)
+
+  if (error) console.error('[LectureLink] Failed to mark the upload failed:', error)
+}
+
+export interface StartProcessingInput {
+  title: string
+  // New lectures only
+  courseId?: string | null
+  audioFile: File
+  slidesFile?: File
+  options: ProcessingOptions
+  // Measured in the browser and counted against the monthly quota;
+  // required for new lectures
+  durationSeconds?: number
+  // Reprocess into an existing lecture instead of creating a new one
+  lectureId?: string
+  // The files came from Storage, so there's no need to store them again
+  filesAlreadyStored?: boolean
+  onLectureCreated?: (lectureId: string) => void
+  onUploadProgress?: (progress: UploadProgress) => void
+  // Storing the originals in Storage, after the upload to the processing server
+  onStoreProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Create the lecture row (or reset an existing one), upload the files,
+ * link the backend job to the lecture so the server can finalize it and
+ * store the originals. If the upload fails the lecture is marked failed,
+ * which gives its minutes back.
+ */
+export async function startLectureProcessing(
+  supabase: SupabaseClient,
+  input: StartProcessingInput
+): Promise<{ lectureId: string; jobId: string }> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    throw new Error('Please log in to continue')
+  }
+  if (!input.lectureId && !input.durationSeconds) {
+    throw new Error(UNMEASURABLE_AUDIO_MESSAGE)
+  }
+
+  const reset = {
+    status: 'processing',
+    processing_options: input.options,
+    job_id: null,
+    job_stage: null,
+    job_progress: 0,
+    finalizing_at: null,
+    failure_reason: null,
+  }
+  const pendingLectureId = input.lectureId ? null : readPendingLecture(input.audioFile)
+
+  // Put an existing lecture back into processing: the one being reprocessed,
+  // or one an earlier upload of this file created but never got a job for
+  let { data: lecture, error: lectureError } = input.lectureId
+    ? await supabase
+      .from('lectures')
+      .update(reset)
+      .eq('id', input.lectureId)
+      .select('id')
+      .single()
+    : pendingLectureId
+      ? await supabase
+        .from('lectures')
+        .update({ ...reset, title: input.title.trim(), course_id: input.courseId || null })
+        .eq('id', pendingLectureId)
+        .is('job_linked_at', null)
+        .select('id')
+        .maybeSingle()
+      : { data: null, error: null }
+
+  // Otherwise create the lecture record
+  if (!input.lectureId && !lecture && !lectureError) {
+    ({ data: lecture, error: lectureError } = await supabase
+      .from('lectures')
+      .insert({
+        user_id: user.id,
+        title: input.title.trim(),
+        course_id: input.courseId || null,
+        status: 'processing',
+        recording_date: new Date().toISOString(),
+        processing_options: input.options,
+        billed_seconds: Math.ceil(input.durationSeconds as number),
+      })
+      .select('id')
+      .single())
+  }
+
+  if (isQuotaError(lectureError)) {
+    throw new QuotaExceededError()
+  }
+  if (lectureError?.message?.includes('duration_required')) {
+    throw new Error(UNMEASURABLE_AUDIO_MESSAGE)
+  }
+  if (lectureError || !lecture) {
+    throw new Error('Failed to create lecture record')
+  }
+  const lectureId = lecture.id
+  if (!input.lectureId) storePendingLecture(input.audioFile, lectureId)
+  input.onLectureCreated?.(lectureId)
+
+  let jobStatus: JobStatus
+  try {
+    // Upload to Python API
+    jobStatus = await api.processLecture(
+      input.audioFile,
+      input.slidesFile,
+      input.options,
+      {
+        onUploadProgress: input.onUploadProgress,
+        signal: input.signal,
+      }
+    )
+
+    // Link the job to the lecture so the server can finalize it
+    const { error: jobLinkError } = await supabase
+      .from('lectures')
+      .update({ job_id: jobStatus.job_id })
+      .eq('id', lectureId)
+
+    if (jobLinkError) {
+      throw new Error('Failed to link processing job to lecture')
+    }
+  } catch (err) {
+    await markUploadFailed(supabase, lectureId, err)
+    throw err
+  }
+  if (!input.lectureId) storePendingLecture(input.audioFile, null)
+
+  // Keep the originals for reprocessing and playback. Processing doesn't
+  // depend on them, so a failure is recorded on the lecture, not thrown.
+  if (!input.filesAlreadyStored) {
+    await storeLectureFiles(supabase, { id: lectureId, user_id: user.id }, input.audioFile, input.slidesFile, {
+      onProgress: input.onStoreProgress,
+      signal: input.signal,
+    }).catch(err => recordLectureFilesError(supabase, lectureId, err))
+  }
+
+  return { lectureId, jobId: jobStatus.job_id }
+}
+
+/**
+ * Process an existing lecture again from its stored files, keeping the
+ * lecture row (and everything attached to it)
+ */
+export async function reprocessLecture(
+  supabase: SupabaseClient,
+  lecture: Pick<Lecture, 'id' | 'title' | 'audio_path' | 'slides_path'>,
+  options: ProcessingOptions,
+  callbacks?: { onUploadProgress?: (progress: UploadProgress) => void }
+): Promise<{ lectureId: string; jobId: string }> {
+  const { audioFile, slidesFile } = await loadLectureFiles(supabase, lecture)
+
+  return startLectureProcessing(supabase, {
+    title: lecture.title,
+    audioFile,
+    slidesFile,
+    options,
+    lectureId: lecture.id,
+    filesAlreadyStored: true,
+    onUploadProgress: callbacks?.onUploadProgress,
+  })
+}
+
+// Last stage/progress written per lecture, so polling doesn't write every tick
+const lastRecordedProgress = new Map<string, string>()
+
+/**
+ * Store the job's stage and progress on the lecture so other tabs and
+ * devices can show it. Only writes when something changed.
+ */
+export async function recordJobProgress(
+  supabase: SupabaseClient,
+  lectureId: string,
+  status: JobStatus
+): Promise<void> {
+  // job_progress is an integer column; the API can report fractions
+  const progress = Math.round(status.progress)
+  const key = `${status.stage || ''}:${progress}`
+  if (lastRecordedProgress.get(lectureId) === key) return
+  lastRecordedProgress.set(lectureId, key)
+
+  const { error } = await supabase
+    .from('lectures')
+    .update({ job_stage: status.stage || null, job_progress: progress })
+    .eq('id', lectureId)
+    .eq('status', 'processing')
+
+  if (error) {
+    lastRecordedProgress.delete(lectureId)
+    console.error('[LectureLink] Failed to save job progress:', error)
+  }
+}
+
+/**
+ * Ask the server to finalize a job. Safe to call repeatedly; returns
+ * 'in_progress' while the job is still running or another call holds it.
+ */
+export async function requestFinalize(jobId: string): Promise<FinalizeResult> {
+  const response = await fetch(`/api/jobs/${jobId}/finalize`, {
+    method: 'POST',
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok && response.status !== 404) {
+    throw new Error(body.error || 'Failed to finalize lecture')
+  }
+
+  return body as FinalizeResult
+}
+
+/**
+ * The signed-in user's saved processing defaults
+ */
+export async function loadProcessingDefaults(supabase: SupabaseClient): Promise<Required<ProcessingOptions>> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return DEFAULT_PROCESSING_OPTIONS
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('default_processing_options')
+    .eq('id', user.id)
+    .single()
+
+  return { ...DEFAULT_PROCESSING_OPTIONS, ...profile?.default_processing_options }
+}
+
+export async function saveProcessingDefaults(supabase: SupabaseClient, options: ProcessingOptions): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Not signed in')
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ default_processing_options: options })
+    .eq('id', user.id)
+
+  if (error) throw error
+}
@@ -0,0 +1,215 @@
+/**
+ * Original lecture files kept in Supabase Storage for reprocessing and
+ * playback. Audio can be up to 500 MB, past Storage's limit for standard
+ * uploads, so files go up with resumable (TUS) uploads.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Upload } from 'tus-js-client'
+import type { UploadProgress } from '@/lib/api'
+
+export const LECTURE_FILES_BUCKET = 'lecture-files'
+
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024
+const TUS_RETRY_DELAYS = [0, 3000, 5000, 10000, 20000]
+
+// Saved as lectures.files_error; the UI adds what isn't available
+export const FILES_UPLOAD_FAILED = 'The original files couldn\'t be uploaded'
+export const FILES_UPLOAD_CANCELLED = 'The upload of the original files was cancelled'
+
+function getExtension(fileName: string): string {
+  const match = fileName.match(/\.([^.]+)$/)
+  return match ? match[1].toLowerCase() : 'bin'
+}
+
+async function getAccessToken(supabase: SupabaseClient): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    throw new Error('Please log in to continue')
+  }
+  return session.access_token
+}
+
+/**
+ * Upload one file to the bucket, resuming an earlier attempt at the same
+ * path if the browser still has it
+ */
+async function uploadFile(
+  supabase: SupabaseClient,
+  path: string,
+  file: File,
+  callbacks?: {
+    onProgress?: (loaded: number, resumed: boolean) => void
+    signal?: AbortSignal
+  }
+): Promise<void> {
+  const { onProgress, signal } = callbacks || {}
+  if (signal?.aborted) throw new DOMException('Upload cancelled', 'AbortError')
+  // Fail before creating the upload if the user is signed out
+  await getAccessToken(supabase)
+
+  const upload = new Upload(file, {
+    endpoint: `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`,
+    chunkSize: TUS_CHUNK_SIZE,
+    retryDelays: TUS_RETRY_DELAYS,
+    uploadDataDuringCreation: true,
+    removeFingerprintOnSuccess: true,
+    headers: { 'x-upsert': 'true' },
+    metadata: {
+      bucketName: LECTURE_FILES_BUCKET,
+      objectName: path,
+      contentType: file.type || 'application/octet-stream',
+    },
+    // Long uploads can outlive the access token, so fetch it per request
+    onBeforeRequest: async (req) => {
+      req.setHeader('authorization', `Bearer ${await getAccessToken(supabase)}`)
+    },
+  })
+
+  const previous = await upload.findPreviousUploads()
+  const resumed = previous.length > 0
+  if (resumed) upload.resumeFromPreviousUpload(previous[0])
+
+  await new Promise<void>((resolve, reject) => {
+    const handleAbort = () => {
+      upload.abort()
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+    }
+    const cleanup = () => signal?.removeEventListener('abort', handleAbort)
+
+    upload.options.onProgress = (loaded) => onProgress?.(loaded, resumed)
+    upload.options.onSuccess = () => {
+      cleanup()
+      resolve()
+    }
+    upload.options.onError = (err) => {
+      cleanup()
+      reject(err)
+    }
+    signal?.addEventListener('abort', handleAbort, { once: true })
+    upload.start()
+  })
+}
+
+async function downloadFile(supabase: SupabaseClient, path: string): Promise<File> {
+  const { data, error } = await supabase.storage
+    .from(LECTURE_FILES_BUCKET)
+    .download(path)
+
+  if (error || !data) {
+    throw new Error('Failed to download the original lecture files')
+  }
+  return new File([data], path.split('/').pop() || 'file', { type: data.type })
+}
+
+/**
+ * Store a lecture's audio (and slides) and save their paths on the lecture.
+ * Progress covers both files.
+ */
+export async function storeLectureFiles(
+  supabase: SupabaseClient,
+  lecture: { id: string; user_id: string },
+  audioFile: File,
+  slidesFile?: File,
+  callbacks?: {
+    onProgress?: (progress: UploadProgress) => void
+    signal?: AbortSignal
+  }
+): Promise<void> {
+  const folder = `${lecture.user_id}/${lecture.id}`
+  const audioPath = `${folder}/audio.${getExtension(audioFile.name)}`
+  const slidesPath = slidesFile ? `${folder}/slides.${getExtension(slidesFile.name)}` : null
+  const total = audioFile.size + (slidesFile?.size || 0)
+
+  await uploadFile(supabase, audioPath, audioFile, {
+    onProgress: (loaded, resumed) => callbacks?.onProgress?.({ loaded, total, resumed }),
+    signal: callbacks?.signal,
+  })
+  if (slidesFile && slidesPath) {
+    await uploadFile(supabase, slidesPath, slidesFile, {
+      onProgress: (loaded, resumed) => callbacks?.onProgress?.({ loaded: audioFile.size + loaded, total, resumed }),
+      signal: callbacks?.signal,
+    })
+  }
+
+  const { error } = await supabase
+    .from('lectures')
+    .update({ audio_path: audioPath, slides_path: slidesPath, files_error: null })
+    .eq('id', lecture.id)
+
+  if (error) throw error
+}
+
+/**
+ * Record on the lecture why its files weren't stored
+ */
+export async function recordLectureFilesError(
+  supabase: SupabaseClient,
+  lectureId: string,
+  err: unknown
+): Promise<void> {
+  const cancelled = err instanceof DOMException && err.name === 'AbortError'
+  if (!cancelled) console.error('[LectureLink] Failed to store lecture files:', err)
+
+  const { error } = await supabase
+    .from('lectures')
+    .update({ files_error: cancelled ? FILES_UPLOAD_CANCELLED : FILES_UPLOAD_FAILED })
+    .eq('id', lectureId)
+
+  if (error) console.error('[LectureLink] Failed to record the lecture files error:', error)
+}
+
+/**
+ * Download a lecture's stored files. Throws if the audio was never stored.
+ */
+export async function loadLectureFiles(
+  supabase: SupabaseClient,
+  lecture: { audio_path?: string | null; slides_path?: string | null }
+): Promise<{ audioFile: File; slidesFile?: File }> {
+  if (!lecture.audio_path) {
+    throw new Error('The original audio for this lecture was not saved')
+  }
+
+  const audioFile = await downloadFile(supabase, lecture.audio_path)
+  const slidesFile = lecture.slides_path
+    ? await downloadFile(supabase, lecture.slides_path)
+    : undefined
+
+  return { audioFile, slidesFile }
+}
+
+/**
+ * Delete the stored files of lectures that are being deleted
+ */
+export async function removeLectureFiles(
+  supabase: SupabaseClient,
+  lectures: Array<{ audio_path?: string | null; slides_path?: string | null }>
+): Promise<void> {
+  const paths = lectures.flatMap(lecture => [lecture.audio_path, lecture.slides_path])
+    .filter((path): path is string => !!path)
+  if (paths.length === 0) return
+
+  const { error } = await supabase.storage
+    .from(LECTURE_FILES_BUCKET)
+    .remove(paths)
+
+  if (error) throw error
+}
+
+// Long enough for a study session; the player asks for a new URL if it expires
+const SIGNED_URL_TTL_SECONDS = 6 * 60 * 60
+
+/**
+ * Temporary URL for streaming a stored file (the bucket is private)
+ */
+export async function getLectureFileUrl(supabase: SupabaseClient, path: string): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(LECTURE_FILES_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+
+  if (error || !data) {
+    throw new Error('Failed to load lecture audio')
+  }
+  return data.signedUrl
+}
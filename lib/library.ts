@@ -0,0 +1,245 @@
+/**
+ * The lecture library (/lectures): filters, sorting and pagination kept in
+ * the URL, and the bulk actions on selected lectures
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { removeLectureFiles } from '@/lib/lecture-storage'
+import { normalizeTag } from '@/lib/tags'
+import type { Lecture, LectureWithSummary } from '@/lib/types'
+
+export type LibrarySort = 'date' | 'title' | 'duration'
+export type SortDirection = 'asc' | 'desc'
+export type DurationFilter = 'short' | 'medium' | 'long'
+
+export interface LibraryQuery {
+  status: Lecture['status'] | null
+  // Recording date range, YYYY-MM-DD, both inclusive
+  from: string | null
+  to: string | null
+  slides: 'yes' | 'no' | null
+  duration: DurationFilter | null
+  tag: string | null
+  // A course id, or 'none' for lectures without a course
+  course: string | null
+  sort: LibrarySort
+  dir: SortDirection
+  page: number
+}
+
+export const LIBRARY_PAGE_SIZE = 20
+
+export const LIBRARY_STATUSES: Array<{ id: Lecture['status']; label: string }> = [
+  { id: 'completed', label: 'Completed' },
+  { id: 'processing', label: 'Processing' },
+  { id: 'failed', label: 'Failed' },
+]
+
+export const LIBRARY_SORTS: Record<LibrarySort, { label: string; column: string; defaultDir: SortDirection }> = {
+  date: { label: 'Date', column: 'recording_date', defaultDir: 'desc' },
+  title: { label: 'Title', column: 'title', defaultDir: 'asc' },
+  duration: { label: 'Duration', column: 'duration', defaultDir: 'desc' },
+}
+
+// Bounds in seconds; min inclusive, max exclusive
+export const DURATION_FILTERS: Record<DurationFilter, { label: string; min?: number; max?: number }> = {
+  short: { label: 'Under 30 min', max: 30 * 60 },
+  medium: { label: '30-60 min', min: 30 * 60, max: 60 * 60 },
+  long: { label: 'Over 1 hour', min: 60 * 60 },
+}
+
+export const DEFAULT_LIBRARY_QUERY: LibraryQuery = {
+  status: null,
+  from: null,
+  to: null,
+  slides: null,
+  duration: null,
+  tag: null,
+  course: null,
+  sort: 'date',
+  dir: 'desc',
+  page: 1,
+}
+
+export type LibraryLecture = LectureWithSummary
+
+export interface LibraryPage {
+  lectures: LibraryLecture[]
+  total: number
+  // The page is past the last one, e.g. after lectures were deleted
+  outOfRange: boolean
+}
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+function getParam(params: SearchParams, name: string): string | null {
+  const value = params[name]
+  return (Array.isArray(value) ? value[0] : value)?.trim() || null
+}
+
+function isDate(value: string | null): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+function isCourseFilter(value: string | null): value is string {
+  return value === 'none' || (!!value && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value))
+}
+
+function pick<T extends string>(value: string | null, options: readonly T[]): T | null {
+  return options.find(option => option === value) || null
+}
+
+/**
+ * Read the library query from the page's search params, ignoring invalid values
+ */
+export function parseLibraryQuery(params: SearchParams): LibraryQuery {
+  const sort = pick(getParam(params, 'sort'), Object.keys(LIBRARY_SORTS) as LibrarySort[]) || DEFAULT_LIBRARY_QUERY.sort
+  const from = getParam(params, 'from')
+  const to = getParam(params, 'to')
+  const course = getParam(params, 'course')
+  const page = Number(getParam(params, 'page'))
+
+  return {
+    status: pick(getParam(params, 'status'), LIBRARY_STATUSES.map(status => status.id)),
+    from: isDate(from) ? from : null,
+    to: isDate(to) ? to : null,
+    slides: pick(getParam(params, 'slides'), ['yes', 'no'] as const),
+    duration: pick(getParam(params, 'duration'), Object.keys(DURATION_FILTERS) as DurationFilter[]),
+    tag: normalizeTag(getParam(params, 'tag') || '') || null,
+    course: isCourseFilter(course) ? course : null,
+    sort,
+    dir: pick(getParam(params, 'dir'), ['asc', 'desc'] as const) || LIBRARY_SORTS[sort].defaultDir,
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  }
+}
+
+/**
+ * /lectures URL for the query with some values changed; defaults are left out
+ */
+export function getLibraryHref(query: LibraryQuery, changes: Partial<LibraryQuery> = {}): string {
+  const next = { ...query, ...changes }
+  const params = new URLSearchParams()
+
+  if (next.status) params.set('status', next.status)
+  if (next.from) params.set('from', next.from)
+  if (next.to) params.set('to', next.to)
+  if (next.slides) params.set('slides', next.slides)
+  if (next.duration) params.set('duration', next.duration)
+  if (next.tag) params.set('tag', next.tag)
+  if (next.course) params.set('course', next.course)
+  if (next.sort !== DEFAULT_LIBRARY_QUERY.sort) params.set('sort', next.sort)
+  if (next.dir !== LIBRARY_SORTS[next.sort].defaultDir) params.set('dir', next.dir)
+  if (next.page > 1) params.set('page', String(next.page))
+
+  const search = params.toString()
+  return search ? `/lectures?${search}` : '/lectures'
+}
+
+export function hasLibraryFilters(query: LibraryQuery): boolean {
+  return !!(query.status || query.from || query.to || query.slides || query.duration || query.tag || query.course)
+}
+
+// Start of the day after a YYYY-MM-DD date, so `to` includes the whole day
+function getNextDay(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`)
+  next.setUTCDate(next.getUTCDate() + 1)
+  return next.toISOString()
+}
+
+/**
+ * One page of the user's lectures with the total matching the filters
+ */
+export async function loadLibraryPage(supabase: SupabaseClient, query: LibraryQuery): Promise<LibraryPage> {
+  let request = supabase
+    .from('lectures')
+    .select(`
+      id,
+      title,
+      status,
+      duration,
+      has_slides,
+      recording_date,
+      created_at,
+      course_id,
+      tags,
+      audio_path,
+      slides_path,
+      files_error,
+      processing_options,
+      lecture_summaries (
+        key_concepts,
+        difficulty_level
+      )
+    `, { count: 'exact' })
+
+  if (query.status) request = request.eq('status', query.status)
+  if (query.from) request = request.gte('recording_date', `${query.from}T00:00:00Z`)
+  if (query.to) request = request.lt('recording_date', getNextDay(query.to))
+  if (query.slides) request = request.eq('has_slides', query.slides === 'yes')
+  if (query.duration) {
+    const { min, max } = DURATION_FILTERS[query.duration]
+    if (min !== undefined) request = request.gte('duration', min)
+    if (max !== undefined) request = request.lt('duration', max)
+  }
+  if (query.tag) request = request.contains('tags', [query.tag])
+  if (query.course === 'none') request = request.is('course_id', null)
+  else if (query.course) request = request.eq('course_id', query.course)
+
+  // Newest first among equal values, so pages don't shuffle
+  const start = (query.page - 1) * LIBRARY_PAGE_SIZE
+  const { data, count, error } = await request
+    .order(LIBRARY_SORTS[query.sort].column, { ascending: query.dir === 'asc', nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(start, start + LIBRARY_PAGE_SIZE - 1)
+
+  // PostgREST rejects a range that starts past the last row
+  if (error?.code === 'PGRST103') {
+    return { lectures: [], total: 0, outOfRange: true }
+  }
+  if (error) throw error
+
+  return {
+    lectures: (data || []) as LibraryLecture[],
+    total: count || 0,
+    outOfRange: false,
+  }
+}
+
+export async function moveLecturesToCourse(supabase: SupabaseClient, lectureIds: string[], courseId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('lectures')
+    .update({ course_id: courseId })
+    .in('id', lectureIds)
+
+  if (error) throw error
+}
+
+/**
+ * Delete lectures and their stored files. Lectures still processing are
+ * kept; returns how many were deleted.
+ */
+export async function deleteLectures(supabase: SupabaseClient, lectureIds: string[]): Promise<number> {
+  const { data, error } = await supabase
+    .from('lectures')
+    .select('id, status, audio_path, slides_path')
+    .in('id', lectureIds)
+    .neq('status', 'processing')
+
+  if (error) throw error
+  const lectures = data || []
+  if (lectures.length === 0) return 0
+
+  const { error: deleteError } = await supabase
+    .from('lectures')
+    .delete()
+    .in('id', lectures.map(lecture => lecture.id))
+
+  if (deleteError) throw deleteError
+
+  // The lectures are gone either way; leftover files only take up space
+  await removeLectureFiles(supabase, lectures).catch(err => {
+    console.error('[LectureLink] Failed to delete lecture files:', err)
+  })
+  return lectures.length
+}
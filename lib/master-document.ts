@@ -0,0 +1,73 @@
+/**
+ * The master document: the Markdown write-up of a lecture produced by
+ * processing (transcript merged with slides), stored in lecture_documents.
+ */
+
+export interface DocumentHeading {
+  id: string
+  text: string
+  level: number
+  // 1-based line in the Markdown, used to match rendered headings
+  line: number
+}
+
+// Headings deeper than this are left out of the table of contents
+export const TOC_MAX_LEVEL = 3
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-') || 'section'
+}
+
+// Inline Markdown in heading text: links, emphasis and code
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .trim()
+}
+
+/**
+ * ATX headings (# Title) outside code blocks, with unique ids
+ */
+export function extractHeadings(markdown: string): DocumentHeading[] {
+  const headings: DocumentHeading[] = []
+  const used = new Map<string, number>()
+  let inCodeBlock = false
+
+  markdown.split('\n').forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock
+      return
+    }
+    if (inCodeBlock) return
+
+    const match = line.match(/^ {0,3}(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/)
+    if (!match) return
+
+    const text = stripInlineMarkdown(match[2])
+    const slug = slugify(text)
+    const count = used.get(slug) || 0
+    used.set(slug, count + 1)
+    headings.push({
+      id: count > 0 ? `${slug}-${count}` : slug,
+      text,
+      level: match[1].length,
+      line: index + 1,
+    })
+  })
+
+  return headings
+}
+
+export function countWords(markdown: string): number {
+  return markdown.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length
+}
+
+export function getMarkdownFileName(title: string): string {
+  const name = title.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim()
+  return `${name || 'lecture'}.md`
+}
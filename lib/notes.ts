@@ -0,0 +1,128 @@
+/**
+ * Personal lecture notes, anchored to the transcript or a key concept.
+ * Anchors are re-resolved every time the lecture loads (lib/anchoring.ts),
+ * so notes follow their text through reprocessing.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  findSegmentAtOffset,
+  resolveNameAnchor,
+  resolveTextAnchor,
+  type TextAnchor,
+  type TextRange,
+  type TranscriptIndex,
+} from '@/lib/anchoring'
+import type { LectureNote } from '@/lib/types'
+
+export type NoteAnchor =
+  | { anchor_type: 'transcript'; anchor: TextAnchor }
+  | { anchor_type: 'concept'; name: string }
+
+export interface ResolvedNote {
+  note: LectureNote
+  // Transcript notes: where the passage is now and the sentence it starts in
+  range?: TextRange
+  segmentIndex?: number
+  // Concept notes: index into the summary's key concepts
+  conceptIndex?: number
+}
+
+export function isNoteOrphaned(resolved: ResolvedNote): boolean {
+  return resolved.segmentIndex === undefined && resolved.conceptIndex === undefined
+}
+
+/**
+ * Find each note's text in the current transcript and concepts. Notes
+ * whose text is gone are kept, unresolved.
+ */
+export function resolveNotes(
+  notes: LectureNote[],
+  transcript: TranscriptIndex,
+  conceptNames: string[]
+): ResolvedNote[] {
+  return notes.map(note => {
+    if (note.anchor_type === 'concept') {
+      const conceptIndex = resolveNameAnchor(note.quote, conceptNames)
+      return conceptIndex >= 0 ? { note, conceptIndex } : { note }
+    }
+
+    const range = resolveTextAnchor(transcript.text, {
+      quote: note.quote,
+      prefix: note.prefix,
+      suffix: note.suffix,
+      start: note.start_offset,
+      end: note.end_offset,
+    })
+    return range ? { note, range, segmentIndex: findSegmentAtOffset(transcript, range.start) } : { note }
+  })
+}
+
+export async function loadLectureNotes(supabase: SupabaseClient, lectureId: string): Promise<LectureNote[]> {
+  const { data, error } = await supabase
+    .from('lecture_notes')
+    .select('*')
+    .eq('lecture_id', lectureId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as LectureNote[]
+}
+
+export async function createLectureNote(
+  supabase: SupabaseClient,
+  userId: string,
+  lectureId: string,
+  target: NoteAnchor,
+  body: string
+): Promise<LectureNote> {
+  const anchor = target.anchor_type === 'transcript'
+    ? {
+        quote: target.anchor.quote,
+        prefix: target.anchor.prefix,
+        suffix: target.anchor.suffix,
+        start_offset: target.anchor.start,
+        end_offset: target.anchor.end,
+      }
+    : { quote: target.name }
+
+  const { data, error } = await supabase
+    .from('lecture_notes')
+    .insert({
+      user_id: userId,
+      lecture_id: lectureId,
+      anchor_type: target.anchor_type,
+      ...anchor,
+      body: body.trim(),
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as LectureNote
+}
+
+export async function updateLectureNote(
+  supabase: SupabaseClient,
+  noteId: string,
+  body: string
+): Promise<LectureNote> {
+  const { data, error } = await supabase
+    .from('lecture_notes')
+    .update({ body: body.trim(), updated_at: new Date().toISOString() })
+    .eq('id', noteId)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as LectureNote
+}
+
+export async function deleteLectureNote(supabase: SupabaseClient, noteId: string): Promise<void> {
+  const { error } = await supabase
+    .from('lecture_notes')
+    .delete()
+    .eq('id', noteId)
+
+  if (error) throw error
+}
@@ -0,0 +1,174 @@
+/**
+ * Quizzes generated from a lecture's master document, and grading of
+ * attempts. Questions are stored with the quiz so retakes are identical.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { api, type QuizOptions, type QuizResponse } from '@/lib/api'
+import type { Lecture, Quiz, QuizAnswer, QuizAttempt, QuizQuestion } from '@/lib/types'
+
+export const DEFAULT_QUIZ_OPTIONS: Required<Pick<QuizOptions, 'num_questions' | 'question_types'>> = {
+  num_questions: 10,
+  question_types: ['multiple_choice', 'short_answer'],
+}
+
+export const QUIZ_LENGTHS = [5, 10, 15]
+
+/**
+ * Backend questions in the stored shape; questions without a usable
+ * correct answer are dropped
+ */
+export function normalizeQuizQuestions(response: QuizResponse): QuizQuestion[] {
+  const questions: QuizQuestion[] = []
+
+  for (const item of response.questions || []) {
+    if (!item.question?.trim()) continue
+
+    if (item.type === 'multiple_choice') {
+      const options = (item.options || []).filter(option => option.trim())
+      const correctIndex = typeof item.correct_index === 'number'
+        ? item.correct_index
+        : options.indexOf(item.correct_answer || '')
+      if (options.length < 2 || correctIndex < 0 || correctIndex >= options.length) continue
+
+      questions.push({
+        type: 'multiple_choice',
+        question: item.question.trim(),
+        options,
+        correct_index: correctIndex,
+        explanation: item.explanation,
+      })
+    } else {
+      const answer = (item.answer || item.correct_answer || '').trim()
+      if (!answer) continue
+
+      questions.push({
+        type: 'short_answer',
+        question: item.question.trim(),
+        answer,
+        accepted_answers: item.accepted_answers,
+        explanation: item.explanation,
+      })
+    }
+  }
+
+  return questions
+}
+
+// Case, punctuation, articles and extra spaces don't count against an answer
+function normalizeAnswerText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\b(a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+export function isAnswerCorrect(question: QuizQuestion, answer: QuizAnswer['answer']): boolean {
+  if (answer === null || answer === '') return false
+
+  if (question.type === 'multiple_choice') {
+    return answer === question.correct_index
+  }
+
+  const given = normalizeAnswerText(String(answer))
+  return [question.answer, ...(question.accepted_answers || [])]
+    .some(expected => normalizeAnswerText(expected) === given)
+}
+
+export function gradeQuiz(quiz: Quiz, responses: Array<QuizAnswer['answer']>): QuizAnswer[] {
+  return quiz.questions.map((question, index) => ({
+    question_index: index,
+    answer: responses[index] ?? null,
+    correct: isAnswerCorrect(question, responses[index] ?? null),
+  }))
+}
+
+export function getScorePercent(attempt: Pick<QuizAttempt, 'score' | 'total'>): number {
+  return attempt.total > 0 ? Math.round((attempt.score / attempt.total) * 100) : 0
+}
+
+/**
+ * Generate and store a new quiz. Throws if the lecture has no master
+ * document (lectures processed before documents were kept).
+ */
+export async function createQuiz(
+  supabase: SupabaseClient,
+  userId: string,
+  lecture: Pick<Lecture, 'id' | 'title'>,
+  options: QuizOptions = {}
+): Promise<Quiz> {
+  const { data: document, error: documentError } = await supabase
+    .from('lecture_documents')
+    .select('markdown_content')
+    .eq('lecture_id', lecture.id)
+    .maybeSingle()
+
+  if (documentError) throw documentError
+  if (!document) throw new Error('This lecture has no document to build a quiz from')
+
+  const questions = normalizeQuizQuestions(
+    await api.generateQuiz(document.markdown_content, {
+      ...DEFAULT_QUIZ_OPTIONS,
+      ...options,
+      lecture_title: lecture.title,
+    })
+  )
+  if (questions.length === 0) throw new Error('No quiz questions were generated')
+
+  const { data, error } = await supabase
+    .from('quizzes')
+    .insert({ user_id: userId, lecture_id: lecture.id, questions })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as Quiz
+}
+
+export async function saveQuizAttempt(
+  supabase: SupabaseClient,
+  userId: string,
+  quiz: Quiz,
+  answers: QuizAnswer[]
+): Promise<QuizAttempt> {
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .insert({
+      user_id: userId,
+      quiz_id: quiz.id,
+      lecture_id: quiz.lecture_id,
+      answers,
+      score: answers.filter(answer => answer.correct).length,
+      total: answers.length,
+    })
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as QuizAttempt
+}
+
+/**
+ * Count a short answer the grader rejected as correct (e.g. a synonym)
+ */
+export async function acceptQuizAnswer(
+  supabase: SupabaseClient,
+  attempt: QuizAttempt,
+  questionIndex: number
+): Promise<QuizAttempt> {
+  const answers = attempt.answers.map(answer =>
+    answer.question_index === questionIndex ? { ...answer, correct: true } : answer
+  )
+
+  const { data, error } = await supabase
+    .from('quiz_attempts')
+    .update({ answers, score: answers.filter(answer => answer.correct).length })
+    .eq('id', attempt.id)
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return data as QuizAttempt
+}
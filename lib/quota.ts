@@ -0,0 +1,68 @@
+/**
+ * Monthly recording quota. The limit is the profile's
+ * monthly_recording_minutes (null for no limit); the database enforces it
+ * when a lecture is created (supabase/migrations/20261019000500_recording_quota.sql).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Profile } from '@/lib/types'
+
+export interface RecordingUsage {
+  subscription_tier: Profile['subscription_tier']
+  // Null when the plan has no limit
+  limit_minutes: number | null
+  used_seconds: number
+}
+
+export const TIER_LABELS: Record<Profile['subscription_tier'], string> = {
+  free: 'Free',
+  student: 'Student',
+  professional: 'Professional',
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message = 'You have used all of your recording minutes for this month') {
+    super(message)
+    this.name = 'QuotaExceededError'
+  }
+}
+
+/**
+ * Seconds left this month, or null if the plan has no limit
+ */
+export function getRemainingSeconds(usage: RecordingUsage): number | null {
+  if (usage.limit_minutes === null) return null
+  return Math.max(0, usage.limit_minutes * 60 - usage.used_seconds)
+}
+
+/**
+ * Null if the user has no profile yet
+ */
+export async function loadRecordingUsage(supabase: SupabaseClient): Promise<RecordingUsage | null> {
+  const { data, error } = await supabase.rpc('get_recording_usage')
+  if (error) throw error
+
+  const row = Array.isArray(data) ? data[0] : data
+  return row ? (row as RecordingUsage) : null
+}
+
+// Lectures are billed by length, so files the browser can't measure are refused
+export const UNMEASURABLE_AUDIO_MESSAGE = 'The length of this audio file couldn\'t be read, so it can\'t be checked against your recording minutes. Try converting it to MP3 or WAV.'
+
+/**
+ * Error message for a lecture of this length, or null if it fits
+ */
+export function checkQuota(usage: RecordingUsage | null, durationSeconds: number): string | null {
+  if (!usage) return null
+
+  const remaining = getRemainingSeconds(usage)
+  if (remaining === null || durationSeconds <= remaining) return null
+
+  const remainingMinutes = Math.floor(remaining / 60)
+  return `This recording is ${Math.ceil(durationSeconds / 60)} minutes, but you only have ${remainingMinutes} minute${remainingMinutes === 1 ? '' : 's'} left this month on the ${TIER_LABELS[usage.subscription_tier]} plan.`
+}
+
+// The quota trigger raises 'quota_exceeded' when an insert goes over the limit
+export function isQuotaError(error: { message?: string } | null): boolean {
+  return !!error?.message?.includes('quota_exceeded')
+}
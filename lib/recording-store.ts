@@ -0,0 +1,164 @@
+/**
+ * IndexedDB storage for in-browser lecture recordings
+ *
+ * MediaRecorder chunks are written here as they arrive so a crashed or
+ * closed tab doesn't lose the recording. Sessions are removed once the
+ * recording has been handed off for processing (or discarded).
+ */
+
+const DB_NAME = 'lecturelink-recordings'
+const DB_VERSION = 1
+const SESSIONS_STORE = 'sessions'
+const CHUNKS_STORE = 'chunks'
+
+export interface RecordingSession {
+  id: string
+  mime_type: string
+  started_at: string
+  updated_at: string
+  duration_seconds: number
+}
+
+interface StoredChunk {
+  id?: number
+  session_id: string
+  data: Blob
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+        const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: 'id', autoIncrement: true })
+        chunks.createIndex('session_id', 'session_id')
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run a single transaction and resolve once it has committed
+async function withTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => T
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode)
+    const result = run(tx)
+    tx.oncomplete = () => {
+      db.close()
+      resolve(result)
+    }
+    tx.onerror = () => {
+      db.close()
+      reject(tx.error)
+    }
+    tx.onabort = () => {
+      db.close()
+      reject(tx.error)
+    }
+  })
+}
+
+export const recordingStore = {
+  /**
+   * Start a new recording session
+   */
+  async createSession(mimeType: string): Promise<RecordingSession> {
+    const now = new Date().toISOString()
+    const session: RecordingSession = {
+      id: crypto.randomUUID(),
+      mime_type: mimeType,
+      started_at: now,
+      updated_at: now,
+      duration_seconds: 0,
+    }
+
+    await withTransaction([SESSIONS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(SESSIONS_STORE).put(session)
+    })
+
+    return session
+  },
+
+  /**
+   * Persist a MediaRecorder chunk and the elapsed recording time
+   */
+  async appendChunk(sessionId: string, data: Blob, durationSeconds: number): Promise<void> {
+    await withTransaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite', (tx) => {
+      const chunk: StoredChunk = { session_id: sessionId, data }
+      tx.objectStore(CHUNKS_STORE).add(chunk)
+
+      const sessions = tx.objectStore(SESSIONS_STORE)
+      const request = sessions.get(sessionId)
+      request.onsuccess = () => {
+        const session = request.result as RecordingSession | undefined
+        if (session) {
+          sessions.put({
+            ...session,
+            updated_at: new Date().toISOString(),
+            duration_seconds: durationSeconds,
+          })
+        }
+      }
+    })
+  },
+
+  /**
+   * List sessions left behind by a previous tab (most recent first)
+   */
+  async listSessions(): Promise<RecordingSession[]> {
+    const request = await withTransaction([SESSIONS_STORE], 'readonly', (tx) =>
+      tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<RecordingSession[]>
+    )
+
+    return request.result.sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+  },
+
+  /**
+   * Reassemble the chunks of a session into a single audio file
+   */
+  async loadRecording(session: RecordingSession): Promise<File> {
+    const request = await withTransaction([CHUNKS_STORE], 'readonly', (tx) =>
+      tx.objectStore(CHUNKS_STORE).index('session_id').getAll(session.id) as IDBRequest<StoredChunk[]>
+    )
+
+    const chunks = request.result
+      .sort((a, b) => (a.id || 0) - (b.id || 0))
+      .map(chunk => chunk.data)
+
+    const extension = session.mime_type.includes('mp4') ? 'm4a' : 'webm'
+    const date = session.started_at.slice(0, 16).replace('T', '_').replace(':', '-')
+    const mimeType = session.mime_type.split(';')[0]
+
+    return new File(chunks, `recording-${date}.${extension}`, { type: mimeType })
+  },
+
+  /**
+   * Delete a session and all of its chunks
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await withTransaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(SESSIONS_STORE).delete(sessionId)
+
+      const cursorRequest = tx.objectStore(CHUNKS_STORE).index('session_id').openKeyCursor(IDBKeyRange.only(sessionId))
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (cursor) {
+          tx.objectStore(CHUNKS_STORE).delete(cursor.primaryKey)
+          cursor.continue()
+        }
+      }
+    })
+  },
+}
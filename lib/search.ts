@@ -0,0 +1,71 @@
+/**
+ * Library-wide full-text search (search_lectures RPC)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type SearchSection = 'title' | 'concepts' | 'definitions' | 'summary' | 'transcript'
+
+export interface LectureSearchResult {
+  lecture_id: string
+  title: string
+  created_at: string
+  section: SearchSection
+  snippet: string
+  rank: number
+}
+
+export interface SnippetPart {
+  text: string
+  highlighted: boolean
+}
+
+export const SEARCH_SECTION_LABELS: Record<SearchSection, string> = {
+  title: 'Title',
+  concepts: 'Key concepts',
+  definitions: 'Definitions',
+  summary: 'Summary',
+  transcript: 'Transcript',
+}
+
+// Lecture page tab that shows each section
+const SECTION_TABS: Record<SearchSection, string> = {
+  title: 'summary',
+  concepts: 'keypoints',
+  definitions: 'keypoints',
+  summary: 'summary',
+  transcript: 'transcript',
+}
+
+export async function searchLectures(supabase: SupabaseClient, query: string): Promise<LectureSearchResult[]> {
+  if (!query.trim()) return []
+
+  const { data, error } = await supabase.rpc('search_lectures', { search_query: query })
+  if (error) throw error
+  return (data || []) as LectureSearchResult[]
+}
+
+/**
+ * Split a ts_headline snippet on its [[ ]] match markers
+ */
+export function parseSnippet(snippet: string): SnippetPart[] {
+  return snippet
+    .split(/(\[\[.*?\]\])/)
+    .filter(Boolean)
+    .map(part => part.startsWith('[[') && part.endsWith(']]')
+      ? { text: part.slice(2, -2), highlighted: true }
+      : { text: part, highlighted: false })
+}
+
+/**
+ * Link to the matching tab. Transcript hits open the find box on the first
+ * matched word as it appears in the text (stemming may differ from the query).
+ */
+export function getSearchResultLink(result: LectureSearchResult): string {
+  const params = new URLSearchParams({ tab: SECTION_TABS[result.section] })
+  if (result.section === 'transcript') {
+    const firstMatch = parseSnippet(result.snippet).find(part => part.highlighted)
+    if (firstMatch) params.set('q', firstMatch.text)
+  }
+  return `/lecture/${result.lecture_id}?${params.toString()}`
+}
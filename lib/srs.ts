@@ -0,0 +1,74 @@
+/**
+ * SM-2 spaced repetition scheduling
+ * https://super-memory.com/english/ol/sm2.htm
+ */
+
+// SM-2 grades run 0-5; the review buttons use four of them
+export type ReviewGrade = 1 | 3 | 4 | 5
+
+export const REVIEW_GRADES: Array<{ grade: ReviewGrade; label: string }> = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+]
+
+export interface ReviewState {
+  ease_factor: number
+  interval_days: number
+  repetitions: number
+  due_at: string
+}
+
+export const NEW_CARD_STATE: ReviewState = {
+  ease_factor: 2.5,
+  interval_days: 0,
+  repetitions: 0,
+  due_at: new Date(0).toISOString(),
+}
+
+const MIN_EASE_FACTOR = 1.3
+// Forgotten cards come back later in the same session
+const RELEARN_DELAY_MS = 10 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Next state after reviewing a card with the given grade
+ */
+export function scheduleReview(state: ReviewState, grade: ReviewGrade, now = new Date()): ReviewState {
+  // SM-2 starts a forgotten card over without changing its ease factor
+  if (grade < 3) {
+    return {
+      ease_factor: state.ease_factor,
+      interval_days: 0,
+      repetitions: 0,
+      due_at: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+    }
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.ease_factor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  )
+  const intervalDays = state.repetitions === 0
+    ? 1
+    : state.repetitions === 1
+    ? 6
+    : Math.round(state.interval_days * easeFactor)
+
+  return {
+    ease_factor: easeFactor,
+    interval_days: intervalDays,
+    repetitions: state.repetitions + 1,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  }
+}
+
+// "10 min", "1 day", "6 days", "2 mo"
+export function formatInterval(state: ReviewState, now = new Date()): string {
+  const ms = new Date(state.due_at).getTime() - now.getTime()
+  const days = Math.round(ms / DAY_MS)
+  if (days < 1) return `${Math.max(1, Math.round(ms / 60000))} min`
+  if (days < 30) return `${days} day${days === 1 ? '' : 's'}`
+  return `${Math.round(days / 30)} mo`
+}
@@ -0,0 +1,70 @@
+/**
+ * Study questions, difficulty and study-time display
+ */
+
+import { getConceptExplanation, getConceptName } from '@/lib/concepts'
+import type { Definition, DifficultyLevel, KeyConcept, StudyQuestion } from '@/lib/types'
+
+export const DIFFICULTY_STYLES: Record<DifficultyLevel, { label: string; className: string }> = {
+  beginner: { label: 'Beginner', className: 'bg-green-50 text-green-700' },
+  intermediate: { label: 'Intermediate', className: 'bg-yellow-50 text-yellow-700' },
+  advanced: { label: 'Advanced', className: 'bg-red-50 text-red-700' },
+}
+
+// 45 -> "45 min study", 90 -> "1h 30m study"
+export function formatStudyTime(minutes: number): string {
+  if (minutes < 60) return `${minutes} min study`
+  const hours = Math.floor(minutes / 60)
+  const remaining = minutes % 60
+  return remaining ? `${hours}h ${remaining}m study` : `${hours}h study`
+}
+
+export function normalizeStudyQuestion(question: StudyQuestion): { question: string; answer?: string } {
+  return typeof question === 'string' ? { question } : question
+}
+
+export interface RelatedNote {
+  title: string
+  text: string
+}
+
+const STOP_WORDS = new Set([
+  'what', 'which', 'when', 'where', 'does', 'with', 'from', 'that', 'this',
+  'their', 'there', 'about', 'explain', 'describe', 'between', 'would', 'could',
+  'should', 'how', 'why', 'the', 'and', 'for', 'are', 'its', 'into', 'your',
+])
+
+function keywords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+}
+
+/**
+ * When the backend gives no answer, the concepts and definitions sharing
+ * the most words with the question are the best material to check against
+ */
+export function findRelatedNotes(
+  question: string,
+  concepts: KeyConcept[],
+  definitions: Definition[],
+  limit = 2
+): RelatedNote[] {
+  const questionWords = new Set(keywords(question))
+
+  const candidates: RelatedNote[] = [
+    ...concepts.map(concept => ({ title: getConceptName(concept), text: getConceptExplanation(concept) })),
+    ...definitions.map(definition => ({ title: definition.term, text: definition.definition })),
+  ]
+
+  return candidates
+    .map(note => ({
+      note,
+      // Matches in the title count double
+      score: keywords(note.title).filter(word => questionWords.has(word)).length * 2 +
+        keywords(note.text).filter(word => questionWords.has(word)).length,
+    }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(candidate => candidate.note)
+}
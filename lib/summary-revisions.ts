@@ -0,0 +1,196 @@
+/**
+ * Editing lecture summaries. Every save writes the summary and a revision
+ * (lecture_summary_revisions), so any earlier version - including the
+ * original AI one - can be compared or restored.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getConceptExplanation, getConceptName } from '@/lib/concepts'
+import { getFlashcardId } from '@/lib/flashcards'
+import type { LectureSummary, SummaryContent, SummaryRevision } from '@/lib/types'
+
+export const REVISION_SOURCE_LABELS: Record<SummaryRevision['source'], string> = {
+  ai: 'AI generated',
+  edit: 'Edited',
+  restore: 'Restored',
+}
+
+export type SummarySection = 'summary' | 'important_points' | 'key_concepts' | 'definitions' | 'action_items'
+
+export const SUMMARY_SECTION_LABELS: Record<SummarySection, string> = {
+  summary: 'Overview',
+  important_points: 'Key Takeaways',
+  key_concepts: 'Key Concepts',
+  definitions: 'Definitions',
+  action_items: 'Action Items',
+}
+
+export interface SummaryChange {
+  section: SummarySection
+  kind: 'added' | 'removed' | 'changed'
+  label: string
+  before?: string
+  after?: string
+}
+
+/**
+ * Editable fields of a summary, with concepts and action items moved onto
+ * one set of field names (older backends used concept/term/definition and task).
+ * Concepts and definitions get their flashcard id, so renaming one in the
+ * editor keeps its review history.
+ */
+export function getSummaryContent(summary: Partial<SummaryContent>): SummaryContent {
+  return {
+    summary: summary.summary || '',
+    important_points: summary.important_points || [],
+    key_concepts: (summary.key_concepts || []).map(concept => ({
+      id: getFlashcardId(concept, getConceptName(concept)),
+      name: getConceptName(concept),
+      explanation: getConceptExplanation(concept),
+      importance: concept.importance,
+      slide_reference: concept.slide_reference,
+      related_slides: concept.related_slides,
+      examples: concept.examples,
+    })),
+    definitions: (summary.definitions || []).map(definition => ({
+      ...definition,
+      id: getFlashcardId(definition, definition.term || ''),
+    })),
+    action_items: (summary.action_items || []).map(item => ({
+      item: item.item || item.task || '',
+      due_date: item.due_date,
+      context: item.context,
+      slide_reference: item.slide_reference,
+    })),
+  }
+}
+
+// Drop entries left blank in the editor
+export function cleanSummaryContent(content: SummaryContent): SummaryContent {
+  return {
+    summary: content.summary?.trim() || '',
+    important_points: content.important_points.map(point => point.trim()).filter(Boolean),
+    key_concepts: content.key_concepts.filter(concept => concept.name?.trim()),
+    definitions: content.definitions.filter(definition => definition.term.trim()),
+    action_items: content.action_items.filter(item => item.item?.trim()),
+  }
+}
+
+export async function loadSummaryRevisions(
+  supabase: SupabaseClient,
+  lectureId: string
+): Promise<SummaryRevision[]> {
+  const { data, error } = await supabase
+    .from('lecture_summary_revisions')
+    .select('*')
+    .eq('lecture_id', lectureId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as SummaryRevision[]
+}
+
+/**
+ * Save new summary content and record it as a revision. Summaries
+ * generated before revisions existed get their current content recorded
+ * as the AI original first.
+ */
+export async function saveSummaryRevision(
+  supabase: SupabaseClient,
+  current: LectureSummary,
+  content: SummaryContent,
+  source: Exclude<SummaryRevision['source'], 'ai'>
+): Promise<LectureSummary> {
+  const { count, error: countError } = await supabase
+    .from('lecture_summary_revisions')
+    .select('id', { count: 'exact', head: true })
+    .eq('lecture_id', current.lecture_id)
+
+  if (countError) throw countError
+  if (!count) {
+    const { error } = await supabase
+      .from('lecture_summary_revisions')
+      .insert({ lecture_id: current.lecture_id, content: getSummaryContent(current), source: 'ai' })
+    if (error) throw error
+  }
+
+  const cleaned = cleanSummaryContent(content)
+  const { data, error } = await supabase
+    .from('lecture_summaries')
+    .update({ ...cleaned, updated_at: new Date().toISOString() })
+    .eq('id', current.id)
+    .select('*')
+    .single()
+
+  if (error) throw error
+
+  const { error: revisionError } = await supabase
+    .from('lecture_summary_revisions')
+    .insert({ lecture_id: current.lecture_id, content: cleaned, source })
+
+  if (revisionError) throw revisionError
+  return data as LectureSummary
+}
+
+// Matches entries between versions by name, so renames show as remove + add
+function compareItems<T>(
+  section: SummarySection,
+  before: T[],
+  after: T[],
+  getLabel: (item: T) => string,
+  getText: (item: T) => string
+): SummaryChange[] {
+  const changes: SummaryChange[] = []
+  const beforeByLabel = new Map(before.map(item => [getLabel(item).toLowerCase(), item]))
+  const afterByLabel = new Map(after.map(item => [getLabel(item).toLowerCase(), item]))
+
+  for (const [key, item] of beforeByLabel) {
+    const next = afterByLabel.get(key)
+    if (!next) {
+      changes.push({ section, kind: 'removed', label: getLabel(item), before: getText(item) })
+    } else if (getText(item) !== getText(next)) {
+      changes.push({ section, kind: 'changed', label: getLabel(next), before: getText(item), after: getText(next) })
+    }
+  }
+  for (const [key, item] of afterByLabel) {
+    if (!beforeByLabel.has(key)) {
+      changes.push({ section, kind: 'added', label: getLabel(item), after: getText(item) })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * What changed going from one version to another
+ */
+export function compareSummaryContent(before: SummaryContent, after: SummaryContent): SummaryChange[] {
+  const from = getSummaryContent(before)
+  const to = getSummaryContent(after)
+  const changes: SummaryChange[] = []
+
+  if ((from.summary || '') !== (to.summary || '')) {
+    changes.push({ section: 'summary', kind: 'changed', label: 'Overview', before: from.summary, after: to.summary })
+  }
+
+  changes.push(
+    ...compareItems('important_points', from.important_points, to.important_points, point => point, () => ''),
+    ...compareItems(
+      'key_concepts',
+      from.key_concepts,
+      to.key_concepts,
+      concept => concept.name || '',
+      concept => `${concept.explanation || ''}${concept.importance ? ` (${concept.importance})` : ''}`
+    ),
+    ...compareItems('definitions', from.definitions, to.definitions, definition => definition.term, definition => definition.definition),
+    ...compareItems(
+      'action_items',
+      from.action_items,
+      to.action_items,
+      item => item.item || '',
+      item => item.due_date ? `Due: ${item.due_date}` : ''
+    )
+  )
+
+  return changes
+}
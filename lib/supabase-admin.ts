@@ -0,0 +1,19 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role Supabase client for trusted server code (backend callbacks,
+ * scheduled sweeps). Bypasses row level security - never import this from
+ * a client component.
+ */
+export function createAdminSupabaseClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
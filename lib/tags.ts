@@ -0,0 +1,64 @@
+/**
+ * Tags students put on their lectures, stored in lectures.tags
+ * (supabase/migrations/20261019001500_lecture_library.sql)
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const MAX_TAG_LENGTH = 32
+export const MAX_TAGS_PER_LECTURE = 20
+
+/**
+ * Trimmed, lowercase and single-spaced, so "Midterm " and "midterm" are the same tag
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH)
+}
+
+/**
+ * The lecture's tags with `tag` added, or null if it can't be added
+ */
+export function addTag(tags: string[], tag: string): string[] | null {
+  const clean = normalizeTag(tag)
+  if (!clean || tags.includes(clean) || tags.length >= MAX_TAGS_PER_LECTURE) return null
+  return [...tags, clean]
+}
+
+/**
+ * Every tag the user has used, alphabetically
+ */
+export async function loadTags(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('lectures')
+    .select('tags')
+    .neq('tags', '{}')
+
+  if (error) throw error
+  const tags = new Set((data || []).flatMap(row => (row.tags as string[]) || []))
+  return Array.from(tags).sort((a, b) => a.localeCompare(b))
+}
+
+export async function setLectureTags(supabase: SupabaseClient, lectureId: string, tags: string[]): Promise<void> {
+  const { error } = await supabase
+    .from('lectures')
+    .update({ tags })
+    .eq('id', lectureId)
+
+  if (error) throw error
+}
+
+/**
+ * Add one tag to several lectures, skipping those that already have it
+ */
+export async function tagLectures(supabase: SupabaseClient, lectureIds: string[], tag: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('lectures')
+    .select('id, tags')
+    .in('id', lectureIds)
+
+  if (error) throw error
+  for (const lecture of data || []) {
+    const tags = addTag(lecture.tags || [], tag)
+    if (tags) await setLectureTags(supabase, lecture.id, tags)
+  }
+}
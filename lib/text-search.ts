@@ -0,0 +1,67 @@
+/**
+ * Find-in-text used by the transcript search box
+ */
+
+export interface TextSearchOptions {
+  caseSensitive: boolean
+  wholeWord: boolean
+}
+
+export interface TextMatch {
+  start: number
+  end: number
+}
+
+export interface TextPart {
+  text: string
+  // Index into the matches passed to splitByMatches, or -1 for plain text
+  matchIndex: number
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build the search pattern, or null for an empty query
+ */
+export function buildSearchPattern(query: string, options: TextSearchOptions): RegExp | null {
+  const trimmed = query.trim()
+  if (!trimmed) return null
+
+  // Letters and digits in any script count as word characters
+  const source = options.wholeWord
+    ? `(?<![\\p{L}\\p{N}_])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}_])`
+    : escapeRegExp(trimmed)
+
+  return new RegExp(source, options.caseSensitive ? 'gu' : 'giu')
+}
+
+export function findMatches(text: string, pattern: RegExp | null): TextMatch[] {
+  if (!pattern) return []
+  return Array.from(text.matchAll(pattern), match => ({
+    start: match.index,
+    end: match.index + match[0].length,
+  }))
+}
+
+/**
+ * Split text into plain and matched parts for rendering highlights
+ */
+export function splitByMatches(text: string, matches: TextMatch[]): TextPart[] {
+  const parts: TextPart[] = []
+  let position = 0
+
+  matches.forEach((match, matchIndex) => {
+    if (match.start > position) {
+      parts.push({ text: text.slice(position, match.start), matchIndex: -1 })
+    }
+    parts.push({ text: text.slice(match.start, match.end), matchIndex })
+    position = match.end
+  })
+
+  if (position < text.length) {
+    parts.push({ text: text.slice(position), matchIndex: -1 })
+  }
+  return parts
+}
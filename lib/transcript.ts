@@ -0,0 +1,43 @@
+/**
+ * Helpers for timestamped transcript segments
+ */
+
+import type { TranscriptSegment } from '@/lib/types'
+
+// 754 -> "12:34", 3723 -> "1:02:03"
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds))
+  const hours = Math.floor(total / 3600)
+  const mins = Math.floor((total % 3600) / 60)
+  const secs = total % 60
+  const pad = (n: number) => n.toString().padStart(2, '0')
+
+  return hours > 0 ? `${hours}:${pad(mins)}:${pad(secs)}` : `${mins}:${pad(secs)}`
+}
+
+/**
+ * Index of the segment being spoken at `time`, or of the last one that
+ * started before it (so gaps between sentences stay on the previous one).
+ * Segments must be sorted by start_time. Returns -1 before the first.
+ */
+export function findSegmentIndexAt(segments: TranscriptSegment[], time: number): number {
+  let low = 0
+  let high = segments.length - 1
+  let found = -1
+
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (segments[mid].start_time <= time) {
+      found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found
+}
+
+// Shareable link to a moment in the lecture, e.g. /lecture/abc?t=754
+export function getTimestampLink(lectureId: string, seconds: number): string {
+  return `${window.location.origin}/lecture/${lectureId}?t=${Math.floor(seconds)}`
+}
@@ -2,13 +2,17 @@
  * Shared TypeScript types for LectureLink
  */
 
+import type { ProcessingOptions } from '@/lib/api'
+
 // Database types (matching Supabase schema)
 export interface Profile {
   id: string
   email: string
   full_name?: string
   subscription_tier: 'free' | 'student' | 'professional'
-  monthly_recording_minutes: number
+  // Null for no limit
+  monthly_recording_minutes: number | null
+  default_processing_options?: ProcessingOptions | null
   created_at: string
   updated_at: string
 }
@@ -23,10 +27,66 @@ export interface Lecture {
   transcript?: string
   has_slides: boolean
   has_alignment: boolean
+  processing_options?: ProcessingOptions | null
+  job_id?: string | null
+  job_stage?: string | null
+  job_progress?: number
+  finalizing_at?: string | null
+  // When the current processing run started; set by the database
+  processing_started_at?: string | null
+  // When a job was first linked; lectures without one don't count against
+  // the quota once they stop processing. Set by the database.
+  job_linked_at?: string | null
+  // Why processing failed, when known
+  failure_reason?: string | null
+  audio_path?: string | null
+  slides_path?: string | null
+  // Why the original files weren't stored, when their upload failed
+  files_error?: string | null
+  billed_seconds?: number
+  course_id?: string | null
+  tags?: string[]
+  created_at: string
+  updated_at: string
+}
+
+export interface Course {
+  id: string
+  user_id: string
+  name: string
+  // e.g. "CS 101"
+  code: string | null
+  // e.g. "Fall 2026"
+  term: string | null
+  instructor: string | null
+  // Hex color, e.g. "#3b82f6"
+  color: string
   created_at: string
   updated_at: string
 }
 
+export interface TranscriptSegment {
+  id: string
+  lecture_id: string
+  position: number
+  text: string
+  start_time: number
+  end_time: number
+  // Slide on screen while this was said, when the lecture has alignment
+  slide_number?: number | null
+  slide_similarity?: number | null
+  created_at: string
+}
+
+export interface LectureSlide {
+  id: string
+  lecture_id: string
+  slide_number: number
+  title?: string | null
+  content: string
+  created_at: string
+}
+
 export interface LectureSummary {
   id: string
   lecture_id: string
@@ -36,11 +96,35 @@ export interface LectureSummary {
   action_items: ActionItem[]
   important_points: string[]
   summary?: string
+  study_questions?: StudyQuestion[]
+  difficulty_level?: DifficultyLevel | null
+  estimated_study_time_minutes?: number | null
   created_at: string
   updated_at: string
 }
 
+// The parts of a summary students can edit
+export type SummaryContent = Pick<
+  LectureSummary,
+  'summary' | 'important_points' | 'key_concepts' | 'definitions' | 'action_items'
+>
+
+export interface SummaryRevision {
+  id: string
+  lecture_id: string
+  content: SummaryContent
+  source: 'ai' | 'edit' | 'restore'
+  created_at: string
+}
+
+export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced'
+
+// Stored as returned by the summary endpoint: a plain question, or one with an answer
+export type StudyQuestion = string | { question: string; answer?: string }
+
 export interface KeyConcept {
+  // Set once the summary is edited; see getFlashcardId
+  id?: string
   name?: string
   concept?: string
   term?: string
@@ -53,6 +137,8 @@ export interface KeyConcept {
 }
 
 export interface Definition {
+  // Set once the summary is edited; see getFlashcardId
+  id?: string
   term: string
   definition: string
   context?: string
@@ -69,6 +155,76 @@ export interface ActionItem {
   slide_reference?: number
 }
 
+// A personal note on a transcript passage or a key concept
+export interface LectureNote {
+  id: string
+  user_id: string
+  lecture_id: string
+  anchor_type: 'transcript' | 'concept'
+  // The quoted transcript text, or the concept name
+  quote: string
+  prefix: string
+  suffix: string
+  start_offset: number
+  end_offset: number
+  body: string
+  created_at: string
+  updated_at: string
+}
+
+// Master document from processing: the Document tab, and the source for quizzes
+export interface LectureDocument {
+  id: string
+  lecture_id: string
+  markdown_content: string
+  total_sections?: number | null
+  total_words?: number | null
+  created_at: string
+  updated_at: string
+}
+
+export type QuizQuestion =
+  | {
+      type: 'multiple_choice'
+      question: string
+      options: string[]
+      correct_index: number
+      explanation?: string
+    }
+  | {
+      type: 'short_answer'
+      question: string
+      answer: string
+      accepted_answers?: string[]
+      explanation?: string
+    }
+
+export interface Quiz {
+  id: string
+  user_id: string
+  lecture_id: string
+  questions: QuizQuestion[]
+  created_at: string
+}
+
+// The option index for multiple choice, the typed text for short answer
+export interface QuizAnswer {
+  question_index: number
+  answer: number | string | null
+  correct: boolean
+}
+
+export interface QuizAttempt {
+  id: string
+  user_id: string
+  quiz_id: string
+  lecture_id: string
+  answers: QuizAnswer[]
+  score: number
+  total: number
+  created_at: string
+}
+
 // Extended lecture with summary (for queries with joins)
 export interface LectureWithSummary extends Lecture {
   lecture_summaries?: LectureSummary | LectureSummary[]
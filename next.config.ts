@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // sql.js loads its WebAssembly file from its own package directory
+  serverExternalPackages: ["sql.js"],
 };
 
 export default nextConfig;
@@ -0,0 +1,20 @@
+-- Track the backend processing job on each lecture so completion can be
+-- finalized server-side (app/api/jobs/[jobId]/finalize) instead of in the
+-- browser tab that started the upload.
+
+alter table public.lectures
+  add column if not exists job_id text,
+  add column if not exists finalizing_at timestamptz;
+
+create unique index if not exists lectures_job_id_key
+  on public.lectures (job_id)
+  where job_id is not null;
+
+-- The sweep only looks at lectures that are still in flight
+create index if not exists lectures_processing_idx
+  on public.lectures (created_at)
+  where status = 'processing';
+
+-- The finalizer upserts summaries by lecture, so there can only be one
+create unique index if not exists lecture_summaries_lecture_id_key
+  on public.lecture_summaries (lecture_id);
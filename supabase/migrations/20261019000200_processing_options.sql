@@ -0,0 +1,8 @@
+-- Processing options (language, multimodal, cross-encoder, min similarity)
+-- chosen per lecture, plus each user's saved defaults for the upload form.
+
+alter table public.lectures
+  add column if not exists processing_options jsonb;
+
+alter table public.profiles
+  add column if not exists default_processing_options jsonb;
@@ -0,0 +1,6 @@
+-- Last known stage and progress of the lecture's processing job, so any
+-- device can show where processing is at and resume tracking it.
+
+alter table public.lectures
+  add column if not exists job_stage text,
+  add column if not exists job_progress integer not null default 0;
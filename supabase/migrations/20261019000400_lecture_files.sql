@@ -0,0 +1,27 @@
+-- Keep each lecture's original audio and slides in Storage so failed
+-- lectures can be reprocessed without uploading the files again.
+-- Objects live at {user_id}/{lecture_id}/audio.{ext} and slides.{ext}.
+
+alter table public.lectures
+  add column if not exists audio_path text,
+  add column if not exists slides_path text;
+
+insert into storage.buckets (id, name, public)
+values ('lecture-files', 'lecture-files', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own lecture files"
+  on storage.objects for select
+  using (bucket_id = 'lecture-files' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can upload their own lecture files"
+  on storage.objects for insert
+  with check (bucket_id = 'lecture-files' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can replace their own lecture files"
+  on storage.objects for update
+  using (bucket_id = 'lecture-files' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy "Users can delete their own lecture files"
+  on storage.objects for delete
+  using (bucket_id = 'lecture-files' and (storage.foldername(name))[1] = auth.uid()::text);
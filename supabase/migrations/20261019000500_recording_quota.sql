@@ -0,0 +1,114 @@
+-- Monthly recording quota. profiles.monthly_recording_minutes is the
+-- allowance for the user's subscription tier; every lecture inserted in a
+-- calendar month (UTC) counts its billed_seconds against it.
+
+alter table public.lectures
+  add column if not exists billed_seconds integer not null default 0;
+
+create index if not exists lectures_user_created_idx
+  on public.lectures (user_id, created_at);
+
+create or replace function public.recording_seconds_used(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(billed_seconds), 0)::integer
+  from lectures
+  where user_id = p_user_id
+    and created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc'
+$$;
+
+-- Only the triggers below and get_recording_usage() may look up usage
+revoke execute on function public.recording_seconds_used(uuid) from public, anon, authenticated;
+
+-- Reject new lectures that would go over the allowance
+create or replace function public.enforce_recording_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  limit_minutes integer;
+  used_seconds integer;
+begin
+  select monthly_recording_minutes into limit_minutes
+  from profiles
+  where id = new.user_id;
+
+  if limit_minutes is null then
+    return new;
+  end if;
+
+  used_seconds := recording_seconds_used(new.user_id);
+  if used_seconds + new.billed_seconds > limit_minutes * 60 then
+    raise exception 'quota_exceeded'
+      using hint = format('%s of %s minutes used this month', used_seconds / 60, limit_minutes);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists lectures_enforce_recording_quota on public.lectures;
+create trigger lectures_enforce_recording_quota
+  before insert on public.lectures
+  for each row execute function public.enforce_recording_quota();
+
+-- The browser reports the duration it measured; once processing records the
+-- real duration, bill that instead. Billed time never goes down.
+create or replace function public.protect_billed_seconds()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.billed_seconds := greatest(
+    old.billed_seconds,
+    new.billed_seconds,
+    ceil(coalesce(new.duration, 0))::integer
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists lectures_protect_billed_seconds on public.lectures;
+create trigger lectures_protect_billed_seconds
+  before update on public.lectures
+  for each row execute function public.protect_billed_seconds();
+
+-- Users can edit their profile, but not their own tier or allowance
+create or replace function public.protect_subscription_fields()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(auth.role(), '') <> 'service_role' and (
+    new.subscription_tier is distinct from old.subscription_tier
+    or new.monthly_recording_minutes is distinct from old.monthly_recording_minutes
+  ) then
+    raise exception 'subscription fields can only be changed by the server';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_protect_subscription_fields on public.profiles;
+create trigger profiles_protect_subscription_fields
+  before update on public.profiles
+  for each row execute function public.protect_subscription_fields();
+
+-- Current user's tier, allowance and usage this month
+create or replace function public.get_recording_usage()
+returns table (subscription_tier text, limit_minutes integer, used_seconds integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.subscription_tier::text, p.monthly_recording_minutes, recording_seconds_used(p.id)
+  from profiles p
+  where p.id = auth.uid()
+$$;
@@ -0,0 +1,37 @@
+-- Transcript sentences with their timings, one row per sentence, so the
+-- lecture page can show timestamps and link to a point in the lecture.
+-- lectures.transcript keeps the plain text for older lectures and exports.
+
+create table if not exists public.transcript_segments (
+  id uuid primary key default gen_random_uuid(),
+  lecture_id uuid not null references public.lectures (id) on delete cascade,
+  position integer not null,
+  text text not null,
+  start_time double precision not null,
+  end_time double precision not null,
+  created_at timestamptz not null default now(),
+  unique (lecture_id, position)
+);
+
+alter table public.transcript_segments enable row level security;
+
+create policy "Users can read their own transcript segments"
+  on public.transcript_segments for select
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = transcript_segments.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
+
+create policy "Users can write their own transcript segments"
+  on public.transcript_segments for all
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = transcript_segments.lecture_id
+      and lectures.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.lectures
+    where lectures.id = transcript_segments.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
@@ -0,0 +1,43 @@
+-- Extracted slide text, plus which slide each transcript sentence was
+-- aligned to, so the lecture page can show slides next to what was said.
+
+create table if not exists public.lecture_slides (
+  id uuid primary key default gen_random_uuid(),
+  lecture_id uuid not null references public.lectures (id) on delete cascade,
+  slide_number integer not null,
+  title text,
+  content text not null default '',
+  created_at timestamptz not null default now(),
+  unique (lecture_id, slide_number)
+);
+
+alter table public.lecture_slides enable row level security;
+
+create policy "Users can read their own lecture slides"
+  on public.lecture_slides for select
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_slides.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
+
+create policy "Users can write their own lecture slides"
+  on public.lecture_slides for all
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_slides.lecture_id
+      and lectures.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_slides.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
+
+alter table public.transcript_segments
+  add column if not exists slide_number integer,
+  add column if not exists slide_similarity real;
+
+create index if not exists transcript_segments_slide_idx
+  on public.transcript_segments (lecture_id, slide_number)
+  where slide_number is not null;
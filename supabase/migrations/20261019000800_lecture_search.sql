@@ -0,0 +1,102 @@
+-- Full-text search across the lecture library (/search). Each searchable
+-- field gets its own generated tsvector so results can say which part of
+-- the lecture matched and link straight to it.
+
+alter table public.lectures
+  add column if not exists title_search tsvector
+    generated always as (to_tsvector('english', coalesce(title, ''))) stored,
+  add column if not exists transcript_search tsvector
+    generated always as (to_tsvector('english', coalesce(transcript, ''))) stored;
+
+alter table public.lecture_summaries
+  add column if not exists summary_search tsvector
+    generated always as (to_tsvector('english', coalesce(summary, ''))) stored,
+  add column if not exists concepts_search tsvector
+    generated always as (jsonb_to_tsvector('english', coalesce(key_concepts, '[]'::jsonb), '["string"]')) stored,
+  add column if not exists definitions_search tsvector
+    generated always as (jsonb_to_tsvector('english', coalesce(definitions, '[]'::jsonb), '["string"]')) stored;
+
+create index if not exists lectures_title_search_idx on public.lectures using gin (title_search);
+create index if not exists lectures_transcript_search_idx on public.lectures using gin (transcript_search);
+create index if not exists lecture_summaries_summary_search_idx on public.lecture_summaries using gin (summary_search);
+create index if not exists lecture_summaries_concepts_search_idx on public.lecture_summaries using gin (concepts_search);
+create index if not exists lecture_summaries_definitions_search_idx on public.lecture_summaries using gin (definitions_search);
+
+-- Best match per lecture, ranked. Section weights put title and key-point
+-- hits above transcript hits. Snippets mark matched words with [[ and ]].
+-- Runs with the caller's permissions, so RLS limits it to their lectures.
+create or replace function public.search_lectures(search_query text, result_limit integer default 30)
+returns table (
+  lecture_id uuid,
+  title text,
+  created_at timestamptz,
+  section text,
+  snippet text,
+  rank real
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('english', search_query) as q
+  ),
+  matches as (
+    select l.id, 'title' as section, l.title as body,
+           ts_rank(l.title_search, query.q) * 1.0 as rank
+    from lectures l, query
+    where l.title_search @@ query.q
+
+    union all
+    select s.lecture_id, 'concepts',
+           (select string_agg(
+              coalesce(c->>'name', c->>'concept', c->>'term', '') || ': ' ||
+              coalesce(c->>'explanation', c->>'definition', ''), E'\n')
+            from jsonb_array_elements(s.key_concepts) c),
+           ts_rank(s.concepts_search, query.q) * 0.8
+    from lecture_summaries s, query
+    where s.concepts_search @@ query.q
+
+    union all
+    select s.lecture_id, 'definitions',
+           (select string_agg(
+              coalesce(d->>'term', '') || ': ' || coalesce(d->>'definition', ''), E'\n')
+            from jsonb_array_elements(s.definitions) d),
+           ts_rank(s.definitions_search, query.q) * 0.8
+    from lecture_summaries s, query
+    where s.definitions_search @@ query.q
+
+    union all
+    select s.lecture_id, 'summary', s.summary,
+           ts_rank(s.summary_search, query.q) * 0.6
+    from lecture_summaries s, query
+    where s.summary_search @@ query.q
+
+    union all
+    select l.id, 'transcript', l.transcript,
+           ts_rank(l.transcript_search, query.q) * 0.4
+    from lectures l, query
+    where l.transcript_search @@ query.q
+  ),
+  best as (
+    select distinct on (m.id) m.id, m.section, m.body, m.rank
+    from matches m
+    order by m.id, m.rank desc
+  ),
+  top as (
+    select * from best
+    order by rank desc
+    limit result_limit
+  )
+  select
+    l.id,
+    l.title,
+    l.created_at,
+    top.section,
+    ts_headline('english', coalesce(top.body, ''), query.q,
+      'StartSel=[[, StopSel=]], MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+    top.rank::real
+  from top
+  join lectures l on l.id = top.id
+  cross join query
+  order by top.rank desc
+$$;
@@ -0,0 +1,5 @@
+-- Keep the study aids the summary endpoint already returns
+alter table public.lecture_summaries
+  add column if not exists study_questions jsonb not null default '[]'::jsonb,
+  add column if not exists difficulty_level text,
+  add column if not exists estimated_study_time_minutes integer;
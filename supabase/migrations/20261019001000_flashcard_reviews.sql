@@ -0,0 +1,29 @@
+-- Spaced-repetition state for flashcards built from lecture summaries.
+-- Cards themselves aren't stored: they're derived from key concepts and
+-- definitions and identified by card_key (e.g. 'definition:eigenvalue').
+-- A card has no row until its first review.
+
+create table if not exists public.flashcard_reviews (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lecture_id uuid not null references public.lectures (id) on delete cascade,
+  card_key text not null,
+  ease_factor real not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  due_at timestamptz not null default now(),
+  last_grade integer,
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, lecture_id, card_key)
+);
+
+create index if not exists flashcard_reviews_due_idx
+  on public.flashcard_reviews (user_id, due_at);
+
+alter table public.flashcard_reviews enable row level security;
+
+create policy "Users can manage their own flashcard reviews"
+  on public.flashcard_reviews for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,78 @@
+-- The master document each job produces, kept so content can be generated
+-- from it after the job is deleted; plus generated quizzes and the
+-- student's attempts at them.
+
+create table if not exists public.lecture_documents (
+  id uuid primary key default gen_random_uuid(),
+  lecture_id uuid not null unique references public.lectures (id) on delete cascade,
+  markdown_content text not null,
+  total_sections integer,
+  total_words integer,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.lecture_documents enable row level security;
+
+create policy "Users can read their own lecture documents"
+  on public.lecture_documents for select
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_documents.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
+
+create policy "Users can write their own lecture documents"
+  on public.lecture_documents for all
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_documents.lecture_id
+      and lectures.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_documents.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
+
+-- questions: [{ type: 'multiple_choice', question, options, correct_index, explanation }
+--             | { type: 'short_answer', question, answer, accepted_answers, explanation }]
+create table if not exists public.quizzes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lecture_id uuid not null references public.lectures (id) on delete cascade,
+  questions jsonb not null default '[]',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quizzes_lecture_idx
+  on public.quizzes (lecture_id, created_at desc);
+
+alter table public.quizzes enable row level security;
+
+create policy "Users can manage their own quizzes"
+  on public.quizzes for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- answers: one { question_index, answer, correct } per question
+create table if not exists public.quiz_attempts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  quiz_id uuid not null references public.quizzes (id) on delete cascade,
+  lecture_id uuid not null references public.lectures (id) on delete cascade,
+  answers jsonb not null default '[]',
+  score integer not null,
+  total integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quiz_attempts_lecture_idx
+  on public.quiz_attempts (lecture_id, created_at);
+
+alter table public.quiz_attempts enable row level security;
+
+create policy "Users can manage their own quiz attempts"
+  on public.quiz_attempts for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
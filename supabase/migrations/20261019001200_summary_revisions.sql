@@ -0,0 +1,39 @@
+-- Version history for lecture summaries. The finalizer records each
+-- AI-generated summary and every edit or restore on the lecture page adds
+-- a row, so the original AI version can always be compared or restored.
+-- content holds the editable fields: summary, important_points,
+-- key_concepts, definitions, action_items.
+
+create table if not exists public.lecture_summary_revisions (
+  id uuid primary key default gen_random_uuid(),
+  lecture_id uuid not null references public.lectures (id) on delete cascade,
+  content jsonb not null,
+  source text not null check (source in ('ai', 'edit', 'restore')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists lecture_summary_revisions_lecture_idx
+  on public.lecture_summary_revisions (lecture_id, created_at desc);
+
+alter table public.lecture_summary_revisions enable row level security;
+
+create policy "Users can read their own summary revisions"
+  on public.lecture_summary_revisions for select
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_summary_revisions.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
+
+create policy "Users can write their own summary revisions"
+  on public.lecture_summary_revisions for all
+  using (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_summary_revisions.lecture_id
+      and lectures.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.lectures
+    where lectures.id = lecture_summary_revisions.lecture_id
+      and lectures.user_id = auth.uid()
+  ));
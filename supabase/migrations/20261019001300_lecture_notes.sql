@@ -0,0 +1,30 @@
+-- Personal notes attached to a passage of the transcript or to a key
+-- concept. Transcript notes store the quoted text with some context and its
+-- offsets in the joined transcript, so they can be found again after the
+-- transcript changes (see lib/anchoring.ts). Concept notes store the
+-- concept name in quote.
+
+create table if not exists public.lecture_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lecture_id uuid not null references public.lectures (id) on delete cascade,
+  anchor_type text not null check (anchor_type in ('transcript', 'concept')),
+  quote text not null,
+  prefix text not null default '',
+  suffix text not null default '',
+  start_offset integer not null default 0,
+  end_offset integer not null default 0,
+  body text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists lecture_notes_lecture_idx
+  on public.lecture_notes (lecture_id, user_id);
+
+alter table public.lecture_notes enable row level security;
+
+create policy "Users can manage their own lecture notes"
+  on public.lecture_notes for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,40 @@
+-- Courses group a student's lectures, e.g. one per class per term.
+-- Lectures point at a course through (course_id, user_id), so a lecture can
+-- only belong to a course with the same owner. Deleting a course keeps its
+-- lectures and just clears their course_id.
+
+create table if not exists public.courses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  code text,
+  term text,
+  instructor text,
+  color text not null default '#3b82f6' check (color ~ '^#[0-9a-fA-F]{6}$'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (id, user_id)
+);
+
+create index if not exists courses_user_idx
+  on public.courses (user_id);
+
+alter table public.courses enable row level security;
+
+create policy "Users can manage their own courses"
+  on public.courses for all
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.lectures
+  add column if not exists course_id uuid;
+
+alter table public.lectures
+  add constraint lectures_course_id_fkey
+  foreign key (course_id, user_id) references public.courses (id, user_id)
+  on delete set null (course_id);
+
+-- Course pages list lectures in recording order
+create index if not exists lectures_course_idx
+  on public.lectures (course_id, recording_date)
+  where course_id is not null;
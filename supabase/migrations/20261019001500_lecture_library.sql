@@ -0,0 +1,76 @@
+-- Lecture library: user tags on lectures, and deleting lectures.
+-- Deleted lectures keep counting against the monthly recording quota, so
+-- their billed time is moved to deleted_lecture_usage before the row goes.
+
+alter table public.lectures
+  add column if not exists tags text[] not null default '{}'
+    check (cardinality(tags) <= 20);
+
+create index if not exists lectures_tags_idx
+  on public.lectures using gin (tags);
+
+-- The library sorts and filters by recording date
+create index if not exists lectures_user_recording_date_idx
+  on public.lectures (user_id, recording_date);
+
+drop policy if exists "Users can delete their own lectures" on public.lectures;
+create policy "Users can delete their own lectures"
+  on public.lectures for delete
+  using (user_id = auth.uid());
+
+-- Only the trigger and recording_seconds_used() touch this table
+create table if not exists public.deleted_lecture_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  lecture_created_at timestamptz not null,
+  billed_seconds integer not null,
+  deleted_at timestamptz not null default now()
+);
+
+create index if not exists deleted_lecture_usage_user_idx
+  on public.deleted_lecture_usage (user_id, lecture_created_at);
+
+alter table public.deleted_lecture_usage enable row level security;
+
+create or replace function public.keep_deleted_lecture_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.billed_seconds > 0 then
+    insert into deleted_lecture_usage (user_id, lecture_created_at, billed_seconds)
+    values (old.user_id, old.created_at, old.billed_seconds);
+  end if;
+  return old;
+end;
+$$;
+
+drop trigger if exists lectures_keep_deleted_usage on public.lectures;
+create trigger lectures_keep_deleted_usage
+  before delete on public.lectures
+  for each row execute function public.keep_deleted_lecture_usage();
+
+-- Same as before, plus the billed time of deleted lectures
+create or replace function public.recording_seconds_used(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(billed_seconds), 0)::integer
+  from (
+    select billed_seconds, created_at
+    from lectures
+    where user_id = p_user_id
+    union all
+    select billed_seconds, lecture_created_at
+    from deleted_lecture_usage
+    where user_id = p_user_id
+  ) usage
+  where created_at >= date_trunc('month', now() at time zone 'utc') at time zone 'utc'
+$$;
+
+revoke execute on function public.recording_seconds_used(uuid) from public, anon, authenticated;
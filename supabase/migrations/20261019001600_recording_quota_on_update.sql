@@ -0,0 +1,120 @@
+-- The quota was only checked when a lecture was inserted, against the
+-- duration the browser reported. A lecture inserted with a tiny
+-- billed_seconds could then go over the allowance by any amount once
+-- processing raised billed time to the real duration. Now:
+--   - new lectures must bill a positive duration
+--   - raising billed_seconds on update is checked against the allowance
+--     of the month the lecture was created in
+-- The finalizer turns a rejected update into a failed lecture with a
+-- failure_reason the lecture page shows.
+
+alter table public.lectures
+  add column if not exists failure_reason text;
+
+-- Usage in the calendar month (UTC) containing p_at, including deleted lectures
+create or replace function public.recording_seconds_used(p_user_id uuid, p_at timestamptz)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(billed_seconds), 0)::integer
+  from (
+    select billed_seconds, created_at
+    from lectures
+    where user_id = p_user_id
+    union all
+    select billed_seconds, lecture_created_at
+    from deleted_lecture_usage
+    where user_id = p_user_id
+  ) usage
+  where created_at >= date_trunc('month', p_at at time zone 'utc') at time zone 'utc'
+    and created_at < (date_trunc('month', p_at at time zone 'utc') + interval '1 month') at time zone 'utc'
+$$;
+
+create or replace function public.recording_seconds_used(p_user_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select recording_seconds_used(p_user_id, now())
+$$;
+
+revoke execute on function public.recording_seconds_used(uuid, timestamptz) from public, anon, authenticated;
+revoke execute on function public.recording_seconds_used(uuid) from public, anon, authenticated;
+
+-- Same as before, but a lecture has to bill something
+create or replace function public.enforce_recording_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  limit_minutes integer;
+  used_seconds integer;
+begin
+  if new.billed_seconds <= 0 then
+    raise exception 'duration_required'
+      using hint = 'billed_seconds must be the measured length of the recording';
+  end if;
+
+  select monthly_recording_minutes into limit_minutes
+  from profiles
+  where id = new.user_id;
+
+  if limit_minutes is null then
+    return new;
+  end if;
+
+  used_seconds := recording_seconds_used(new.user_id);
+  if used_seconds + new.billed_seconds > limit_minutes * 60 then
+    raise exception 'quota_exceeded'
+      using hint = format('%s of %s minutes used this month', used_seconds / 60, limit_minutes);
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Reject updates that raise billed time past the allowance. Before-triggers
+-- run in name order, so this sees the value protect_billed_seconds settled on.
+create or replace function public.recheck_recording_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  limit_minutes integer;
+  used_seconds integer;
+begin
+  if new.billed_seconds <= old.billed_seconds then
+    return new;
+  end if;
+
+  select monthly_recording_minutes into limit_minutes
+  from profiles
+  where id = new.user_id;
+
+  if limit_minutes is null then
+    return new;
+  end if;
+
+  used_seconds := recording_seconds_used(new.user_id, old.created_at) - old.billed_seconds;
+  if used_seconds + new.billed_seconds > limit_minutes * 60 then
+    raise exception 'quota_exceeded'
+      using hint = format('%s of %s minutes used that month', used_seconds / 60, limit_minutes);
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists lectures_recheck_recording_quota on public.lectures;
+create trigger lectures_recheck_recording_quota
+  before update on public.lectures
+  for each row execute function public.recheck_recording_quota();
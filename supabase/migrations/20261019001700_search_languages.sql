@@ -0,0 +1,210 @@
+-- Full-text search used the 'english' configuration for every lecture, so
+-- lectures processed in other languages got English stemming and stop
+-- words and missed matches. Each lecture is now indexed with the
+-- configuration for its processing language (processing_options.language):
+-- Postgres' stemmer for languages that have one, 'simple' for the rest.
+-- Auto-detected lectures stay English, since the detected language isn't
+-- stored.
+
+create or replace function public.search_config(language text)
+returns regconfig
+language sql
+immutable
+as $$
+  select case split_part(lower(coalesce(language, '')), '-', 1)
+    when '' then 'english'
+    when 'en' then 'english'
+    when 'fr' then 'french'
+    when 'de' then 'german'
+    when 'es' then 'spanish'
+    when 'it' then 'italian'
+    when 'pt' then 'portuguese'
+    when 'nl' then 'dutch'
+    when 'sv' then 'swedish'
+    else 'simple'
+  end::regconfig
+$$;
+
+-- Lectures
+
+alter table public.lectures
+  drop column if exists title_search,
+  drop column if exists transcript_search;
+
+alter table public.lectures
+  add column title_search tsvector
+    generated always as (to_tsvector(public.search_config(processing_options->>'language'), coalesce(title, ''))) stored,
+  add column transcript_search tsvector
+    generated always as (to_tsvector(public.search_config(processing_options->>'language'), coalesce(transcript, ''))) stored;
+
+create index if not exists lectures_title_search_idx on public.lectures using gin (title_search);
+create index if not exists lectures_transcript_search_idx on public.lectures using gin (transcript_search);
+
+-- Summaries take the language of their lecture. Generated columns can't
+-- read another table, so a trigger copies it onto the summary first.
+
+alter table public.lecture_summaries
+  add column if not exists search_language text;
+
+create or replace function public.set_summary_search_language()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select processing_options->>'language' into new.search_language
+  from lectures
+  where id = new.lecture_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists lecture_summaries_set_search_language on public.lecture_summaries;
+create trigger lecture_summaries_set_search_language
+  before insert or update on public.lecture_summaries
+  for each row execute function public.set_summary_search_language();
+
+-- Existing summaries (the trigger fills in the language)
+update public.lecture_summaries set search_language = null;
+
+alter table public.lecture_summaries
+  drop column if exists summary_search,
+  drop column if exists concepts_search,
+  drop column if exists definitions_search;
+
+alter table public.lecture_summaries
+  add column summary_search tsvector
+    generated always as (to_tsvector(public.search_config(search_language), coalesce(summary, ''))) stored,
+  add column concepts_search tsvector
+    generated always as (jsonb_to_tsvector(public.search_config(search_language), coalesce(key_concepts, '[]'::jsonb), '["string"]')) stored,
+  add column definitions_search tsvector
+    generated always as (jsonb_to_tsvector(public.search_config(search_language), coalesce(definitions, '[]'::jsonb), '["string"]')) stored;
+
+create index if not exists lecture_summaries_summary_search_idx on public.lecture_summaries using gin (summary_search);
+create index if not exists lecture_summaries_concepts_search_idx on public.lecture_summaries using gin (concepts_search);
+create index if not exists lecture_summaries_definitions_search_idx on public.lecture_summaries using gin (definitions_search);
+
+-- Reprocessing in another language re-indexes the lecture's columns; the
+-- summary follows when the finalizer rewrites it, but re-index it now too
+create or replace function public.sync_summary_search_language()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update lecture_summaries
+  set search_language = new.processing_options->>'language'
+  where lecture_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists lectures_sync_summary_search_language on public.lectures;
+create trigger lectures_sync_summary_search_language
+  after update of processing_options on public.lectures
+  for each row
+  when (old.processing_options->>'language' is distinct from new.processing_options->>'language')
+  execute function public.sync_summary_search_language();
+
+-- Same results as before, matched in each lecture's own language. The
+-- combined query (every configuration OR'd together) lets the GIN indexes
+-- find candidates; each row is then checked and ranked with the query
+-- parsed in its own configuration.
+create or replace function public.search_lectures(search_query text, result_limit integer default 30)
+returns table (
+  lecture_id uuid,
+  title text,
+  created_at timestamptz,
+  section text,
+  snippet text,
+  rank real
+)
+language sql
+stable
+as $$
+  with query as (
+    select websearch_to_tsquery('english', search_query)
+      || websearch_to_tsquery('french', search_query)
+      || websearch_to_tsquery('german', search_query)
+      || websearch_to_tsquery('spanish', search_query)
+      || websearch_to_tsquery('italian', search_query)
+      || websearch_to_tsquery('portuguese', search_query)
+      || websearch_to_tsquery('dutch', search_query)
+      || websearch_to_tsquery('swedish', search_query)
+      || websearch_to_tsquery('simple', search_query) as any_q
+  ),
+  lecture_rows as (
+    select l.*, websearch_to_tsquery(public.search_config(l.processing_options->>'language'), search_query) as q
+    from lectures l, query
+    where l.title_search @@ query.any_q or l.transcript_search @@ query.any_q
+  ),
+  summary_rows as (
+    select s.*, websearch_to_tsquery(public.search_config(s.search_language), search_query) as q
+    from lecture_summaries s, query
+    where s.concepts_search @@ query.any_q
+       or s.definitions_search @@ query.any_q
+       or s.summary_search @@ query.any_q
+  ),
+  matches as (
+    select l.id, 'title' as section, l.title as body, l.q,
+           ts_rank(l.title_search, l.q) * 1.0 as rank
+    from lecture_rows l
+    where l.title_search @@ l.q
+
+    union all
+    select s.lecture_id, 'concepts',
+           (select string_agg(
+              coalesce(c->>'name', c->>'concept', c->>'term', '') || ': ' ||
+              coalesce(c->>'explanation', c->>'definition', ''), E'\n')
+            from jsonb_array_elements(s.key_concepts) c),
+           s.q,
+           ts_rank(s.concepts_search, s.q) * 0.8
+    from summary_rows s
+    where s.concepts_search @@ s.q
+
+    union all
+    select s.lecture_id, 'definitions',
+           (select string_agg(
+              coalesce(d->>'term', '') || ': ' || coalesce(d->>'definition', ''), E'\n')
+            from jsonb_array_elements(s.definitions) d),
+           s.q,
+           ts_rank(s.definitions_search, s.q) * 0.8
+    from summary_rows s
+    where s.definitions_search @@ s.q
+
+    union all
+    select s.lecture_id, 'summary', s.summary, s.q,
+           ts_rank(s.summary_search, s.q) * 0.6
+    from summary_rows s
+    where s.summary_search @@ s.q
+
+    union all
+    select l.id, 'transcript', l.transcript, l.q,
+           ts_rank(l.transcript_search, l.q) * 0.4
+    from lecture_rows l
+    where l.transcript_search @@ l.q
+  ),
+  best as (
+    select distinct on (m.id) m.id, m.section, m.body, m.q, m.rank
+    from matches m
+    order by m.id, m.rank desc
+  ),
+  top as (
+    select * from best
+    order by rank desc
+    limit result_limit
+  )
+  select
+    l.id,
+    l.title,
+    l.created_at,
+    top.section,
+    ts_headline(public.search_config(l.processing_options->>'language'), coalesce(top.body, ''), top.q,
+      'StartSel=[[, StopSel=]], MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'),
+    top.rank::real
+  from top
+  join lectures l on l.id = top.id
+  order by top.rank desc
+$$;
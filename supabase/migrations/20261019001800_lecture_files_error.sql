@@ -0,0 +1,7 @@
+-- Original files are uploaded to Storage after processing starts. When
+-- that upload fails (or is cancelled) the reason is kept on the lecture, so
+-- the lecture page can explain why playback and reprocessing aren't
+-- available instead of just hiding them.
+
+alter table public.lectures
+  add column if not exists files_error text;
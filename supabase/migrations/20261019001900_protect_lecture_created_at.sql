@@ -0,0 +1,23 @@
+-- Usage is counted by the month of lectures.created_at, which users could
+-- set through their own insert and update policies: a lecture backdated to
+-- an earlier month stopped counting against this month's allowance. The
+-- database now sets it on insert and rejects changes to it.
+
+create or replace function public.protect_lecture_created_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.created_at := now();
+  elsif new.created_at is distinct from old.created_at then
+    raise exception 'created_at can''t be changed';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists lectures_protect_created_at on public.lectures;
+create trigger lectures_protect_created_at
+  before insert or update on public.lectures
+  for each row execute function public.protect_lecture_created_at();
@@ -0,0 +1,38 @@
+-- The sweep marks lectures that never got a job as failed once they're old
+-- enough, judged by created_at. A reprocessed lecture has no job while its
+-- files upload and is usually older than the cutoff, so the sweep failed
+-- retries mid-upload. processing_started_at is reset on every (re)process
+-- and is what the sweep goes by now.
+
+alter table public.lectures
+  add column if not exists processing_started_at timestamptz;
+
+update public.lectures
+set processing_started_at = created_at
+where processing_started_at is null;
+
+-- Set by the database only: when a lecture goes into processing, or is
+-- reset for another run (its job cleared)
+create or replace function public.set_processing_started_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.processing_started_at := case when new.status = 'processing' then now() end;
+  elsif new.status = 'processing' and (
+    old.status is distinct from 'processing'
+    or (old.job_id is not null and new.job_id is null)
+  ) then
+    new.processing_started_at := now();
+  else
+    new.processing_started_at := old.processing_started_at;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists lectures_set_processing_started_at on public.lectures;
+create trigger lectures_set_processing_started_at
+  before insert or update on public.lectures
+  for each row execute function public.set_processing_started_at();
@@ -0,0 +1,117 @@
+-- A lecture was billed from the moment its row was inserted, before the
+-- upload to the processing server. When that upload failed or was
+-- cancelled, the next attempt inserted another lecture and billed the same
+-- recording twice. Now a lecture counts against the allowance while it's
+-- processing, and afterwards only if a job was ever linked to it
+-- (job_linked_at, written by the database the first time job_id is set).
+-- The browser marks lectures whose upload failed as failed and reuses them
+-- for the next attempt.
+
+alter table public.lectures
+  add column if not exists job_linked_at timestamptz;
+
+update public.lectures
+set job_linked_at = coalesce(processing_started_at, created_at)
+where job_linked_at is null
+  and (job_id is not null or status = 'completed');
+
+create or replace function public.set_job_linked_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.job_linked_at := case when new.job_id is not null then now() end;
+  else
+    new.job_linked_at := coalesce(
+      old.job_linked_at,
+      case when new.job_id is not null then now() end
+    );
+  end if;
+  return new;
+end;
+$$;
+
+-- Named to run before lectures_recheck_recording_quota, which reads it
+drop trigger if exists lectures_mark_job_linked on public.lectures;
+create trigger lectures_mark_job_linked
+  before insert or update on public.lectures
+  for each row execute function public.set_job_linked_at();
+
+-- Same as before, but only lectures that are processing or ever got a job
+create or replace function public.recording_seconds_used(p_user_id uuid, p_at timestamptz)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(billed_seconds), 0)::integer
+  from (
+    select billed_seconds, created_at
+    from lectures
+    where user_id = p_user_id
+      and (status = 'processing' or job_linked_at is not null)
+    union all
+    select billed_seconds, lecture_created_at
+    from deleted_lecture_usage
+    where user_id = p_user_id
+  ) usage
+  where created_at >= date_trunc('month', p_at at time zone 'utc') at time zone 'utc'
+    and created_at < (date_trunc('month', p_at at time zone 'utc') + interval '1 month') at time zone 'utc'
+$$;
+
+revoke execute on function public.recording_seconds_used(uuid, timestamptz) from public, anon, authenticated;
+
+-- Deleting a lecture that never got a job gives its time back
+create or replace function public.keep_deleted_lecture_usage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if old.billed_seconds > 0 and old.job_linked_at is not null then
+    insert into deleted_lecture_usage (user_id, lecture_created_at, billed_seconds)
+    values (old.user_id, old.created_at, old.billed_seconds);
+  end if;
+  return old;
+end;
+$$;
+
+-- Also check lectures that start counting again, e.g. a failed upload
+-- retried into the same row
+create or replace function public.recheck_recording_quota()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  limit_minutes integer;
+  used_seconds integer;
+  old_counted boolean := old.status = 'processing' or old.job_linked_at is not null;
+  new_counted boolean := new.status = 'processing' or new.job_linked_at is not null;
+begin
+  if not new_counted or (old_counted and new.billed_seconds <= old.billed_seconds) then
+    return new;
+  end if;
+
+  select monthly_recording_minutes into limit_minutes
+  from profiles
+  where id = new.user_id;
+
+  if limit_minutes is null then
+    return new;
+  end if;
+
+  used_seconds := recording_seconds_used(new.user_id, old.created_at)
+    - case when old_counted then old.billed_seconds else 0 end;
+  if used_seconds + new.billed_seconds > limit_minutes * 60 then
+    raise exception 'quota_exceeded'
+      using hint = format('%s of %s minutes used that month', used_seconds / 60, limit_minutes);
+  end if;
+
+  return new;
+end;
+$$;